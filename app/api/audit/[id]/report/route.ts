@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getAudit } from '../../../../../lib/history';
+import { admitAuditRequest, authenticateRequest, ownsResource } from '../../../../../lib/rate-limit';
+import { inlineLogo, renderReportHtml, renderReportPdf, resolveBranding, type ReportBranding } from '../../../../../lib/report';
+
+// GET /api/audit/:id/report?format=html|pdf renders a stored audit as a client-ready report.
+// Branding comes from the REPORT_* environment, overridable with ?company=&logo=&primary=&accent=&footer=
+// (a logo given here has to be a data:image URL)
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const query = new URL(request.url).searchParams;
+  const format = query.get('format') ?? 'html';
+  if (format !== 'html' && format !== 'pdf') {
+    return NextResponse.json({ error: '`format` must be html or pdf' }, { status: 400 });
+  }
+
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  try {
+    const audit = await getAudit(id);
+    if (!audit || !ownsResource(identity.client, audit.apiKeyId)) {
+      return NextResponse.json({ error: `No audit with id "${id}"` }, { status: 404 });
+    }
+
+    const branding: ReportBranding = {
+      companyName: query.get('company') ?? undefined,
+      logoUrl: query.get('logo') ?? undefined,
+      primaryColor: query.get('primary') ?? undefined,
+      accentColor: query.get('accent') ?? undefined,
+      footerText: query.get('footer') ?? undefined,
+    };
+    const filename = `audit-report-${id}.${format}`;
+    const disposition = query.get('download') === '0' ? 'inline' : `attachment; filename="${filename}"`;
+
+    if (format === 'html') {
+      return new NextResponse(renderReportHtml(audit, branding), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8', 'Content-Disposition': disposition },
+      });
+    }
+
+    // a PDF launches Chromium, so it takes a request and holds a concurrency slot until it's rendered
+    const admission = await admitAuditRequest(request, { audits: 0, slots: 1 });
+    if (!admission.ok) {
+      return NextResponse.json({ error: admission.error }, { status: admission.status, headers: admission.headers });
+    }
+    let pdf: Uint8Array;
+    try {
+      // Chromium gets no network, so an http(s) logo from REPORT_LOGO_URL is inlined first
+      const logoUrl = await inlineLogo(resolveBranding(branding).logoUrl);
+      pdf = await renderReportPdf(renderReportHtml(audit, { ...branding, logoUrl }));
+    } catch (err) {
+      // no Chromium on this server: the HTML report still works
+      const message = err instanceof Error ? err.message.split('\n')[0] : String(err);
+      return NextResponse.json({ error: `PDF rendering is unavailable: ${message}` }, { status: 503, headers: admission.headers });
+    } finally {
+      admission.release();
+    }
+    return new NextResponse(Buffer.from(pdf), {
+      headers: { ...admission.headers, 'Content-Type': 'application/pdf', 'Content-Disposition': disposition },
+    });
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { batchToCsv, getBatchJob, isFinished, viewBatchJob } from '../../../../../../lib/batch';
+import { authenticateRequest, ownsResource } from '../../../../../../lib/rate-limit';
+
+// GET /api/audit/batch/:id/download?format=csv|json exports a finished job's results
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const format = new URL(request.url).searchParams.get('format') ?? 'json';
+  if (format !== 'csv' && format !== 'json') {
+    return NextResponse.json({ error: '`format` must be csv or json' }, { status: 400 });
+  }
+
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  const job = getBatchJob(id);
+  if (!job || !ownsResource(identity.client, job.apiKeyId)) {
+    return NextResponse.json({ error: `No batch job with id "${id}"` }, { status: 404 });
+  }
+  if (!isFinished(job)) {
+    return NextResponse.json({ error: 'Job is still running', progress: viewBatchJob(job).progress }, { status: 409 });
+  }
+
+  const filename = `audit-batch-${id}.${format}`;
+  const body = format === 'csv'
+    ? batchToCsv(job)
+    : JSON.stringify({ ...viewBatchJob(job), items: job.items }, null, 2);
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
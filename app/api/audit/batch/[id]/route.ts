@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { cancelBatchJob, getBatchJob, viewBatchJob } from '../../../../../lib/batch';
+import { authenticateRequest, ownsResource } from '../../../../../lib/rate-limit';
+
+// GET /api/audit/batch/:id returns the job's progress and each URL's outcome
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  const job = getBatchJob(id);
+  // another key's job is reported as missing rather than forbidden, so ids can't be probed
+  if (!job || !ownsResource(identity.client, job.apiKeyId)) {
+    return NextResponse.json({ error: `No batch job with id "${id}"` }, { status: 404 });
+  }
+  return NextResponse.json(viewBatchJob(job));
+}
+
+// DELETE /api/audit/batch/:id cancels the URLs not yet started
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  const job = getBatchJob(id);
+  if (!job || !ownsResource(identity.client, job.apiKeyId)) {
+    return NextResponse.json({ error: `No batch job with id "${id}"` }, { status: 404 });
+  }
+  if (job.status === 'completed') {
+    return NextResponse.json({ error: 'Job has already completed' }, { status: 409 });
+  }
+  return NextResponse.json(viewBatchJob(cancelBatchJob(id) ?? job));
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { createBatchJob, listBatchJobs, MAX_BATCH_URLS, viewBatchJob } from '../../../../lib/batch';
+import { mapWithConcurrency } from '../../../../lib/concurrency';
+import { admitAuditRequest, authenticateRequest, ownsResource } from '../../../../lib/rate-limit';
+import { parseAuditOptions } from '../../../../lib/request-options';
+import { checkTargetUrl } from '../../../../lib/url-safety';
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const u = new URL(value);
+    return u.protocol === 'http:' || u.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// POST /api/audit/batch { urls: string[], concurrency?, perHostIntervalMs?, checks?, scoring?, performance?, budgets? }
+// queues a page audit per URL and returns the job id right away
+export async function POST(request: Request) {
+  let body: Record<string, unknown> | null;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const urls = body?.urls;
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return NextResponse.json({ error: 'Missing or empty `urls` array in request body' }, { status: 400 });
+  }
+  if (urls.length > MAX_BATCH_URLS) {
+    return NextResponse.json({ error: `A batch can hold at most ${MAX_BATCH_URLS} URLs` }, { status: 400 });
+  }
+  const invalid = urls.filter(u => !isHttpUrl(u));
+  if (invalid.length > 0) {
+    return NextResponse.json({ error: 'Invalid URLs in `urls`', invalid: invalid.slice(0, 20) }, { status: 400 });
+  }
+
+  const unique = [...new Set(urls as string[])];
+
+  // The whole batch comes out of the daily quota up front; its audits run in the background,
+  // paced by the job's own concurrency rather than the caller's concurrent-audit limit
+  const admission = await admitAuditRequest(request, { audits: unique.length, slots: 0 });
+  if (!admission.ok) {
+    return NextResponse.json({ error: admission.error }, { status: admission.status, headers: admission.headers });
+  }
+
+  // checked after admission, since it resolves every name
+  const rejections = (await mapWithConcurrency(unique, 16, checkTargetUrl)).filter(r => r !== null);
+  if (rejections.length > 0) {
+    return NextResponse.json(
+      { error: 'URLs in `urls` cannot be audited', rejected: rejections.slice(0, 20).map(r => ({ url: r.url, error: r.message })) },
+      { status: Math.min(...rejections.map(r => r.status)), headers: admission.headers },
+    );
+  }
+
+  const job = createBatchJob(unique, {
+    concurrency: typeof body?.concurrency === 'number' ? body.concurrency : undefined,
+    perHostIntervalMs: typeof body?.perHostIntervalMs === 'number' ? body.perHostIntervalMs : undefined,
+    audit: parseAuditOptions(body),
+    meta: { apiKeyId: admission.client.apiKeyId },
+  });
+  return NextResponse.json(viewBatchJob(job), { status: 202, headers: admission.headers });
+}
+
+// GET /api/audit/batch lists the caller's jobs still held in memory, newest first
+export async function GET(request: Request) {
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  const jobs = listBatchJobs().filter(job => ownsResource(identity.client, job.apiKeyId)).map(job => {
+    const view: Partial<ReturnType<typeof viewBatchJob>> = viewBatchJob(job);
+    delete view.items;
+    return view;
+  });
+  return NextResponse.json({ jobs });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { listChecks } from '../../../../lib/checks';
+
+// List the registered checks so callers know which ids they can enable or disable
+export async function GET() {
+  const checks = listChecks().map(({ id, title, category, severity, scope }) => ({
+    id,
+    title,
+    category,
+    severity,
+    scope: scope ?? 'page',
+  }));
+  return NextResponse.json({ checks });
+}
@@ -1,25 +1,138 @@
 import { NextResponse } from 'next/server';
-import { runAudit } from '../../../lib/audit';
+import { runAudit, type AuditOptions, type AuditProgressEvent, type AuditResult } from '../../../lib/audit';
+import { crawlSite, DEFAULT_CRAWL_OPTIONS, type CrawlOptions, type SiteAuditResult } from '../../../lib/crawler';
+import { FixtureError, fixtureRequestsAllowed } from '../../../lib/fixtures';
+import { saveAudit, type AuditMeta } from '../../../lib/history';
+import { admitAuditRequest } from '../../../lib/rate-limit';
+import { parseAuditOptions, parseCrawlOptions, parseFixtureOptions } from '../../../lib/request-options';
+import { checkTargetUrl } from '../../../lib/url-safety';
+
+type StreamEvent =
+  | AuditProgressEvent
+  | { type: 'complete'; result: (AuditResult | SiteAuditResult) & { id?: string; createdAt?: string } }
+  | { type: 'error'; error: string };
+
+async function auditAndSave(url: string, options: AuditOptions, crawl: CrawlOptions | null, meta: AuditMeta) {
+  const result = crawl
+    ? await crawlSite(url, { ...crawl, ...options })
+    : await runAudit(url, options);
+
+  // A history write failure shouldn't cost the caller their audit
+  const stored = await saveAudit(url, result, meta).catch(() => null);
+  return stored ? { ...result, id: stored.id, createdAt: stored.createdAt } : result;
+}
+
+// Progress events as NDJSON (one JSON object per line) or, when asked for, server-sent events
+function streamAudit(
+  url: string,
+  options: AuditOptions,
+  crawl: CrawlOptions | null,
+  meta: AuditMeta,
+  format: 'ndjson' | 'sse',
+  headers: Record<string, string>,
+  done: () => void,
+) {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) => {
+        if (closed) return;
+        const data = JSON.stringify(event);
+        controller.enqueue(encoder.encode(format === 'sse' ? `event: ${event.type}\ndata: ${data}\n\n` : `${data}\n`));
+      };
+
+      try {
+        const result = await auditAndSave(url, { ...options, onProgress: send }, crawl, meta);
+        send({ type: 'complete', result });
+      } catch (err) {
+        send({ type: 'error', error: err instanceof Error ? err.message : String(err) });
+      } finally {
+        done();
+      }
+      if (!closed) controller.close();
+    },
+    // the client went away; the audit finishes but nothing more is sent
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      'Content-Type': format === 'sse' ? 'text/event-stream; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
 
 export async function POST(request: Request) {
+  let body: Record<string, unknown> | null;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  let release: (() => void) | null = null;
   try {
-    const body = await request.json();
     const url = body?.url;
 
     if (!url || typeof url !== 'string') {
       return NextResponse.json({ error: 'Missing or invalid `url` in request body' }, { status: 400 });
     }
 
-    // Basic URL validation
-    try {
-      new URL(url);
-    } catch {
-      return NextResponse.json({ error: 'Invalid URL' }, { status: 400 });
+    // `crawl: true` or `crawl: { maxPages, maxDepth, concurrency }` audits the whole site
+    const options = parseAuditOptions(body);
+    const crawl = parseCrawlOptions(body?.crawl);
+
+    // `fixture: { mode: 'record' | 'replay', name }` writes files on the server, so it's opt-in
+    if (body?.fixture !== undefined) {
+      if (!fixtureRequestsAllowed()) {
+        return NextResponse.json({ error: 'Fixtures are not enabled on this server' }, { status: 403 });
+      }
+      options.fixture = parseFixtureOptions(body.fixture);
+      if (!options.fixture) {
+        return NextResponse.json({ error: '`fixture` must be { mode: "record" | "replay", name }' }, { status: 400 });
+      }
+    }
+
+    // Counted against the caller's API key, or their IP without one; a crawl reserves an
+    // audit for every page it may visit
+    const audits = crawl ? (crawl.maxPages ?? DEFAULT_CRAWL_OPTIONS.maxPages) : 1;
+    const admission = await admitAuditRequest(request, { audits });
+    if (!admission.ok) {
+      return NextResponse.json({ error: admission.error }, { status: admission.status, headers: admission.headers });
+    }
+    release = admission.release;
+
+    // Only public http(s) targets; every request the audit makes is checked again. Checked
+    // after admission, since it resolves the name
+    const rejection = await checkTargetUrl(url);
+    if (rejection) {
+      return NextResponse.json({ error: rejection.message, reason: rejection.reason }, { status: rejection.status, headers: admission.headers });
+    }
+    const meta: AuditMeta = { apiKeyId: admission.client.apiKeyId };
+
+    // `stream: true` (or an Accept header asking for a stream) reports each check as it finishes;
+    // the stream gives back the concurrency slot when the audit ends, not when the response starts
+    const accept = request.headers.get('accept') ?? '';
+    const format = accept.includes('text/event-stream') ? 'sse'
+      : body?.stream === true || accept.includes('application/x-ndjson') ? 'ndjson'
+      : null;
+    if (format) {
+      release = null;
+      return streamAudit(url, options, crawl, meta, format, admission.headers, admission.release);
     }
 
-    const result = await runAudit(url);
-    return NextResponse.json(result);
-  } catch (err: any) {
-    return NextResponse.json({ error: String(err?.message ?? err) }, { status: 500 });
+    return NextResponse.json(await auditAndSave(url, options, crawl, meta), { headers: admission.headers });
+  } catch (err) {
+    if (err instanceof FixtureError) return NextResponse.json({ error: err.message }, { status: 400 });
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  } finally {
+    release?.();
   }
 }
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getAudit } from '../../../../lib/history';
+import { authenticateRequest, ownsResource } from '../../../../lib/rate-limit';
+
+// GET /api/audits/:id returns one stored audit with its full result
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  try {
+    const audit = await getAudit(id);
+    // another key's audit is reported as missing rather than forbidden, so ids can't be probed
+    if (!audit || !ownsResource(identity.client, audit.apiKeyId)) {
+      return NextResponse.json({ error: `No audit with id "${id}"` }, { status: 404 });
+    }
+    return NextResponse.json(audit);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
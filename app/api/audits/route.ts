@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { listAudits } from '../../../lib/history';
+import { authenticateRequest } from '../../../lib/rate-limit';
+
+function numberParam(value: string | null): number | undefined {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+// GET /api/audits?url=&from=&to=&page=&pageSize= lists the caller's stored audits, newest first
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  for (const key of ['from', 'to']) {
+    const value = params.get(key);
+    if (value && Number.isNaN(Date.parse(value))) {
+      return NextResponse.json({ error: `Invalid \`${key}\` date` }, { status: 400 });
+    }
+  }
+
+  try {
+    const page = await listAudits({
+      url: params.get('url') ?? undefined,
+      apiKeyId: identity.client.apiKeyId,
+      from: params.get('from') ?? undefined,
+      to: params.get('to') ?? undefined,
+      page: numberParam(params.get('page')),
+      pageSize: numberParam(params.get('pageSize')),
+    });
+    return NextResponse.json(page);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
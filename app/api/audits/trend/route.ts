@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getTrend } from '../../../../lib/history';
+import { authenticateRequest } from '../../../../lib/rate-limit';
+
+// GET /api/audits/trend?url= returns score and key metrics of the caller's audits of a URL over time, oldest first
+export async function GET(request: Request) {
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  const url = new URL(request.url).searchParams.get('url');
+  if (!url) {
+    return NextResponse.json({ error: 'Missing `url` query parameter' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ url, points: await getTrend(url, identity.client.apiKeyId) });
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { runAudit, type AuditOptions, type AuditResult } from '../../../lib/audit';
+import { diffAudits } from '../../../lib/compare';
+import { FixtureError, fixtureRequestsAllowed } from '../../../lib/fixtures';
+import { getAudit, saveAudit } from '../../../lib/history';
+import { admitAuditRequest, authenticateRequest, ownsResource, type ApiClient } from '../../../lib/rate-limit';
+import { parseAuditOptions, parseFixtureOptions } from '../../../lib/request-options';
+import { checkTargetUrl } from '../../../lib/url-safety';
+
+type Side = AuditResult & { id?: string; createdAt?: string };
+
+class CompareInputError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Each side is `{ id }` for a stored audit or `{ url, fixture? }` to audit now
+function sideOf(input: unknown): Record<string, unknown> {
+  return (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+}
+
+async function resolveSide(name: string, input: unknown, options: AuditOptions, client: ApiClient): Promise<Side> {
+  const { id, url, fixture } = sideOf(input);
+
+  if (typeof id === 'string' && id) {
+    const stored = await getAudit(id);
+    if (!stored || !ownsResource(client, stored.apiKeyId)) throw new CompareInputError(`No audit with id "${id}"`, 404);
+    // a crawl is compared by its start page
+    const result = 'pagesCrawled' in stored.result ? stored.result.pages[0] : stored.result;
+    return { ...result, id: stored.id, createdAt: stored.createdAt };
+  }
+
+  if (typeof url === 'string' && url) {
+    const rejection = await checkTargetUrl(url);
+    if (rejection) throw new CompareInputError(`\`${name}.url\`: ${rejection.message}`, rejection.status);
+
+    // a fixture holds one audit, so each side names its own
+    const sideOptions = { ...options };
+    if (fixture !== undefined) {
+      if (!fixtureRequestsAllowed()) throw new CompareInputError('Fixtures are not enabled on this server', 403);
+      sideOptions.fixture = parseFixtureOptions(fixture);
+      if (!sideOptions.fixture) throw new CompareInputError(`\`${name}.fixture\` must be { mode: "record" | "replay", name }`, 400);
+    }
+    const result = await runAudit(url, sideOptions);
+    const stored = await saveAudit(url, result, { apiKeyId: client.apiKeyId }).catch(() => null);
+    return stored ? { ...result, id: stored.id, createdAt: stored.createdAt } : result;
+  }
+
+  throw new CompareInputError(`\`${name}\` needs an \`id\` or a \`url\``, 400);
+}
+
+async function compare(before: unknown, after: unknown, options: AuditOptions, client: ApiClient, headers?: Record<string, string>) {
+  try {
+    const [a, b] = await Promise.all([resolveSide('before', before, options, client), resolveSide('after', after, options, client)]);
+    return NextResponse.json(diffAudits(a, b), { headers });
+  } catch (err) {
+    if (err instanceof CompareInputError) {
+      return NextResponse.json({ error: err.message }, { status: err.status, headers });
+    }
+    if (err instanceof FixtureError) return NextResponse.json({ error: err.message }, { status: 400, headers });
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
+
+// POST { before: { id } | { url }, after: { id } | { url }, checks?, scoring?, performance?, http?, budgets? }
+// audits the URL sides now with the same options, as POST /api/audit would
+export async function POST(request: Request) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  // Each side audited now takes one audit from the quota and a concurrency slot; stored audits are free
+  const audits = [body?.before, body?.after].filter(side => {
+    const { id, url } = sideOf(side);
+    return !(typeof id === 'string' && id) && typeof url === 'string' && !!url;
+  }).length;
+  const admission = await admitAuditRequest(request, { audits, slots: audits });
+  if (!admission.ok) {
+    return NextResponse.json({ error: admission.error }, { status: admission.status, headers: admission.headers });
+  }
+  try {
+    return await compare(body?.before, body?.after, parseAuditOptions(body), admission.client, admission.headers);
+  } finally {
+    admission.release();
+  }
+}
+
+// GET ?before=<id>&after=<id> compares two of the caller's stored audits
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+  return compare({ id: params.get('before') }, { id: params.get('after') }, {}, identity.client);
+}
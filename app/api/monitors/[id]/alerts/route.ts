@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getMonitor, listAlerts } from '../../../../../lib/monitors';
+import { authenticateRequest, ownsResource } from '../../../../../lib/rate-limit';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// GET /api/monitors/:id/alerts?limit= lists the monitor's alerts and their webhook deliveries, newest first
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  const monitor = await getMonitor(id);
+  if (!monitor || !ownsResource(identity.client, monitor.apiKeyId)) {
+    return NextResponse.json({ error: `No monitor with id "${id}"` }, { status: 404 });
+  }
+
+  const limit = Number(new URL(request.url).searchParams.get('limit'));
+  try {
+    const alerts = await listAlerts({
+      monitorId: id,
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(Math.floor(limit), MAX_LIMIT) : DEFAULT_LIMIT,
+    });
+    return NextResponse.json({ alerts });
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
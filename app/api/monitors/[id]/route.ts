@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { deleteMonitor, findUnsafeMonitorUrl, getMonitor, MonitorInputError, parseMonitorInput, updateMonitor } from '../../../../lib/monitors';
+import { admitAuditRequest, authenticateRequest, ownsResource } from '../../../../lib/rate-limit';
+import { isMonitorRunning } from '../../../../lib/scheduler';
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `No monitor with id "${id}"` }, { status: 404 });
+}
+
+// GET /api/monitors/:id
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  const monitor = await getMonitor(id);
+  // another key's monitor is reported as missing rather than forbidden, so ids can't be probed
+  if (!monitor || !ownsResource(identity.client, monitor.apiKeyId)) return notFound(id);
+  return NextResponse.json({ ...monitor, running: isMonitorRunning(id) });
+}
+
+// PATCH /api/monitors/:id changes any of the fields POST /api/monitors accepts
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const admission = await admitAuditRequest(request, { audits: 0, slots: 0 });
+  if (!admission.ok) {
+    return NextResponse.json({ error: admission.error }, { status: admission.status, headers: admission.headers });
+  }
+
+  try {
+    const input = parseMonitorInput(body);
+    const existing = await getMonitor(id);
+    if (!existing || !ownsResource(admission.client, existing.apiKeyId)) return notFound(id);
+
+    const rejection = await findUnsafeMonitorUrl(input);
+    if (rejection) return NextResponse.json({ error: rejection.message, reason: rejection.reason }, { status: rejection.status });
+
+    const monitor = await updateMonitor(id, input);
+    if (!monitor) return notFound(id);
+    return NextResponse.json(monitor, { headers: admission.headers });
+  } catch (err) {
+    if (err instanceof MonitorInputError) return NextResponse.json({ error: err.message }, { status: 400 });
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
+
+// DELETE /api/monitors/:id stops monitoring; its audits and alerts stay in the history
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const admission = await admitAuditRequest(request, { audits: 0, slots: 0 });
+  if (!admission.ok) {
+    return NextResponse.json({ error: admission.error }, { status: admission.status, headers: admission.headers });
+  }
+
+  const monitor = await getMonitor(id);
+  if (!monitor || !ownsResource(admission.client, monitor.apiKeyId) || !(await deleteMonitor(id))) return notFound(id);
+  return new Response(null, { status: 204, headers: admission.headers });
+}
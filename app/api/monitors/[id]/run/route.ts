@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getMonitor } from '../../../../../lib/monitors';
+import { admitAuditRequest, ownsResource } from '../../../../../lib/rate-limit';
+import { isMonitorRunning, runMonitor } from '../../../../../lib/scheduler';
+
+// POST /api/monitors/:id/run audits the monitor now and returns the run with any alerts it raised.
+// The run counts against the caller's quota and holds one of its concurrent slots.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const admission = await admitAuditRequest(request);
+  if (!admission.ok) {
+    return NextResponse.json({ error: admission.error }, { status: admission.status, headers: admission.headers });
+  }
+
+  try {
+    const monitor = await getMonitor(id);
+    if (!monitor || !ownsResource(admission.client, monitor.apiKeyId)) {
+      return NextResponse.json({ error: `No monitor with id "${id}"` }, { status: 404 });
+    }
+    if (isMonitorRunning(id)) {
+      return NextResponse.json({ error: 'Monitor is already running' }, { status: 409 });
+    }
+
+    const run = await runMonitor(monitor);
+    return NextResponse.json(run, { status: run.error ? 500 : 200, headers: admission.headers });
+  } finally {
+    admission.release();
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { createMonitor, findUnsafeMonitorUrl, listMonitors, MonitorInputError, parseMonitorInput } from '../../../lib/monitors';
+import { admitAuditRequest, authenticateRequest, ownsResource } from '../../../lib/rate-limit';
+
+// GET /api/monitors lists the caller's monitors with their schedule and last outcome
+export async function GET(request: Request) {
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) {
+    return NextResponse.json({ error: identity.error }, { status: identity.status, headers: identity.headers });
+  }
+
+  try {
+    const monitors = (await listMonitors()).filter(m => ownsResource(identity.client, m.apiKeyId));
+    return NextResponse.json({ monitors });
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
+
+// POST /api/monitors { url, schedule?, enabled?, scoreDropThreshold?, alertOn?, webhooks?, audit? }
+// `webhooks` entries are URLs or { url, format: 'json' | 'slack' }
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  // creating one runs nothing yet, so it costs a request but no quota
+  const admission = await admitAuditRequest(request, { audits: 0, slots: 0 });
+  if (!admission.ok) {
+    return NextResponse.json({ error: admission.error }, { status: admission.status, headers: admission.headers });
+  }
+
+  try {
+    const input = parseMonitorInput(body);
+    const rejection = await findUnsafeMonitorUrl(input);
+    if (rejection) return NextResponse.json({ error: rejection.message, reason: rejection.reason }, { status: rejection.status });
+
+    const monitor = await createMonitor(input, { apiKeyId: admission.client.apiKeyId, subject: admission.client.subject });
+    return NextResponse.json(monitor, { status: 201, headers: admission.headers });
+  } catch (err) {
+    if (err instanceof MonitorInputError) return NextResponse.json({ error: err.message }, { status: 400 });
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
@@ -3,6 +3,17 @@
 import React, { useState } from 'react';
 
 // ============ TYPES ============
+interface LinkResult {
+  url: string;
+  type?: string;
+  internal?: boolean;
+  statusCode?: number;
+  finalUrl?: string;
+  redirects?: Array<{ url: string; status: number; location: string }>;
+  broken: boolean;
+  error?: string;
+}
+
 interface AuditResult {
   url: string;
   status: number | null;
@@ -10,30 +21,207 @@ interface AuditResult {
   title?: string;
   metaDescription?: string;
   h1Count?: number;
+  seo?: {
+    title: { value?: string; length: number; min: number; max: number; status: 'pass' | 'warn' | 'fail' };
+    metaDescription: { value?: string; length: number; min: number; max: number; status: 'pass' | 'warn' | 'fail' };
+    canonical: { href?: string; url?: string; absolute: boolean; selfReferencing: boolean; count: number };
+    robots: { meta?: string; header?: string; noindex: boolean; nofollow: boolean };
+    hreflang: Array<{ lang: string; href: string }>;
+    openGraph: { present: Record<string, string>; missing: string[] };
+    twitterCard: { present: Record<string, string>; missing: string[] };
+    structuredData: Array<{ types: string[]; valid: boolean; error?: string }>;
+    issues: Array<{ id: string; severity: 'critical' | 'high' | 'medium' | 'low'; message: string }>;
+  };
   totalImages?: number;
   imgWithoutAlt?: number;
-  imageIssues?: Array<{ src: string; alt?: boolean; missingFormats?: boolean; oversized?: boolean }>;
+  imageIssues?: Array<{
+    src: string;
+    format?: string;
+    bytes?: number;
+    intrinsicWidth?: number;
+    intrinsicHeight?: number;
+    renderedWidth?: number;
+    renderedHeight?: number;
+    problems: Array<{ type: string; message: string; savingsBytes: number }>;
+    estimatedSavingsBytes: number;
+  }>;
   totalLinks?: number;
-  brokenLinks?: Array<{ url: string; statusCode?: number; broken: boolean }>;
+  checkedLinks?: LinkResult[];
+  brokenLinks?: LinkResult[];
   externalLinks?: number;
   scriptsCount?: number;
   inlineStylesCount?: number;
-  hasRobots?: boolean;
-  hasSitemap?: boolean;
+  robots?: {
+    url: string;
+    found: boolean;
+    status?: number;
+    groups: Array<{ userAgents: string[]; rules: Array<{ type: 'allow' | 'disallow'; path: string }> }>;
+    sitemaps: string[];
+    googlebotAllowed: boolean;
+    allAgentsAllowed: boolean;
+    error?: string;
+  };
+  sitemap?: {
+    found: boolean;
+    locations: string[];
+    files: Array<{ url: string; kind: 'urlset' | 'index' | 'unknown'; status?: number; gzipped: boolean; entries: number; error?: string }>;
+    urlCount: number;
+    truncated: boolean;
+    invalidLastmod: number;
+    foreignUrls: number;
+    sampled: Array<{ url: string; status?: number; error?: string; ok: boolean }>;
+    issues: Array<{ id: string; severity: 'critical' | 'high' | 'medium' | 'low'; message: string; details?: string[] }>;
+  };
   ttfbMs?: number;
   fcpMs?: number;
   lcpMs?: number;
+  cls?: number;
+  tbtMs?: number;
+  transferBytes?: number;
+  metricSources?: Record<string, 'measured' | 'estimated'>;
+  browserError?: string;
   hasViewport?: boolean;
   responsive?: boolean;
+  accessibility?: Array<{
+    rule: string;
+    wcag: string;
+    severity: 'critical' | 'high' | 'medium' | 'low';
+    message: string;
+    selector: string;
+    snippet: string;
+  }>;
   isHttps?: boolean;
   hasHsts?: boolean;
   hasMixedContent?: boolean;
-  redirects?: Array<{ type: string; message: string }>;
+  mixedContent?: Array<{ url: string; element: string; attribute: string; type: 'active' | 'passive' }>;
+  securityHeaders?: Array<{ header: string; value: string | null; status: 'pass' | 'warn' | 'fail'; message: string }>;
+  redirects?: Array<{ type: string; url?: string; message: string }>;
+  redirectChains?: Array<{
+    variant: string;
+    startUrl: string;
+    hops: Array<{ url: string; status: number; location: string }>;
+    finalUrl: string;
+    finalStatus?: number;
+    loop: boolean;
+    error?: string;
+  }>;
   score?: number;
+  categoryScores?: Record<string, number>;
+  scoreBreakdown?: Array<{ id: string; category: string; reason: string; points: number; impact: number }>;
+  topFixes?: TopFix[];
+  budget?: {
+    origin: string | null;
+    passed: boolean;
+    violations: number;
+    assertions: Array<{
+      metric: string;
+      label: string;
+      unit: string;
+      actual: number | null;
+      comparison: 'max' | 'min';
+      limit: number;
+      status: 'pass' | 'fail' | 'skipped';
+      note?: string;
+    }>;
+    error?: string;
+  };
+  error?: string | null;
+  // Set once the result is stored in the audit history
+  id?: string;
+  createdAt?: string;
+}
+
+interface TopFix {
+  id: string;
+  title: string;
+  category: string;
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  impact: number;
+  effort: 'low' | 'medium' | 'high';
+  remediation: string;
+  snippets?: Array<{ label?: string; language: string; code: string }>;
+  findings: string[];
+  details: string[];
+}
+
+interface AuditSummary {
+  id: string;
+  createdAt: string;
+  url: string;
+  kind: 'page' | 'site';
+  score: number | null;
+  status: number | null;
   error?: string | null;
 }
 
+interface TrendPoint {
+  id: string;
+  createdAt: string;
+  score: number | null;
+}
+
+interface CheckProgress {
+  id: string;
+  title: string;
+  status: 'pending' | 'running' | 'done' | 'failed' | 'timed-out';
+  durationMs?: number;
+  findings?: number;
+  error?: string;
+}
+
+// What POST /api/audit streams, one JSON object per line
+type ProgressEvent =
+  | { type: 'started'; checks: Array<{ id: string; title: string }> }
+  | { type: 'fetched' | 'metrics' | 'scored'; result: AuditResult }
+  | { type: 'check-start'; checkId: string }
+  | { type: 'check-finish'; checkId: string; result: AuditResult; status: 'done' | 'failed' | 'timed-out'; durationMs: number; findings: unknown[]; error?: string }
+  | { type: 'complete'; result: AuditResult }
+  | { type: 'error'; error: string };
+
+const CATEGORY_LABELS: Record<string, string> = {
+  performance: 'Performance',
+  security: 'Security',
+  seo: 'SEO',
+  accessibility: 'Accessibility',
+  'best-practices': 'Best Practices',
+};
+
 // ============ COMPONENTS ============
+const CHECK_STATUS_STYLES: Record<CheckProgress['status'], { icon: string; color: string; background: string }> = {
+  pending: { icon: '⏳', color: '#6b7280', background: '#f3f4f6' },
+  running: { icon: '🔄', color: '#1e40af', background: '#dbeafe' },
+  done: { icon: '✓', color: '#166534', background: '#f0fdf4' },
+  failed: { icon: '✗', color: '#991b1b', background: '#fee2e2' },
+  'timed-out': { icon: '⏱', color: '#92400e', background: '#fef3c7' },
+};
+
+function CheckProgressList({ checks }: { checks: CheckProgress[] }) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+      {checks.map((c) => {
+        const style = CHECK_STATUS_STYLES[c.status];
+        return (
+          <span
+            key={c.id}
+            title={c.error}
+            style={{ padding: '4px 10px', borderRadius: '999px', fontSize: '12px', color: style.color, backgroundColor: style.background }}
+          >
+            {style.icon} {c.title}
+            {c.durationMs !== undefined && <span style={{ opacity: 0.7 }}> · {(c.durationMs / 1000).toFixed(1)}s</span>}
+            {c.status === 'timed-out' && ' · timed out'}
+            {c.status === 'failed' && ' · failed'}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+function formatBudgetValue(value: number | null, unit: string) {
+  if (value === null) return '–';
+  if (unit === 'bytes') return `${Math.round(value / 1024)} KB`;
+  return `${value}${unit}`;
+}
 
 // Progress Ring / Radial Gauge
 function ProgressRing({ score, radius = 45, strokeWidth = 4 }: { score: number; radius?: number; strokeWidth?: number }) {
@@ -165,8 +353,71 @@ function IssueCard({ icon, title, severity, details }: { icon: string; title: st
   );
 }
 
+// Fix Card: what to change, what it is worth, and sample code to copy
+function FixCard({ rank, fix }: { rank: number; fix: TopFix }) {
+  const [open, setOpen] = useState(rank === 1);
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: '6px', padding: '12px 16px', marginBottom: '12px', backgroundColor: '#ffffff' }}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        style={{ display: 'flex', alignItems: 'center', gap: '12px', width: '100%', background: 'none', border: 'none', padding: 0, cursor: 'pointer', textAlign: 'left' }}
+      >
+        <span style={{ fontSize: '18px', fontWeight: 'bold', color: '#9ca3af', minWidth: '24px' }}>{rank}</span>
+        <strong style={{ fontSize: '14px', color: '#111827', flex: 1 }}>{fix.title}</strong>
+        <span style={{ fontSize: '11px', backgroundColor: fix.impact > 0 ? '#dcfce7' : '#f3f4f6', color: fix.impact > 0 ? '#166534' : '#6b7280', padding: '2px 8px', borderRadius: '4px' }}>
+          {fix.impact > 0 ? `+${fix.impact} pts` : 'no score impact'}
+        </span>
+        <span style={{ fontSize: '11px', backgroundColor: '#f3f4f6', color: '#374151', padding: '2px 8px', borderRadius: '4px' }}>{fix.effort} effort</span>
+        <span style={{ fontSize: '11px', color: '#6b7280', textTransform: 'uppercase' }}>{fix.severity}</span>
+      </button>
+      {open && (
+        <div style={{ marginTop: '10px', paddingLeft: '36px', fontSize: '13px', color: '#374151', lineHeight: '1.5' }}>
+          <p style={{ margin: '0 0 8px' }}>{fix.remediation}</p>
+          {fix.details.length > 0 && (
+            <ul style={{ margin: '0 0 8px', paddingLeft: '20px', color: '#6b7280' }}>
+              {fix.details.slice(0, 5).map((d, i) => (
+                <li key={i}>{d}</li>
+              ))}
+            </ul>
+          )}
+          {fix.snippets?.map((snippet, i) => (
+            <div key={i} style={{ marginTop: '8px' }}>
+              {snippet.label && <div style={{ fontSize: '11px', color: '#6b7280', marginBottom: '4px' }}>{snippet.label}</div>}
+              <pre style={{ margin: 0, padding: '8px 12px', backgroundColor: '#111827', color: '#f9fafb', borderRadius: '4px', fontSize: '12px', overflowX: 'auto' }}>
+                <code>{snippet.code}</code>
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Score Sparkline (oldest → newest, 0–100 scale)
+function Sparkline({ points, width = 240, height = 48 }: { points: TrendPoint[]; width?: number; height?: number }) {
+  const scores = points.filter((p) => p.score !== null).map((p) => p.score as number);
+  if (scores.length < 2) {
+    return <p style={{ fontSize: '12px', color: '#6b7280' }}>Run more audits of this URL to see a trend.</p>;
+  }
+
+  const step = width / (scores.length - 1);
+  const coords = scores.map((score, i) => `${(i * step).toFixed(1)},${(height - (score / 100) * height).toFixed(1)}`);
+  const last = scores[scores.length - 1];
+  const color = last >= 80 ? '#10b981' : last >= 50 ? '#f59e0b' : '#ef4444';
+
+  return (
+    <svg width={width} height={height} style={{ overflow: 'visible' }}>
+      <polyline points={coords.join(' ')} fill="none" stroke={color} strokeWidth={2} />
+      <circle cx={(scores.length - 1) * step} cy={height - (last / 100) * height} r={3} fill={color} />
+    </svg>
+  );
+}
+
 // Metric Card (code-like inspection)
-function MetricCard({ title, value, unit, context }: { title: string; value: number | string; unit?: string; context?: string }) {
+function MetricCard({ title, value, unit, context, source }: { title: string; value: number | string; unit?: string; context?: string; source?: 'measured' | 'estimated' }) {
   return (
     <div
       style={{
@@ -180,7 +431,14 @@ function MetricCard({ title, value, unit, context }: { title: string; value: num
         marginBottom: '8px',
       }}
     >
-      <div style={{ color: '#9ca3af' }}>&gt; {title}</div>
+      <div style={{ color: '#9ca3af', display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+        <span>&gt; {title}</span>
+        {source && (
+          <span style={{ fontSize: '10px', color: source === 'measured' ? '#10b981' : '#f59e0b', textTransform: 'uppercase' }}>
+            {source}
+          </span>
+        )}
+      </div>
       <div style={{ fontSize: '16px', color: '#10b981', marginTop: '4px' }}>
         <strong>{value}</strong> {unit && <span style={{ color: '#6b7280' }}>{unit}</span>}
       </div>
@@ -195,11 +453,48 @@ export default function AuditPage() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<AuditResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<AuditSummary[]>([]);
+  const [trend, setTrend] = useState<TrendPoint[]>([]);
+  const [checks, setChecks] = useState<CheckProgress[]>([]);
+
+  async function loadHistory(auditedUrl: string) {
+    try {
+      const query = encodeURIComponent(auditedUrl);
+      const [list, points] = await Promise.all([
+        fetch(`/api/audits?url=${query}&pageSize=10`).then((r) => r.json()),
+        fetch(`/api/audits/trend?url=${query}`).then((r) => r.json()),
+      ]);
+      setHistory(list?.items ?? []);
+      setTrend(points?.points ?? []);
+    } catch {
+      // history is a nice-to-have next to the result
+    }
+  }
+
+  async function openAudit(id: string) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/audits/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || 'Unknown error');
+        return;
+      }
+      // crawls are stored whole; show their start page
+      const stored = data.kind === 'site' ? data.result.pages[0] : data.result;
+      setResult({ ...stored, id: data.id, createdAt: data.createdAt });
+      setChecks([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
 
   async function submit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
     setResult(null);
+    setHistory([]);
+    setTrend([]);
 
     if (!url) {
       setError('Please enter a URL');
@@ -207,26 +502,73 @@ export default function AuditPage() {
     }
 
     setLoading(true);
+    setChecks([]);
     try {
       const res = await fetch('/api/audit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: url.trim() }),
+        body: JSON.stringify({ url: url.trim(), stream: true }),
       });
 
-      const data = await res.json();
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
         setError(data?.error || 'Unknown error');
-      } else {
-        setResult(data);
+        return;
+      }
+
+      // Each line is one progress event; sections fill in as the partial result grows
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += value;
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.trim()) handleEvent(JSON.parse(line) as ProgressEvent);
+        }
       }
-    } catch (err: any) {
-      setError(String(err?.message ?? err));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     } finally {
       setLoading(false);
     }
   }
 
+  function handleEvent(event: ProgressEvent) {
+    switch (event.type) {
+      case 'started':
+        setChecks(event.checks.map((c) => ({ id: c.id, title: c.title, status: 'pending' })));
+        break;
+      case 'check-start':
+        setChecks((prev) => prev.map((c) => (c.id === event.checkId ? { ...c, status: 'running' } : c)));
+        break;
+      case 'check-finish':
+        setChecks((prev) =>
+          prev.map((c) =>
+            c.id === event.checkId
+              ? { ...c, status: event.status, durationMs: event.durationMs, findings: event.findings.length, error: event.error }
+              : c,
+          ),
+        );
+        setResult(event.result);
+        break;
+      case 'fetched':
+      case 'metrics':
+      case 'scored':
+        setResult(event.result);
+        break;
+      case 'complete':
+        setResult(event.result);
+        loadHistory(url.trim());
+        break;
+      case 'error':
+        setError(event.error);
+        break;
+    }
+  }
+
   return (
     <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb', padding: '32px 20px' }}>
       <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
@@ -311,13 +653,131 @@ export default function AuditPage() {
                     </h2>
                     <p style={{ fontSize: '12px', color: '#6b7280', marginBottom: '8px' }}>{result.url}</p>
                     <p style={{ fontSize: '12px', color: '#6b7280' }}>{result.metaDescription || 'No meta description'}</p>
+                    {result.id && !loading && (
+                      <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                        {(['html', 'pdf'] as const).map((format) => (
+                          <a
+                            key={format}
+                            href={`/api/audit/${result.id}/report?format=${format}`}
+                            download
+                            style={{
+                              padding: '6px 12px',
+                              backgroundColor: '#f3f4f6',
+                              color: '#111827',
+                              border: '1px solid #d1d5db',
+                              borderRadius: '6px',
+                              fontSize: '12px',
+                              fontWeight: 600,
+                              textDecoration: 'none',
+                            }}
+                          >
+                            ⬇ {format.toUpperCase()} report
+                          </a>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div style={{ textAlign: 'center' }}>
-                    <ProgressRing score={result.score ?? 0} />
-                    <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '8px' }}>Overall Score</p>
+                    {loading ? (
+                      <p style={{ fontSize: '12px', color: '#6b7280' }}>Scoring once all checks finish…</p>
+                    ) : (
+                      <>
+                        <ProgressRing score={result.score ?? 0} />
+                        <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '8px' }}>Overall Score</p>
+                      </>
+                    )}
                   </div>
                 </div>
 
+                {/* Checks: live while running, then only the ones that failed or timed out */}
+                {(loading ? checks : checks.filter((c) => c.status === 'failed' || c.status === 'timed-out')).length > 0 && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>
+                      {loading
+                        ? `🧪 Checks (${checks.filter((c) => c.status !== 'pending' && c.status !== 'running').length}/${checks.length})`
+                        : '🧪 Checks that did not finish'}
+                    </h3>
+                    <CheckProgressList checks={loading ? checks : checks.filter((c) => c.status === 'failed' || c.status === 'timed-out')} />
+                  </div>
+                )}
+
+                {/* Top fixes: the most score per unit of effort, ahead of everything else */}
+                {!loading && result.topFixes && result.topFixes.length > 0 && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>🛠️ Top {result.topFixes.length} Fixes</h3>
+                    {result.topFixes.map((fix, i) => (
+                      <FixCard key={fix.id} rank={i + 1} fix={fix} />
+                    ))}
+                  </div>
+                )}
+
+                {/* History */}
+                {history.length > 0 && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>🕘 History</h3>
+                    <div style={{ display: 'flex', gap: '32px', flexWrap: 'wrap', alignItems: 'flex-start' }}>
+                      <div>
+                        <p style={{ fontSize: '12px', color: '#6b7280', marginBottom: '8px' }}>Score over {trend.length} audits</p>
+                        <Sparkline points={trend} />
+                      </div>
+                      <ul style={{ margin: 0, padding: 0, listStyle: 'none', fontSize: '13px', color: '#374151', lineHeight: '1.8', flex: 1, minWidth: '240px' }}>
+                        {history.map((h) => (
+                          <li key={h.id}>
+                            <button
+                              type="button"
+                              onClick={() => openAudit(h.id)}
+                              style={{
+                                background: 'none',
+                                border: 'none',
+                                padding: 0,
+                                cursor: 'pointer',
+                                color: h.id === result.id ? '#111827' : '#3b82f6',
+                                fontWeight: h.id === result.id ? 'bold' : 'normal',
+                                fontSize: '13px',
+                              }}
+                            >
+                              {new Date(h.createdAt).toLocaleString()}
+                            </button>{' '}
+                            <span style={{ color: '#6b7280' }}>
+                              {h.error ? `failed: ${h.error}` : `score ${h.score ?? '–'}${h.kind === 'site' ? ' (site crawl)' : ''}`}
+                            </span>
+                            {result.id && h.id !== result.id && (
+                              <a href={`/compare?before=${h.id}&after=${result.id}`} style={{ marginLeft: '8px', fontSize: '12px', color: '#3b82f6' }}>
+                                compare
+                              </a>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+
+                {/* Category Scores + Breakdown */}
+                {result.categoryScores && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>🧮 Category Scores</h3>
+                    <div style={{ display: 'flex', gap: '24px', flexWrap: 'wrap', marginBottom: '16px' }}>
+                      {Object.entries(result.categoryScores).map(([category, score]) => (
+                        <div key={category} style={{ textAlign: 'center' }}>
+                          <ProgressRing score={score} radius={32} strokeWidth={3} />
+                          <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>{CATEGORY_LABELS[category] ?? category}</p>
+                        </div>
+                      ))}
+                    </div>
+                    {result.scoreBreakdown && result.scoreBreakdown.length > 0 && (
+                      <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '13px', color: '#374151', lineHeight: '1.6' }}>
+                        {result.scoreBreakdown.map((d, i) => (
+                          <li key={i}>
+                            <strong style={{ color: '#991b1b' }}>-{d.points}</strong> {CATEGORY_LABELS[d.category] ?? d.category}: {d.reason}
+                            <span style={{ color: '#6b7280' }}> (≈{d.impact} overall)</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
                 {/* Status Pills Row */}
                 <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
                   <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>Status Overview</h3>
@@ -326,26 +786,95 @@ export default function AuditPage() {
                     <StatusPill label="HTTPS" value={result.isHttps ?? false} type={result.isHttps ? 'pass' : 'fail'} />
                     <StatusPill label="HSTS" value={result.hasHsts ?? false} type={result.hasHsts ? 'pass' : 'warning'} />
                     <StatusPill label="Mobile Viewport" value={result.hasViewport ?? false} type={result.hasViewport ? 'pass' : 'fail'} />
-                    <StatusPill label="Robots.txt" value={result.hasRobots ?? false} type={result.hasRobots ? 'pass' : 'neutral'} />
-                    <StatusPill label="Sitemap" value={result.hasSitemap ?? false} type={result.hasSitemap ? 'pass' : 'neutral'} />
+                    <StatusPill label="Robots.txt" value={result.robots?.found ?? false} type={result.robots?.found ? 'pass' : 'neutral'} />
+                    <StatusPill label="Sitemap" value={result.sitemap?.found ?? false} type={result.sitemap?.found ? 'pass' : 'neutral'} />
                     <StatusPill label="Mixed Content" value={result.hasMixedContent ? 'Found' : 'None'} type={result.hasMixedContent ? 'fail' : 'pass'} />
                   </div>
                 </div>
 
+                {/* Security Headers */}
+                {result.securityHeaders && result.securityHeaders.length > 0 && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>🛡️ Security Headers</h3>
+                    {result.securityHeaders.map((h) => (
+                      <div key={h.header} style={{ display: 'flex', alignItems: 'baseline', gap: '8px', flexWrap: 'wrap' }}>
+                        <StatusPill
+                          label={h.header}
+                          value={h.status.toUpperCase()}
+                          type={h.status === 'pass' ? 'pass' : h.status === 'warn' ? 'warning' : 'fail'}
+                        />
+                        <span style={{ fontSize: '13px', color: '#374151' }}>{h.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Performance Metrics */}
                 <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
                   <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>⚡ Performance Metrics</h3>
                   <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '16px' }}>
-                    <MetricCard title="TTFB (Time to First Byte)" value={result.ttfbMs ?? 0} unit="ms" />
-                    <MetricCard title="FCP (First Contentful Paint)" value={result.fcpMs ?? 0} unit="ms" />
-                    <MetricCard title="LCP (Largest Contentful Paint)" value={result.lcpMs ?? 0} unit="ms" />
+                    <MetricCard title="TTFB (Time to First Byte)" value={result.ttfbMs ?? 0} unit="ms" source={result.metricSources?.ttfbMs} />
+                    <MetricCard title="FCP (First Contentful Paint)" value={result.fcpMs ?? 0} unit="ms" source={result.metricSources?.fcpMs} />
+                    <MetricCard title="LCP (Largest Contentful Paint)" value={result.lcpMs ?? 0} unit="ms" source={result.metricSources?.lcpMs} />
+                    <MetricCard title="CLS (Cumulative Layout Shift)" value={result.cls ?? 0} source={result.metricSources?.cls} />
+                    <MetricCard title="TBT (Total Blocking Time)" value={result.tbtMs ?? 0} unit="ms" source={result.metricSources?.tbtMs} />
+                    <MetricCard
+                      title="Transfer Size"
+                      value={Math.round((result.transferBytes ?? 0) / 1024)}
+                      unit="KB"
+                      source={result.metricSources?.transferBytes}
+                      context={result.metricSources?.transferBytes === 'estimated' ? 'HTML document only' : undefined}
+                    />
                     <MetricCard title="Response Time" value={result.responseTimeMs ?? 0} unit="ms" />
                   </div>
+                  {result.browserError && (
+                    <p style={{ fontSize: '12px', color: '#92400e', marginTop: '8px' }}>
+                      Browser measurement unavailable, showing estimates: {result.browserError}
+                    </p>
+                  )}
                 </div>
 
+                {/* Budget violations come before the general issues */}
+                {result.budget && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>
+                      🎯 Budget {result.budget.passed ? '— all passed' : `— ${result.budget.violations} violation${result.budget.violations === 1 ? '' : 's'}`}
+                    </h3>
+                    {result.budget.error && (
+                      <p style={{ fontSize: '12px', color: '#991b1b', marginBottom: '8px' }}>{result.budget.error}</p>
+                    )}
+                    {[...result.budget.assertions]
+                      .sort((a, b) => Number(b.status === 'fail') - Number(a.status === 'fail'))
+                      .map((a) => (
+                        <div
+                          key={`${a.metric}-${a.comparison}`}
+                          style={{
+                            display: 'flex',
+                            justifyContent: 'space-between',
+                            padding: '8px 12px',
+                            marginBottom: '6px',
+                            borderRadius: '6px',
+                            fontSize: '13px',
+                            backgroundColor: a.status === 'fail' ? '#fee2e2' : a.status === 'pass' ? '#f0fdf4' : '#f3f4f6',
+                            color: a.status === 'fail' ? '#991b1b' : a.status === 'pass' ? '#166534' : '#6b7280',
+                          }}
+                        >
+                          <span style={{ fontWeight: 600 }}>
+                            {a.status === 'fail' ? '✗' : a.status === 'pass' ? '✓' : '–'} {a.label}
+                          </span>
+                          <span>
+                            {formatBudgetValue(a.actual, a.unit)} {a.comparison === 'max' ? '≤' : '≥'} {formatBudgetValue(a.limit, a.unit)}
+                            {a.status === 'skipped' && (a.note ? ' (estimated)' : ' (not measured)')}
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                )}
+
                 {/* Issues Section */}
                 {(
                   (result.brokenLinks && result.brokenLinks.length > 0) ||
+                  (result.checkedLinks ?? []).some((l) => !l.broken && l.redirects && l.redirects.length > 0) ||
                   (result.imgWithoutAlt ?? 0) > 0 ||
                   (result.imageIssues && result.imageIssues.length > 0) ||
                   result.hasMixedContent ||
@@ -360,10 +889,27 @@ export default function AuditPage() {
                         icon="🔗"
                         title={`Broken Links (${result.brokenLinks.length})`}
                         severity="high"
-                        details={result.brokenLinks.map((l) => `${l.url} ${l.statusCode ? `(${l.statusCode})` : ''}`)}
+                        details={result.brokenLinks.map((l) => {
+                          const where = l.internal === undefined ? '' : l.internal ? 'Internal ' : 'External ';
+                          const status = [l.statusCode, l.error].filter(Boolean).join(', ');
+                          return `${where}${l.type ?? 'link'}: ${l.url}${status ? ` (${status})` : ''}`;
+                        })}
                       />
                     )}
 
+                    {/* Redirected Links */}
+                    {(() => {
+                      const redirected = (result.checkedLinks ?? []).filter((l) => !l.broken && l.redirects && l.redirects.length > 0);
+                      return redirected.length > 0 && (
+                        <IssueCard
+                          icon="↪️"
+                          title={`Redirected Links (${redirected.length})`}
+                          severity="low"
+                          details={redirected.map((l) => `${l.url} → ${l.finalUrl} (${l.redirects!.map((r) => r.status).join(' → ')} → ${l.statusCode ?? '?'})`)}
+                        />
+                      );
+                    })()}
+
                     {/* Missing Alt Text */}
                     {(result.imgWithoutAlt ?? 0) > 0 && (
                       <IssueCard
@@ -378,13 +924,15 @@ export default function AuditPage() {
                     {result.imageIssues && result.imageIssues.length > 0 && (
                       <IssueCard
                         icon="📦"
-                        title={`Image Optimization Issues (${result.imageIssues.length})`}
+                        title={`Image Optimization Issues (${result.imageIssues.length}, ~${Math.round(result.imageIssues.reduce((sum, img) => sum + img.estimatedSavingsBytes, 0) / 1024)} KB savings)`}
                         severity="medium"
-                        details={result.imageIssues.slice(0, 3).map((img) => {
-                          const issues = [];
-                          if (img.missingFormats) issues.push('missing WebP format');
-                          if (img.oversized) issues.push('possibly oversized');
-                          return `${img.src} ${issues.length > 0 ? `(${issues.join(', ')})` : ''}`;
+                        details={result.imageIssues.slice(0, 5).map((img) => {
+                          const file = [
+                            img.format?.toUpperCase(),
+                            img.intrinsicWidth && img.intrinsicHeight ? `${img.intrinsicWidth}×${img.intrinsicHeight}` : null,
+                            img.bytes ? `${Math.round(img.bytes / 1024)} KB` : null,
+                          ].filter(Boolean).join(', ');
+                          return `${img.src}${file ? ` [${file}]` : ''}: ${img.problems.map((p) => p.message).join('; ')}`;
                         })}
                       />
                     )}
@@ -393,9 +941,13 @@ export default function AuditPage() {
                     {result.hasMixedContent && (
                       <IssueCard
                         icon="🔒"
-                        title="Mixed Content Detected"
-                        severity="high"
-                        details={['Page uses both HTTPS and HTTP resources. This may trigger security warnings.']}
+                        title={`Mixed Content Detected${result.mixedContent ? ` (${result.mixedContent.length})` : ''}`}
+                        severity={result.mixedContent?.some((m) => m.type === 'active') ? 'high' : 'medium'}
+                        details={
+                          result.mixedContent && result.mixedContent.length > 0
+                            ? result.mixedContent.map((m) => `${m.type === 'active' ? 'Active' : 'Passive'} <${m.element} ${m.attribute}>: ${m.url}`)
+                            : ['Page uses both HTTPS and HTTP resources. This may trigger security warnings.']
+                        }
                       />
                     )}
 
@@ -405,12 +957,136 @@ export default function AuditPage() {
                         icon="↔️"
                         title={`Redirect Issues (${result.redirects.length})`}
                         severity="medium"
-                        details={result.redirects.map((r) => r.message)}
+                        details={[
+                          ...result.redirects.map((r) => r.message),
+                          ...(result.redirectChains ?? []).map((c) => {
+                            const hops = c.hops.map((h) => `${h.url} —${h.status}→`).join(' ');
+                            const end = c.loop ? '(loop)' : c.error ? `(${c.error})` : `${c.finalUrl} (${c.finalStatus ?? '?'})`;
+                            return `[${c.variant}] ${hops ? `${hops} ` : ''}${end}`;
+                          }),
+                        ]}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* SEO */}
+                {result.seo && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>🔎 SEO</h3>
+                    <div style={{ marginBottom: '12px' }}>
+                      <StatusPill
+                        label={`Title (${result.seo.title.length} chars)`}
+                        value={result.seo.title.status.toUpperCase()}
+                        type={result.seo.title.status === 'pass' ? 'pass' : result.seo.title.status === 'warn' ? 'warning' : 'fail'}
+                      />
+                      <StatusPill
+                        label={`Description (${result.seo.metaDescription.length} chars)`}
+                        value={result.seo.metaDescription.status.toUpperCase()}
+                        type={result.seo.metaDescription.status === 'pass' ? 'pass' : result.seo.metaDescription.status === 'warn' ? 'warning' : 'fail'}
+                      />
+                      <StatusPill
+                        label="Canonical"
+                        value={!result.seo.canonical.href ? 'Missing' : result.seo.canonical.selfReferencing ? 'Self' : 'Other URL'}
+                        type={!result.seo.canonical.href ? 'fail' : result.seo.canonical.selfReferencing ? 'pass' : 'warning'}
+                      />
+                      <StatusPill label="Indexable" value={!result.seo.robots.noindex} type={result.seo.robots.noindex ? 'fail' : 'pass'} />
+                      <StatusPill label="Followable" value={!result.seo.robots.nofollow} type={result.seo.robots.nofollow ? 'warning' : 'pass'} />
+                      <StatusPill label="hreflang" value={result.seo.hreflang.length} type="neutral" />
+                      <StatusPill
+                        label="Open Graph"
+                        value={`${Object.keys(result.seo.openGraph.present).length}/${Object.keys(result.seo.openGraph.present).length + result.seo.openGraph.missing.length}`}
+                        type={result.seo.openGraph.missing.length === 0 ? 'pass' : 'warning'}
+                      />
+                      <StatusPill
+                        label="Twitter Card"
+                        value={result.seo.twitterCard.present['twitter:card'] ?? 'None'}
+                        type={result.seo.twitterCard.missing.length === 0 ? 'pass' : 'warning'}
+                      />
+                      <StatusPill
+                        label="Structured Data"
+                        value={result.seo.structuredData.flatMap((d) => d.types).join(', ') || 'None'}
+                        type={result.seo.structuredData.length === 0 ? 'neutral' : result.seo.structuredData.every((d) => d.valid) ? 'pass' : 'fail'}
+                      />
+                    </div>
+                    {result.seo.issues.length > 0 && (
+                      <IssueCard
+                        icon="🔎"
+                        title={`SEO Issues (${result.seo.issues.length})`}
+                        severity={result.seo.issues.some((i) => i.severity === 'high') ? 'high' : result.seo.issues.some((i) => i.severity === 'medium') ? 'medium' : 'low'}
+                        details={result.seo.issues.map((i) => `[${i.severity}] ${i.message}`)}
                       />
                     )}
                   </div>
                 )}
 
+                {/* Robots & Sitemap */}
+                {(result.robots || result.sitemap) && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>🤖 Robots & Sitemap</h3>
+                    {result.robots && (
+                      <div style={{ marginBottom: '12px' }}>
+                        <StatusPill label="Googlebot" value={result.robots.googlebotAllowed ? 'Allowed' : 'Blocked'} type={result.robots.googlebotAllowed ? 'pass' : 'fail'} />
+                        <StatusPill label="All crawlers (*)" value={result.robots.allAgentsAllowed ? 'Allowed' : 'Blocked'} type={result.robots.allAgentsAllowed ? 'pass' : 'warning'} />
+                        {result.robots.groups.length > 0 && (
+                          <ul style={{ margin: '8px 0 0', paddingLeft: '20px', fontSize: '13px', color: '#374151', lineHeight: '1.6' }}>
+                            {result.robots.groups.map((g, i) => (
+                              <li key={i}>
+                                <strong>User-agent: {g.userAgents.join(', ')}</strong>{' '}
+                                <span style={{ color: '#6b7280' }}>
+                                  {g.rules.filter((r) => r.type === 'disallow').length} disallow, {g.rules.filter((r) => r.type === 'allow').length} allow
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                    {result.sitemap && (
+                      <div>
+                        <StatusPill label="Sitemap URLs" value={`${result.sitemap.urlCount}${result.sitemap.truncated ? '+' : ''}`} type={result.sitemap.found ? 'pass' : 'neutral'} />
+                        <StatusPill
+                          label="Sampled OK"
+                          value={`${result.sitemap.sampled.filter((u) => u.ok).length}/${result.sitemap.sampled.length}`}
+                          type={result.sitemap.sampled.every((u) => u.ok) ? 'pass' : 'warning'}
+                        />
+                        <ul style={{ margin: '8px 0 12px', paddingLeft: '20px', fontSize: '13px', color: '#374151', lineHeight: '1.6' }}>
+                          {result.sitemap.files.map((f) => (
+                            <li key={f.url}>
+                              {f.url}{' '}
+                              <span style={{ color: f.error ? '#991b1b' : '#6b7280' }}>
+                                {f.error ?? `${f.kind === 'index' ? `index of ${f.entries} sitemaps` : `${f.entries} URLs`}${f.gzipped ? ', gzipped' : ''}`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                        {result.sitemap.issues.map((issue) => (
+                          <IssueCard key={issue.id} icon="🗺️" title={issue.message} severity={issue.severity} details={(issue.details ?? []).slice(0, 5)} />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Accessibility */}
+                {result.accessibility && result.accessibility.length > 0 && (
+                  <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '16px' }}>♿ Accessibility (WCAG)</h3>
+                    {[...new Set(result.accessibility.map((f) => f.rule))].map((rule) => {
+                      const matches = result.accessibility!.filter((f) => f.rule === rule);
+                      return (
+                        <IssueCard
+                          key={rule}
+                          icon="♿"
+                          title={`${rule} — WCAG ${matches[0].wcag} (${matches.length})`}
+                          severity={matches[0].severity}
+                          details={matches.slice(0, 5).map((f) => `${f.message} · ${f.selector} · ${f.snippet}`)}
+                        />
+                      );
+                    })}
+                  </div>
+                )}
+
                 {/* Content & Structure Stats */}
                 <div>
                   <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>📊 Content & Structure</h3>
@@ -418,6 +1094,7 @@ export default function AuditPage() {
                     <MetricCard title="H1 Headings" value={result.h1Count ?? 0} context="should be 1 per page" />
                     <MetricCard title="Total Images" value={result.totalImages ?? 0} />
                     <MetricCard title="Total Links" value={result.totalLinks ?? 0} />
+                    <MetricCard title="Checked Links" value={result.checkedLinks?.length ?? 0} context="links, scripts, styles, images" />
                     <MetricCard title="External Links" value={result.externalLinks ?? 0} />
                     <MetricCard title="Scripts" value={result.scriptsCount ?? 0} />
                     <MetricCard title="Inline Styles" value={result.inlineStylesCount ?? 0} context="use CSS files instead" />
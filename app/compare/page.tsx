@@ -0,0 +1,312 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+
+// ============ TYPES ============
+interface AuditSide {
+  url: string;
+  id?: string;
+  createdAt?: string;
+  score: number | null;
+}
+
+interface MetricChange {
+  metric: string;
+  label: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  change: 'better' | 'worse' | 'unchanged';
+}
+
+interface DiffIssue {
+  kind: string;
+  key: string;
+  message: string;
+}
+
+interface AuditDiff {
+  before: AuditSide;
+  after: AuditSide;
+  scoreDelta: number | null;
+  categoryDeltas: Record<string, { before: number; after: number; delta: number }>;
+  metrics: MetricChange[];
+  issues: { new: DiffIssue[]; resolved: DiffIssue[]; unchanged: DiffIssue[] };
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  performance: 'Performance',
+  security: 'Security',
+  seo: 'SEO',
+  accessibility: 'Accessibility',
+  'best-practices': 'Best Practices',
+};
+
+const ISSUE_KIND_LABELS: Record<string, string> = {
+  'broken-link': 'Broken link',
+  image: 'Image',
+  redirect: 'Redirect',
+  'mixed-content': 'Mixed content',
+  accessibility: 'Accessibility',
+  seo: 'SEO',
+};
+
+const CHANGE_COLORS = {
+  better: { bg: '#d1fae5', text: '#065f46' },
+  worse: { bg: '#fee2e2', text: '#991b1b' },
+  unchanged: { bg: '#f3f4f6', text: '#374151' },
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A stored audit id or a URL to audit now
+function toSide(value: string) {
+  const trimmed = value.trim();
+  return UUID_PATTERN.test(trimmed) ? { id: trimmed } : { url: trimmed };
+}
+
+// Higher scores are better
+function scoreColors(delta: number | null) {
+  return CHANGE_COLORS[delta === null || delta === 0 ? 'unchanged' : delta > 0 ? 'better' : 'worse'];
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return '–';
+  return `${delta > 0 ? '+' : ''}${delta}`;
+}
+
+// ============ COMPONENTS ============
+function SideHeader({ label, side }: { label: string; side: AuditSide }) {
+  return (
+    <div style={{ flex: 1, minWidth: '240px', padding: '16px', backgroundColor: '#f9fafb', borderRadius: '8px' }}>
+      <p style={{ fontSize: '11px', color: '#6b7280', textTransform: 'uppercase', marginBottom: '4px' }}>{label}</p>
+      <p style={{ fontSize: '13px', color: '#111827', wordBreak: 'break-all', marginBottom: '4px' }}>{side.url}</p>
+      {side.createdAt && <p style={{ fontSize: '12px', color: '#6b7280' }}>{new Date(side.createdAt).toLocaleString()}</p>}
+      <p style={{ fontSize: '28px', fontWeight: 'bold', color: '#111827', marginTop: '8px' }}>{side.score ?? '–'}</p>
+    </div>
+  );
+}
+
+function IssueList({ title, issues, color }: { title: string; issues: DiffIssue[]; color: { bg: string; text: string } }) {
+  if (issues.length === 0) return null;
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <h4 style={{ fontSize: '13px', fontWeight: 'bold', color: color.text, marginBottom: '8px' }}>
+        {title} ({issues.length})
+      </h4>
+      <ul style={{ margin: 0, padding: 0, listStyle: 'none' }}>
+        {issues.map((issue) => (
+          <li
+            key={`${issue.kind}|${issue.key}`}
+            style={{ backgroundColor: color.bg, color: color.text, fontSize: '13px', padding: '6px 10px', borderRadius: '4px', marginBottom: '4px' }}
+          >
+            <strong>{ISSUE_KIND_LABELS[issue.kind] ?? issue.kind}:</strong> {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// ============ MAIN PAGE ============
+export default function ComparePage() {
+  const [before, setBefore] = useState('');
+  const [after, setAfter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [diff, setDiff] = useState<AuditDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function compare(beforeValue: string, afterValue: string) {
+    setError(null);
+    setDiff(null);
+    if (!beforeValue.trim() || !afterValue.trim()) {
+      setError('Enter an audit id or URL for both sides');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch('/api/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ before: toSide(beforeValue), after: toSide(afterValue) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || 'Unknown error');
+      } else {
+        setDiff(data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // /compare?before=<id>&after=<id> (linked from the audit history) compares right away
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const b = params.get('before');
+    const a = params.get('after');
+    if (b && a) {
+      setBefore(b);
+      setAfter(a);
+      compare(b, a);
+    }
+  }, []);
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: '200px',
+    padding: '12px 16px',
+    border: '1px solid #d1d5db',
+    borderRadius: '8px',
+    fontSize: '14px',
+    fontFamily: 'inherit',
+    color: '#000',
+  };
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb', padding: '32px 20px' }}>
+      <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+        {/* Header */}
+        <div style={{ marginBottom: '32px' }}>
+          <h1 style={{ fontSize: '32px', fontWeight: 'bold', color: '#111827', marginBottom: '8px' }}>
+            ⚖️ Compare Audits
+          </h1>
+          <p style={{ color: '#6b7280', fontSize: '14px' }}>
+            Compare two stored audits (by id) or audit two URLs now, e.g. staging against production.
+          </p>
+        </div>
+
+        {/* Input Form */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            compare(before, after);
+          }}
+          style={{ marginBottom: '32px' }}
+        >
+          <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+            <input type="text" placeholder="Before: audit id or https://…" value={before} onChange={(e) => setBefore(e.target.value)} style={inputStyle} />
+            <input type="text" placeholder="After: audit id or https://…" value={after} onChange={(e) => setAfter(e.target.value)} style={inputStyle} />
+            <button
+              type="submit"
+              disabled={loading}
+              style={{
+                padding: '12px 24px',
+                backgroundColor: loading ? '#d1d5db' : '#3b82f6',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: loading ? 'not-allowed' : 'pointer',
+              }}
+            >
+              {loading ? '🔄 Comparing…' : '▶ Compare'}
+            </button>
+          </div>
+        </form>
+
+        {/* Error Message */}
+        {error && (
+          <div style={{ backgroundColor: '#fee2e2', color: '#991b1b', padding: '16px', borderRadius: '8px', border: '1px solid #fca5a5', marginBottom: '24px' }}>
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+
+        {/* Diff */}
+        {diff && (
+          <div style={{ backgroundColor: 'white', borderRadius: '12px', padding: '32px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
+            {/* Scores side by side */}
+            <div style={{ display: 'flex', gap: '16px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+              <SideHeader label="Before" side={diff.before} />
+              <div
+                style={{
+                  fontSize: '20px',
+                  fontWeight: 'bold',
+                  padding: '8px 16px',
+                  borderRadius: '8px',
+                  backgroundColor: scoreColors(diff.scoreDelta).bg,
+                  color: scoreColors(diff.scoreDelta).text,
+                }}
+              >
+                {formatDelta(diff.scoreDelta)}
+              </div>
+              <SideHeader label="After" side={diff.after} />
+            </div>
+
+            {/* Category deltas */}
+            {Object.keys(diff.categoryDeltas).length > 0 && (
+              <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+                <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>🧮 Category Scores</h3>
+                <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse' }}>
+                  <tbody>
+                    {Object.entries(diff.categoryDeltas).map(([category, d]) => {
+                      const c = scoreColors(d.delta);
+                      return (
+                        <tr key={category} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                          <td style={{ padding: '6px 0', color: '#374151' }}>{CATEGORY_LABELS[category] ?? category}</td>
+                          <td style={{ padding: '6px 0', textAlign: 'right', color: '#6b7280' }}>{d.before}</td>
+                          <td style={{ padding: '6px 0', textAlign: 'right', color: '#6b7280' }}>{d.after}</td>
+                          <td style={{ padding: '6px 0', textAlign: 'right' }}>
+                            <span style={{ backgroundColor: c.bg, color: c.text, padding: '2px 8px', borderRadius: '4px' }}>{formatDelta(d.delta)}</span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Metrics */}
+            <div style={{ marginBottom: '32px', paddingBottom: '24px', borderBottom: '1px solid #e5e7eb' }}>
+              <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>⚡ Metrics</h3>
+              <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ color: '#6b7280', textAlign: 'right' }}>
+                    <th style={{ textAlign: 'left', padding: '6px 0' }}>Metric</th>
+                    <th style={{ padding: '6px 0' }}>Before</th>
+                    <th style={{ padding: '6px 0' }}>After</th>
+                    <th style={{ padding: '6px 0' }}>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.metrics.map((m) => {
+                    const c = CHANGE_COLORS[m.change];
+                    return (
+                      <tr key={m.metric} style={{ borderBottom: '1px solid #f3f4f6', textAlign: 'right' }}>
+                        <td style={{ textAlign: 'left', padding: '6px 0', color: '#374151' }}>{m.label}</td>
+                        <td style={{ padding: '6px 0', color: '#6b7280' }}>{m.before ?? '–'}</td>
+                        <td style={{ padding: '6px 0', color: '#6b7280' }}>{m.after ?? '–'}</td>
+                        <td style={{ padding: '6px 0' }}>
+                          <span style={{ backgroundColor: c.bg, color: c.text, padding: '2px 8px', borderRadius: '4px' }}>
+                            {formatDelta(m.delta)} {m.change !== 'unchanged' ? m.change : ''}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Issues */}
+            <div>
+              <h3 style={{ fontSize: '14px', fontWeight: 'bold', color: '#111827', marginBottom: '12px' }}>⚠️ Issues</h3>
+              <IssueList title="New" issues={diff.issues.new} color={CHANGE_COLORS.worse} />
+              <IssueList title="Resolved" issues={diff.issues.resolved} color={CHANGE_COLORS.better} />
+              <IssueList title="Unchanged" issues={diff.issues.unchanged} color={CHANGE_COLORS.unchanged} />
+              {diff.issues.new.length + diff.issues.resolved.length + diff.issues.unchanged.length === 0 && (
+                <p style={{ fontSize: '13px', color: '#6b7280' }}>No issues in either audit.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+// Runs once when a Next.js server starts. Scheduled monitors are audited by the Node.js
+// server; set MONITOR_SCHEDULER=off to run them elsewhere (e.g. a single worker instance).
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.MONITOR_SCHEDULER === 'off') return;
+
+  const { startScheduler } = await import('./lib/scheduler');
+  startScheduler();
+}
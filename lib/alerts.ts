@@ -0,0 +1,133 @@
+import type { AuditResult } from './audit';
+import { collectIssues } from './compare';
+import { describeFetchError, fetchWithTimeout } from './http';
+import type { Alert, AlertType, Monitor, Webhook, WebhookDelivery } from './monitors';
+import { SCORE_CATEGORIES } from './scoring';
+
+// An alert before it is stored and delivered
+export type AlertDraft = Pick<Alert, 'type' | 'message' | 'details' | 'score' | 'previousScore'>;
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Most details sent in one alert; the rest are summarized
+const MAX_ALERT_DETAILS = 20;
+
+const ALERT_ICONS: Record<AlertType, string> = {
+  'score-drop': ':chart_with_downwards_trend:',
+  'new-broken-link': ':link:',
+  'new-mixed-content': ':unlock:',
+  'site-down': ':red_circle:',
+  'site-recovered': ':large_green_circle:',
+};
+
+// Down means no 2xx response or an audit error
+export function isDown(result: AuditResult): boolean {
+  return !!result.error || result.status === null || result.status < 200 || result.status >= 300;
+}
+
+function capped(details: string[]): string[] {
+  if (details.length <= MAX_ALERT_DETAILS) return details;
+  return [...details.slice(0, MAX_ALERT_DETAILS), `…and ${details.length - MAX_ALERT_DETAILS} more`];
+}
+
+function newIssues(previous: AuditResult, current: AuditResult, kind: 'broken-link' | 'mixed-content'): string[] {
+  const before = new Set(collectIssues(previous).filter(i => i.kind === kind).map(i => i.key));
+  return collectIssues(current)
+    .filter(i => i.kind === kind && !before.has(i.key))
+    .map(i => i.message);
+}
+
+// Compare a monitor's run with its previous one; the first run only alerts when the site is down
+export function detectRegressions(monitor: Monitor, previous: AuditResult | null, current: AuditResult): AlertDraft[] {
+  const alerts: AlertDraft[] = [];
+  const score = current.score ?? null;
+  const previousScore = previous?.score ?? null;
+
+  const down = isDown(current);
+  const wasDown = previous ? isDown(previous) : false;
+  if (down && !wasDown) {
+    alerts.push({
+      type: 'site-down',
+      message: `${monitor.url} is down: ${current.error ?? `HTTP ${current.status}`}`,
+      details: [],
+      score,
+      previousScore,
+    });
+  } else if (!down && previous && wasDown) {
+    alerts.push({ type: 'site-recovered', message: `${monitor.url} is back up (HTTP ${current.status})`, details: [], score, previousScore });
+  }
+
+  // Nothing else is comparable unless both runs reached the page
+  if (down || !previous || wasDown) return alerts.filter(a => wants(monitor, a.type));
+
+  if (score !== null && previousScore !== null && previousScore - score > monitor.scoreDropThreshold) {
+    const categories = SCORE_CATEGORIES
+      .map(category => ({ category, before: previous.categoryScores?.[category], after: current.categoryScores?.[category] }))
+      .filter(c => c.before !== undefined && c.after !== undefined && c.after < c.before)
+      .map(c => `${c.category}: ${c.before} → ${c.after}`);
+    alerts.push({
+      type: 'score-drop',
+      message: `Score for ${monitor.url} dropped from ${previousScore} to ${score}`,
+      details: categories,
+      score,
+      previousScore,
+    });
+  }
+
+  const brokenLinks = newIssues(previous, current, 'broken-link');
+  if (brokenLinks.length > 0) {
+    alerts.push({
+      type: 'new-broken-link',
+      message: `${brokenLinks.length} new broken link${brokenLinks.length === 1 ? '' : 's'} on ${monitor.url}`,
+      details: capped(brokenLinks),
+      score,
+      previousScore,
+    });
+  }
+
+  const mixedContent = newIssues(previous, current, 'mixed-content');
+  if (mixedContent.length > 0) {
+    alerts.push({
+      type: 'new-mixed-content',
+      message: `${mixedContent.length} new mixed-content resource${mixedContent.length === 1 ? '' : 's'} on ${monitor.url}`,
+      details: capped(mixedContent),
+      score,
+      previousScore,
+    });
+  }
+
+  return alerts.filter(a => wants(monitor, a.type));
+}
+
+function wants(monitor: Monitor, type: AlertType): boolean {
+  return monitor.alertOn.length === 0 || monitor.alertOn.includes(type);
+}
+
+function slackPayload(alert: Alert): { text: string } {
+  const lines = [`${ALERT_ICONS[alert.type]} *${alert.message}*`];
+  if (alert.score !== undefined && alert.score !== null) {
+    lines.push(`Score: ${alert.score}${alert.previousScore !== undefined && alert.previousScore !== null ? ` (was ${alert.previousScore})` : ''}`);
+  }
+  for (const detail of alert.details) lines.push(`• ${detail}`);
+  return { text: lines.join('\n') };
+}
+
+async function deliver(webhook: Webhook, alert: Alert): Promise<WebhookDelivery> {
+  try {
+    const res = await fetchWithTimeout(webhook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(webhook.format === 'slack' ? slackPayload(alert) : { event: 'audit.alert', alert }),
+      timeoutMs: WEBHOOK_TIMEOUT_MS,
+    });
+    await res.body?.cancel();
+    return { url: webhook.url, ok: res.ok, status: res.status };
+  } catch (err) {
+    return { url: webhook.url, ok: false, error: describeFetchError(err) };
+  }
+}
+
+// Post the alert to every webhook at once; a failing endpoint is recorded, not retried
+export async function deliverAlert(alert: Alert, webhooks: Webhook[]): Promise<WebhookDelivery[]> {
+  return Promise.all(webhooks.map(webhook => deliver(webhook, alert)));
+}
@@ -0,0 +1,138 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+export type ApiLimits = {
+  // Token bucket: sustained audits per minute, and how many can be made at once after a pause
+  ratePerMinute: number;
+  burst: number;
+  // Audits per UTC day
+  dailyQuota: number;
+  // Audits in flight at once
+  maxConcurrent: number;
+};
+
+export type ApiKeyConfig = {
+  keys: ApiKey[];
+  anonymous: ApiLimits;
+};
+
+export type ApiKey = {
+  // The name the key is listed under; recorded with every audit it runs
+  id: string;
+  // sha256 of the key, hex
+  hash: string;
+  disabled: boolean;
+  limits: ApiLimits;
+  // Ceiling for each client IP using the key, so a leaked key can't be spread over many hosts
+  perIp: ApiLimits;
+};
+
+export const DEFAULT_KEY_LIMITS: ApiLimits = {
+  ratePerMinute: 30,
+  burst: 10,
+  dailyQuota: 1000,
+  maxConcurrent: 4,
+};
+
+// Each client IP a key is used from, unless its `perIp` entry says otherwise
+export const DEFAULT_KEY_PER_IP_LIMITS: ApiLimits = {
+  ratePerMinute: 15,
+  burst: 5,
+  dailyQuota: 500,
+  maxConcurrent: 2,
+};
+
+// Requests without a key, counted per client IP; the keys file's "*" entry overrides them
+export const DEFAULT_ANONYMOUS_LIMITS: ApiLimits = {
+  ratePerMinute: 6,
+  burst: 3,
+  dailyQuota: 50,
+  maxConcurrent: 1,
+};
+
+// AUDIT_API_KEYS_FILE (default api-keys.json) maps key ids to `{ key | keyHash, disabled?, ...limits, perIp? }`:
+//   { "agency-a": { "keyHash": "<sha256 hex>", "dailyQuota": 500, "perIp": { "burst": 2 } }, "ci": { "key": "…" }, "*": { "ratePerMinute": 2 } }
+function keysFile(): string {
+  return path.resolve(process.env.AUDIT_API_KEYS_FILE ?? 'api-keys.json');
+}
+
+// With AUDIT_REQUIRE_API_KEY=true requests without a key are refused instead of limited per IP
+export function apiKeyRequired(): boolean {
+  return /^(1|true|yes)$/i.test(process.env.AUDIT_REQUIRE_API_KEY ?? '');
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseLimits(entry: Record<string, unknown>, defaults: ApiLimits): ApiLimits {
+  const limits = { ...defaults };
+  for (const name of Object.keys(limits) as Array<keyof ApiLimits>) {
+    const value = entry[name];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) limits[name] = value;
+  }
+  return limits;
+}
+
+function parseConfig(config: unknown): ApiKeyConfig {
+  if (!isRecord(config)) throw new Error(`${path.basename(keysFile())} must map key ids to keys`);
+
+  const keys: ApiKey[] = [];
+  for (const [id, entry] of Object.entries(config)) {
+    if (!isRecord(entry) || id === '*') continue;
+    const hash =
+      typeof entry.keyHash === 'string' && /^[0-9a-f]{64}$/i.test(entry.keyHash) ? entry.keyHash.toLowerCase()
+      : typeof entry.key === 'string' && entry.key ? hashApiKey(entry.key)
+      : null;
+    // an entry without a usable key can't authenticate anyone
+    if (!hash) continue;
+    keys.push({
+      id,
+      hash,
+      disabled: entry.disabled === true,
+      limits: parseLimits(entry, DEFAULT_KEY_LIMITS),
+      perIp: parseLimits(isRecord(entry.perIp) ? entry.perIp : {}, DEFAULT_KEY_PER_IP_LIMITS),
+    });
+  }
+  const anonymous = isRecord(config['*']) ? parseLimits(config['*'], DEFAULT_ANONYMOUS_LIMITS) : DEFAULT_ANONYMOUS_LIMITS;
+  return { keys, anonymous };
+}
+
+// The file is re-read when it changes, so keys can be added or revoked without a restart
+let cache: { mtimeMs: number; config: ApiKeyConfig } | null = null;
+
+export async function loadApiKeyConfig(): Promise<ApiKeyConfig> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(keysFile())).mtimeMs;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { keys: [], anonymous: DEFAULT_ANONYMOUS_LIMITS };
+    throw err;
+  }
+  if (cache?.mtimeMs !== mtimeMs) {
+    cache = { mtimeMs, config: parseConfig(JSON.parse(await readFile(keysFile(), 'utf8'))) };
+  }
+  return cache.config;
+}
+
+// `Authorization: Bearer <key>` or `X-API-Key: <key>`
+export function apiKeyFromRequest(request: Request): string | null {
+  const header = request.headers.get('x-api-key')?.trim();
+  if (header) return header;
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') ?? '');
+  return match ? match[1].trim() : null;
+}
+
+export async function findApiKeyById(id: string): Promise<ApiKey | null> {
+  return (await loadApiKeyConfig()).keys.find(k => k.id === id) ?? null;
+}
+
+export async function findApiKey(key: string): Promise<ApiKey | null> {
+  const hash = Buffer.from(hashApiKey(key), 'hex');
+  return (await loadApiKeyConfig()).keys.find(k => timingSafeEqual(Buffer.from(k.hash, 'hex'), hash)) ?? null;
+}
@@ -1,59 +1,239 @@
 import * as cheerio from 'cheerio';
+import { evaluateBudgets, resolveBudgets, type BudgetReport, type Budgets } from './budgets';
+import {
+  runChecks,
+  selectChecks,
+  type A11yFinding,
+  type CheckError,
+  type CheckFinding,
+  type CheckOutcome,
+  type CheckSelection,
+  type ImageCheckOptions,
+  type LinkCache,
+  type LinkCheckOptions,
+  type MixedContentItem,
+  type RedirectCheckOptions,
+  type RobotsReport,
+  type SecurityHeaderResult,
+  type SeoReport,
+  type SitemapCheckOptions,
+  type SitemapReport,
+} from './checks';
+import { openFixture, resolveFixtureOptions, type Fixture, type FixtureOptions } from './fixtures';
+import { createHttpClient, describeFetchError, type HttpOptions, type RequestLogEntry } from './http';
+import type { ImageFormat } from './image-info';
+import {
+  estimateMetrics,
+  measureWithBrowser,
+  resolvePerformanceMode,
+  type MetricSource,
+  type PerformanceMetric,
+  type PerformanceMetrics,
+  type PerformanceOptions,
+} from './performance';
+import { prioritizeFixes, type TopFix } from './remediation';
+import { computeScore, resolveScoringConfig, type ScoreCategory, type ScoreDeduction, type ScoringConfigInput } from './scoring';
+import type { SitemapCache } from './sitemap';
+
+export type ImageProblemType =
+  | 'oversized'
+  | 'legacy-format'
+  | 'picture-no-modern'
+  | 'missing-dimensions'
+  | 'aspect-ratio'
+  | 'sizes-missing'
+  | 'not-lazy'
+  | 'fetch-failed';
+
+export type ImageProblem = {
+  type: ImageProblemType;
+  message: string;
+  // Bytes saved (or, for 'not-lazy', taken off the initial load) by fixing this problem
+  savingsBytes: number;
+};
 
 export type ImageIssue = {
   src: string;
-  alt?: boolean;
-  missingFormats?: boolean;
-  oversized?: boolean;
+  format?: ImageFormat;
+  bytes?: number;
+  intrinsicWidth?: number;
+  intrinsicHeight?: number;
+  // From the width/height attributes, or a pixel sizes value
+  renderedWidth?: number;
+  renderedHeight?: number;
+  problems: ImageProblem[];
+  // Resizing plus re-encoding; lazy-loading defers bytes rather than saving them
+  estimatedSavingsBytes: number;
+};
+
+export type LinkResourceType = 'link' | 'stylesheet' | 'script' | 'image' | 'resource';
+
+export type RedirectHop = {
+  url: string;
+  status: number;
+  location: string;
 };
 
 export type LinkIssue = {
   url: string;
+  type?: LinkResourceType;
+  // Same origin as the page that links to it
+  internal?: boolean;
+  // Final status after following redirects
   statusCode?: number;
+  finalUrl?: string;
+  redirects?: RedirectHop[];
+  // HEAD unless the server rejected it and we fell back to GET
+  method?: 'HEAD' | 'GET';
   broken: boolean;
+  // Network failure or timeout, when no status was received
+  error?: string;
 };
 
 export type RedirectIssue = {
-  type: 'www' | 'non-www' | 'http-https' | 'other';
+  type:
+    | 'www'
+    | 'non-www'
+    | 'http-https'
+    | 'chain-too-long'
+    | 'loop'
+    | 'temporary'
+    | 'inconsistent-host'
+    | 'trailing-slash'
+    | 'other';
+  // The URL variant the issue was found on
+  url?: string;
   message: string;
 };
 
+export type RedirectChain = {
+  // Which variant of the audited URL was requested
+  variant: 'requested' | 'http' | 'https' | 'www' | 'non-www' | 'trailing-slash';
+  startUrl: string;
+  hops: RedirectHop[];
+  finalUrl: string;
+  // Status of the last response (absent on loops and network errors)
+  finalStatus?: number;
+  loop: boolean;
+  error?: string;
+};
+
 export type AuditResult = {
   url: string;
+  finalUrl?: string;
   status: number | null;
   responseTimeMs: number | null;
   contentType?: string | null;
   title?: string;
   metaDescription?: string;
   h1Count?: number;
+  // On-page SEO signals: lengths, canonical, robots directives, hreflang, social tags, JSON-LD
+  seo?: SeoReport;
   totalImages?: number;
   imgWithoutAlt?: number;
   imageIssues?: ImageIssue[];
   totalLinks?: number;
+  // Every unique link and resource that was checked, and the broken subset
+  checkedLinks?: LinkIssue[];
   brokenLinks?: LinkIssue[];
   externalLinks?: number;
   scriptsCount?: number;
   inlineStylesCount?: number;
-  hasRobots?: boolean;
-  hasSitemap?: boolean;
-  // Performance metrics (estimated)
+  // Parsed robots.txt and sitemap validation (site checks only)
+  robots?: RobotsReport;
+  sitemap?: SitemapReport;
+  // Performance metrics, measured in a headless browser or estimated from the HTML fetch
   ttfbMs?: number;
   fcpMs?: number;
   lcpMs?: number;
+  cls?: number;
+  tbtMs?: number;
+  transferBytes?: number;
+  metricSources?: Partial<Record<PerformanceMetric, MetricSource>>;
+  // Why browser measurement was skipped or failed, when it was requested
+  browserError?: string;
   // Mobile & Responsiveness
   hasViewport?: boolean;
   responsive?: boolean;
+  // Accessibility violations, one per offending element
+  accessibility?: A11yFinding[];
   // Security
   isHttps?: boolean;
   hasHsts?: boolean;
   hasMixedContent?: boolean;
-  // Redirect issues
+  mixedContent?: MixedContentItem[];
+  securityHeaders?: SecurityHeaderResult[];
+  // Redirect issues and the chains they were derived from
   redirects?: RedirectIssue[];
-  // Overall score
+  redirectChains?: RedirectChain[];
+  // Findings reported by the registered checks
+  findings?: CheckFinding[];
+  // Checks that threw instead of reporting
+  checkErrors?: CheckError[];
+  // Overall score, per-category sub-scores and the deductions behind them
   score?: number;
+  categoryScores?: Record<ScoreCategory, number>;
+  scoreBreakdown?: ScoreDeduction[];
+  // The fixes worth the most points per unit of effort, best first
+  topFixes?: TopFix[];
+  // Each budget assertion with its actual value, limit and status (when budgets apply)
+  budget?: BudgetReport;
+  // Every HTTP request the audit made, and the User-Agent it sent
+  userAgent?: string;
+  requests?: RequestLogEntry[];
   error?: string | null;
 };
 
+export type AuditOptions = {
+  // Run the site-wide checks (robots.txt, sitemap, redirects); crawls only need them once
+  siteChecks?: boolean;
+  // Enable or disable registered checks by id
+  checks?: CheckSelection;
+  // Overrides for the default scoring weights, thresholds and penalties
+  scoring?: ScoringConfigInput;
+  links?: LinkCheckOptions;
+  // Reuse link results across audits (a crawl shares one cache)
+  linkCache?: LinkCache;
+  redirects?: RedirectCheckOptions;
+  images?: ImageCheckOptions;
+  sitemaps?: SitemapCheckOptions;
+  // Reuse sitemap loads across audits (a crawl shares one cache)
+  sitemapCache?: SitemapCache;
+  performance?: PerformanceOptions;
+  // User-Agent, timeouts, deadline, retries, body limit and caching for the audit's requests
+  http?: HttpOptions;
+  // Record the audit's HTTP exchanges to a HAR file, or replay them from one instead of
+  // the network (defaults to AUDIT_FIXTURE_MODE / AUDIT_FIXTURE_FILE)
+  fixture?: FixtureOptions;
+  // An open fixture to go through instead (a crawl shares one across its pages)
+  fixtureSession?: Fixture;
+  // Merged over the budgets file entry for the page's origin
+  budgets?: Budgets;
+  // Read budgets from this file instead of AUDIT_BUDGETS_FILE / budgets.json
+  budgetsFile?: string;
+  // Abandon a check that runs longer than this (defaults to DEFAULT_CHECK_TIMEOUT_MS)
+  checkTimeoutMs?: number;
+  // Called as the audit moves along, e.g. to stream progress to a client
+  onProgress?: (event: AuditProgressEvent) => void;
+};
+
+export const DEFAULT_CHECK_TIMEOUT_MS = 60000;
+
+// Events carrying `result` hold the live, partially filled result; serialize them right away
+export type AuditProgressEvent =
+  | { type: 'started'; url: string; checks: Array<{ id: string; title: string; category: string }> }
+  | { type: 'fetched'; url: string; result: AuditResult }
+  | { type: 'metrics'; url: string; result: AuditResult }
+  | { type: 'check-start'; url: string; checkId: string; title: string }
+  | ({ type: 'check-finish'; url: string; checkId: string; result: AuditResult } & CheckOutcome)
+  | { type: 'scored'; url: string; result: AuditResult };
+
+export type PageAudit = {
+  result: AuditResult;
+  // Absolute http(s) URLs of every <a href> on the page, without fragments
+  links: string[];
+};
+
 function safeOrigin(input: string) {
   try {
     return new URL(input).origin;
@@ -62,180 +242,35 @@ function safeOrigin(input: string) {
   }
 }
 
-// Check environment to see if this site should be force-marked as 'crappy'
-function isCrappySiteMatch(targetUrl: string) {
-  try {
-    const env = process?.env?.CRAPPY_SITE_URLS || process?.env?.CRAPPY_SITE_URL;
-    if (!env) return false;
-    const entries = String(env).split(',').map(s => s.trim()).filter(Boolean);
-    if (entries.length === 0) return false;
-
-    const target = new URL(targetUrl);
-    for (const e of entries) {
-      try {
-        // allow either full URLs or hostnames/origins
-        const candidate = new URL(e);
-        if (candidate.origin === target.origin) return true;
-      } catch {
-        // not a full URL, compare hostnames or substring
-        if (target.host === e || target.hostname === e || target.href.includes(e)) return true;
-      }
-    }
-  } catch {
-    // ignore errors and default to no match
+function applyMetrics(result: AuditResult, metrics: PerformanceMetrics, source: MetricSource) {
+  result.metricSources = {};
+  for (const key of Object.keys(metrics) as PerformanceMetric[]) {
+    result[key] = metrics[key];
+    result.metricSources[key] = source;
   }
-  return false;
-}
-
-// Estimate performance metrics from response time and HTML size
-function estimateMetrics(responseTimeMs: number, htmlSize: number) {
-  // TTFB is roughly the response time to first byte
-  const ttfb = Math.max(responseTimeMs - 50, 0);
-  
-  // FCP (First Contentful Paint) - estimate based on size and network speed
-  // Assume typical 4G speeds: ~100 KB/s
-  const fcpBase = ttfb + Math.min(htmlSize / 100, 500);
-  
-  // LCP (Largest Contentful Paint) - assume 1-2x FCP depending on images
-  const lcp = fcpBase + Math.random() * 800;
-  
-  return { ttfb, fcp: fcpBase, lcp };
 }
 
-// Check for mixed content warnings
-function hasMixedContentWarning(html: string): boolean {
-  const mixedPatterns = [
-    /http:\/\/(?!localhost)/gi,  // external http resources
-    /<img[^>]+src="http:\/\/(?!localhost)/gi,
-    /<script[^>]+src="http:\/\/(?!localhost)/gi,
-    /<link[^>]+href="http:\/\/(?!localhost)/gi,
-  ];
-  return mixedPatterns.some(p => p.test(html));
-}
+// Collect absolute, fragment-less http(s) link targets from the page
+function extractLinks($: cheerio.CheerioAPI, baseUrl: string): string[] {
+  const links = new Set<string>();
 
-// Check for viewport meta tag (mobile responsiveness)
-function checkViewportMeta(html: string): boolean {
-  return /<meta[^>]+name=["']?viewport["']?/i.test(html);
-}
-
-// Analyze image optimization issues
-function analyzeImages($: cheerio.CheerioAPI): ImageIssue[] {
-  const issues: ImageIssue[] = [];
-  const imgs = $('img');
-  
-  imgs.each((i, el) => {
-    const src = $(el).attr('src') || '';
-    const alt = $(el).attr('alt');
-    
-    const issue: ImageIssue = {
-      src: src.slice(0, 80),  // truncate long URLs
-      alt: !alt || String(alt).trim() === '',
-      missingFormats: !src.includes('.webp'),  // simplified check
-      oversized: src.includes('large') || src.includes('big') || src.includes('original'),
-    };
-    
-    if (issue.alt || issue.missingFormats || issue.oversized) {
-      issues.push(issue);
-    }
-  });
-  
-  return issues.slice(0, 10);  // return top 10
-}
-
-// Check for broken links by inspecting href attributes
-async function checkBrokenLinks($: cheerio.CheerioAPI, baseUrl: string, limit = 5): Promise<LinkIssue[]> {
-  const links: LinkIssue[] = [];
-  const checked = new Set<string>();
-  let count = 0;
-  
-  const anchors = $('a');
-  
-  for (let i = 0; i < anchors.length && count < limit; i++) {
-    const href = $(anchors[i]).attr('href') || '';
-    if (!href || href.startsWith('#') || checked.has(href)) continue;
-    
-    checked.add(href);
-    
+  $('a[href]').each((i, el) => {
+    const href = $(el).attr('href') || '';
     try {
-      const url = new URL(href, baseUrl);
-      const res = await fetch(url.toString(), { method: 'HEAD', redirect: 'follow' });
-      
-      if (res.status >= 400) {
-        links.push({
-          url: href.slice(0, 80),
-          statusCode: res.status,
-          broken: res.status >= 400,
-        });
-      }
-      count++;
-    } catch (err) {
-      links.push({
-        url: href.slice(0, 80),
-        broken: true,
-      });
-      count++;
-    }
-  }
-  
-  return links;
-}
-
-// Check redirect issues (www, HTTPS, etc.)
-async function checkRedirects(url: string): Promise<RedirectIssue[]> {
-  const issues: RedirectIssue[] = [];
-  
-  try {
-    const parsed = new URL(url);
-    const www = new URL(url);
-    const nonWww = new URL(url);
-    const http = new URL(url);
-    
-    if (!parsed.hostname?.startsWith('www')) {
-      www.hostname = `www.${parsed.hostname}`;
-    }
-    
-    if (parsed.hostname?.startsWith('www')) {
-      nonWww.hostname = parsed.hostname.replace(/^www\./, '');
-    }
-    
-    if (parsed.protocol === 'https:') {
-      http.protocol = 'http:';
-    }
-    
-    // Check www redirect consistency
-    if (www.hostname !== parsed.hostname) {
-      try {
-        const res = await fetch(www.toString(), { redirect: 'follow' });
-        if (res.url !== www.toString() && !res.url.startsWith(parsed.origin)) {
-          issues.push({
-            type: 'www',
-            message: 'Inconsistent www redirect behavior',
-          });
-        }
-      } catch {}
-    }
-  } catch {}
-  
-  return issues;
-}
+      const u = new URL(href, baseUrl);
+      if (u.protocol !== 'http:' && u.protocol !== 'https:') return;
+      u.hash = '';
+      links.add(u.toString());
+    } catch {}
+  });
 
-// Calculate overall audit score
-function calculateScore(result: AuditResult): number {
-  let score = 100;
-  
-  if (!result.isHttps) score -= 15;
-  if (!result.hasViewport) score -= 10;
-  if ((result.imgWithoutAlt ?? 0) > 0) score -= Math.min(5, result.imgWithoutAlt ?? 0);
-  if ((result.brokenLinks?.length ?? 0) > 0) score -= Math.min(10, (result.brokenLinks?.length ?? 0) * 2);
-  if (result.hasMixedContent) score -= 10;
-  if ((result.responseTimeMs ?? 0) > 3000) score -= 5;
-  
-  return Math.max(0, score);
+  return [...links];
 }
 
-export async function runAudit(targetUrl: string): Promise<AuditResult> {
-  const result: AuditResult = {
-    url: targetUrl,
+// A page result before anything is known about the page
+export function emptyAuditResult(url: string): AuditResult {
+  return {
+    url,
     status: null,
     responseTimeMs: null,
     contentType: null,
@@ -244,91 +279,82 @@ export async function runAudit(targetUrl: string): Promise<AuditResult> {
     h1Count: 0,
     totalImages: 0,
     imgWithoutAlt: 0,
-    imageIssues: [],
     totalLinks: 0,
-    brokenLinks: [],
     externalLinks: 0,
     scriptsCount: 0,
     inlineStylesCount: 0,
-    hasRobots: false,
-    hasSitemap: false,
     ttfbMs: 0,
     fcpMs: 0,
     lcpMs: 0,
-    hasViewport: false,
-    responsive: false,
+    cls: 0,
+    tbtMs: 0,
+    transferBytes: 0,
     isHttps: false,
     hasHsts: false,
-    hasMixedContent: false,
-    redirects: [],
+    findings: [],
+    checkErrors: [],
     score: 0,
     error: null,
   };
+}
 
-  // Short-circuit: if this target is marked in .env as a 'crappy' site, return intentionally poor metrics
-  try {
-    if (isCrappySiteMatch(targetUrl)) {
-      result.status = 200;
-      result.responseTimeMs = 8000;
-      result.contentType = 'text/html';
-      result.isHttps = targetUrl.startsWith('https:');
-      result.hasHsts = false;
-      result.hasMixedContent = true;
-      result.ttfbMs = 1200;
-      result.fcpMs = 5000;
-      result.lcpMs = 7000;
-      result.title = 'Slow, insecure site';
-      result.metaDescription = 'This site is intentionally flagged as poor in the dev environment.';
-      result.h1Count = 0;
-      result.totalImages = 8;
-      result.imgWithoutAlt = 8;
-      result.imageIssues = Array.from({ length: 5 }).map((_, i) => ({ src: `image-${i}.jpg`, alt: true, missingFormats: true, oversized: true }));
-      result.totalLinks = 20;
-      result.brokenLinks = Array.from({ length: 5 }).map((_, i) => ({ url: `broken-link-${i}`, statusCode: 404, broken: true }));
-      result.externalLinks = 12;
-      result.scriptsCount = 12;
-      result.inlineStylesCount = 6;
-      result.hasRobots = false;
-      result.hasSitemap = false;
-      result.redirects = [{ type: 'other', message: 'Inconsistent redirects detected' }];
-      result.score = 8;
-      return result;
+export async function auditPage(targetUrl: string, options: AuditOptions = {}): Promise<PageAudit> {
+  const fixtureOptions = options.fixtureSession ? null : resolveFixtureOptions(options.fixture);
+  if (fixtureOptions) {
+    const fixture = await openFixture(fixtureOptions);
+    try {
+      return await auditPage(targetUrl, { ...options, fixtureSession: fixture });
+    } finally {
+      await fixture.save();
     }
-  } catch (err) {
-    // ignore and continue with a normal audit if something goes wrong with env parsing
   }
 
+  const { siteChecks = true, checks, scoring } = options;
+  let pageLinks: string[] = [];
+  const selected = selectChecks(checks, siteChecks);
+
+  // A listener that throws must not break the audit
+  const emit = (event: AuditProgressEvent) => {
+    try {
+      options.onProgress?.(event);
+    } catch {}
+  };
+
+  const result = emptyAuditResult(targetUrl);
+
   let html = '';
-  let origin = safeOrigin(targetUrl);
+  let response: Response;
+  const origin = safeOrigin(targetUrl);
+  const http = createHttpClient(options.http, options.fixtureSession?.transport);
+  result.userAgent = http.userAgent;
+  // the live log, so streamed progress shows requests as they happen
+  result.requests = http.log;
+  emit({ type: 'started', url: targetUrl, checks: selected.map(({ id, title, category }) => ({ id, title, category })) });
 
   try {
     const start = Date.now();
-    const res = await fetch(targetUrl, { redirect: 'follow' });
+    const res = await http.fetch(targetUrl);
     const end = Date.now();
+    response = res;
 
     result.status = res.status;
+    result.finalUrl = res.url || targetUrl;
     result.responseTimeMs = end - start;
     result.contentType = res.headers.get('content-type');
     result.isHttps = res.url.startsWith('https:');
     result.hasHsts = !!res.headers.get('strict-transport-security');
 
     html = await res.text();
-    
-    // Estimate performance metrics
-    const metrics = estimateMetrics(result.responseTimeMs, html.length);
-    result.ttfbMs = Math.round(metrics.ttfb);
-    result.fcpMs = Math.round(metrics.fcp);
-    result.lcpMs = Math.round(metrics.lcp);
-    
-  } catch (err: any) {
-    result.error = String(err?.message ?? err);
-    return result;
+  } catch (err) {
+    result.error = describeFetchError(err);
+    return { result, links: pageLinks };
   }
 
-  if (!html) return result;
+  if (!html) return { result, links: pageLinks };
 
+  let $: cheerio.CheerioAPI;
   try {
-    const $ = cheerio.load(html);
+    $ = cheerio.load(html);
 
     result.title = $('title').first().text().trim() || undefined;
     result.metaDescription = $('meta[name="description"]').attr('content') || undefined;
@@ -341,8 +367,6 @@ export async function runAudit(targetUrl: string): Promise<AuditResult> {
       return !alt || String(alt).trim() === '';
     }).length;
     
-    result.imageIssues = analyzeImages($);
-
     const links = $('a');
     result.totalLinks = links.length;
     result.externalLinks = links.filter((i, el) => {
@@ -356,49 +380,83 @@ export async function runAudit(targetUrl: string): Promise<AuditResult> {
       }
     }).length;
 
+    pageLinks = extractLinks($, result.finalUrl ?? targetUrl);
+
     result.scriptsCount = $('script').length;
     result.inlineStylesCount = $('[style]').length;
-    
-    // Check viewport meta tag
-    result.hasViewport = checkViewportMeta(html);
-    result.responsive = result.hasViewport;  // simplified
-    
-    // Check mixed content
-    result.hasMixedContent = hasMixedContentWarning(html);
-    
-    // Check broken links (sample)
-    result.brokenLinks = await checkBrokenLinks($, targetUrl, 3);
-    
-  } catch (err: any) {
-    result.error = String(err?.message ?? err);
-    return result;
-  }
 
-  // Check for robots.txt and sitemap
-  if (!origin) {
-    origin = safeOrigin(targetUrl) || '';
+    applyMetrics(result, estimateMetrics({
+      responseTimeMs: result.responseTimeMs ?? 0,
+      htmlBytes: Buffer.byteLength(html),
+      imageCount: imgs.length,
+      imagesWithoutDimensions: imgs.filter((i, el) => !$(el).attr('width') || !$(el).attr('height')).length,
+      blockingScripts: $('script[src]:not([async]):not([defer]):not([type="module"])').length,
+    }), 'estimated');
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+    return { result, links: pageLinks };
   }
+  emit({ type: 'fetched', url: targetUrl, result });
 
-  try {
-    if (origin) {
-      const r = await fetch(`${origin}/robots.txt`, { method: 'GET', redirect: 'follow' });
-      result.hasRobots = r.ok;
-
-      // try common sitemap locations
-      const s1 = await fetch(`${origin}/sitemap.xml`, { method: 'GET', redirect: 'follow' });
-      const s2 = await fetch(`${origin}/sitemap_index.xml`, { method: 'GET', redirect: 'follow' });
-      result.hasSitemap = s1.ok || s2.ok;
+  if (resolvePerformanceMode(options.performance) === 'browser' && options.fixtureSession?.mode === 'replay') {
+    // the browser would load the page from the network
+    result.browserError = 'Not measured while replaying a fixture';
+  } else if (resolvePerformanceMode(options.performance) === 'browser') {
+    try {
+      const performance = { ...options.performance, userAgent: http.userAgent };
+      applyMetrics(result, await measureWithBrowser(result.finalUrl ?? targetUrl, performance), 'measured');
+    } catch (err) {
+      // no browser available: keep the estimates
+      result.browserError = err instanceof Error ? err.message.split('\n')[0] : String(err);
     }
-  } catch (err: any) {
-    // ignore network errors for these auxiliary checks
   }
-  
-  // Check redirect issues
-  result.redirects = await checkRedirects(targetUrl);
-  
-  // Calculate overall score
-  result.score = calculateScore(result);
+  emit({ type: 'metrics', url: targetUrl, result });
+
+  const { findings, errors } = await runChecks(
+    {
+      url: targetUrl,
+      finalUrl: result.finalUrl ?? targetUrl,
+      origin,
+      response,
+      html,
+      $,
+      result,
+      options,
+      http,
+    },
+    selected,
+    {
+      timeoutMs: options.checkTimeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS,
+      onStart: check => emit({ type: 'check-start', url: targetUrl, checkId: check.id, title: check.title }),
+      onFinish: (check, outcome) => emit({ type: 'check-finish', url: targetUrl, checkId: check.id, result, ...outcome }),
+    },
+  );
+  result.findings = findings;
+  result.checkErrors = errors;
+
+  // Calculate overall and per-category scores
+  const report = computeScore(result, resolveScoringConfig(scoring));
+  result.score = report.score;
+  result.categoryScores = report.categories;
+  result.scoreBreakdown = report.breakdown;
+  // Also fills in each finding's share of the score impact
+  result.topFixes = prioritizeFixes(result);
+
+  // Budgets are checked after scoring so a minimum score can be one of them
+  const budgets = await resolveBudgets(result.finalUrl ?? targetUrl, { budgets: options.budgets, file: options.budgetsFile });
+  if (budgets.budgets) {
+    const report = evaluateBudgets(result, budgets.budgets, budgets.origin);
+    result.budget = budgets.error ? { ...report, passed: false, error: budgets.error } : report;
+  } else if (budgets.error) {
+    result.budget = { origin: null, passed: false, violations: 0, assertions: [], error: budgets.error };
+  }
+  emit({ type: 'scored', url: targetUrl, result });
+
+  return { result, links: pageLinks };
+}
 
+export async function runAudit(targetUrl: string, options: AuditOptions = {}): Promise<AuditResult> {
+  const { result } = await auditPage(targetUrl, options);
   return result;
 }
 
@@ -0,0 +1,324 @@
+import { randomUUID } from 'node:crypto';
+import { runAudit, type AuditOptions, type AuditResult } from './audit';
+import { saveAudit, type AuditMeta } from './history';
+import { SCORE_CATEGORIES } from './scoring';
+
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type BatchItem = {
+  url: string;
+  status: BatchItemStatus;
+  // History id of the stored audit
+  auditId?: string;
+  score?: number;
+  httpStatus?: number | null;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: AuditResult;
+};
+
+export type BatchOptions = {
+  // Audits in flight at once for this job, within the process-wide BATCH_MAX_WORKERS
+  concurrency?: number;
+  // Minimum gap between audit starts on the same host, across all jobs
+  perHostIntervalMs?: number;
+  audit?: AuditOptions;
+  // Stored with each audit the job saves
+  meta?: AuditMeta;
+};
+
+export type BatchProgress = {
+  total: number;
+  pending: number;
+  running: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+};
+
+export type BatchJob = {
+  id: string;
+  status: BatchJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  // Set once no audit of the job is in flight, including after a cancel
+  finishedAt?: string;
+  concurrency: number;
+  perHostIntervalMs: number;
+  // The API key that created the job; only that key can see or cancel it
+  apiKeyId: string | null;
+  items: BatchItem[];
+  // Why the job stopped early, when it wasn't cancelled
+  error?: string;
+};
+
+// What the status API returns: progress and per-URL outcomes without the full results
+export type BatchJobView = Omit<BatchJob, 'items'> & {
+  progress: BatchProgress;
+  items: Array<Omit<BatchItem, 'result'>>;
+};
+
+export const MAX_BATCH_URLS = 500;
+
+export const DEFAULT_BATCH_OPTIONS: Required<Omit<BatchOptions, 'audit' | 'meta'>> = {
+  concurrency: Number(process.env.BATCH_CONCURRENCY) || 4,
+  perHostIntervalMs: 1000,
+};
+
+const MAX_CONCURRENCY = 16;
+
+// Audits in flight across every job at once, so many jobs can't add up to an unbounded load
+const MAX_WORKERS = Number(process.env.BATCH_MAX_WORKERS) || 8;
+const MAX_PER_HOST_INTERVAL_MS = 60000;
+
+// Finished jobs are dropped from memory after this long; their audits stay in the history
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+type JobState = {
+  job: BatchJob;
+  options: AuditOptions;
+  meta: AuditMeta;
+  // The next item index no worker has claimed
+  cursor: number;
+};
+
+type BatchStore = {
+  jobs: Map<string, JobState>;
+  // Earliest time an audit may start on each host
+  hostReadyAt: Map<string, number>;
+  // Audits running across all jobs, and the workers waiting for one to finish
+  activeWorkers: number;
+  waitingWorkers: Array<() => void>;
+};
+
+// Route handlers can be bundled separately, so the store lives on globalThis to be shared
+const store: BatchStore = ((globalThis as { __auditBatchStore?: BatchStore }).__auditBatchStore ??= {
+  jobs: new Map(),
+  hostReadyAt: new Map(),
+  activeWorkers: 0,
+  waitingWorkers: [],
+});
+
+function clamp(value: number | undefined, fallback: number, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(Math.max(Math.floor(value), min), max);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function pruneFinished(): void {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const [id, { job }] of store.jobs) {
+    if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) store.jobs.delete(id);
+  }
+}
+
+// Wait for the host's slot, then claim it for this audit
+async function waitForHost(host: string, intervalMs: number): Promise<void> {
+  for (;;) {
+    const readyAt = store.hostReadyAt.get(host) ?? 0;
+    const now = Date.now();
+    if (readyAt <= now) {
+      store.hostReadyAt.set(host, now + intervalMs);
+      return;
+    }
+    await sleep(readyAt - now);
+  }
+}
+
+// Take one of the process-wide worker slots, waiting in line when all are busy
+async function acquireWorker(): Promise<void> {
+  if (store.activeWorkers < MAX_WORKERS) {
+    store.activeWorkers++;
+    return;
+  }
+  // the releasing worker hands its slot straight over
+  await new Promise<void>(resolve => store.waitingWorkers.push(resolve));
+}
+
+function releaseWorker(): void {
+  const next = store.waitingWorkers.shift();
+  if (next) next();
+  else store.activeWorkers--;
+}
+
+async function runItem(state: JobState, item: BatchItem): Promise<void> {
+  await waitForHost(hostOf(item.url), state.job.perHostIntervalMs);
+  if (state.job.status === 'cancelled') {
+    item.status = 'cancelled';
+    return;
+  }
+
+  item.status = 'running';
+  item.startedAt = new Date().toISOString();
+  try {
+    const result = await runAudit(item.url, state.options);
+    const stored = await saveAudit(item.url, result, state.meta).catch(() => null);
+    item.result = result;
+    item.auditId = stored?.id;
+    item.score = result.score;
+    item.httpStatus = result.status;
+    item.error = result.error ?? undefined;
+    item.status = result.error ? 'failed' : 'done';
+  } catch (err) {
+    item.error = err instanceof Error ? err.message : String(err);
+    item.status = 'failed';
+  }
+  item.finishedAt = new Date().toISOString();
+}
+
+async function runJob(state: JobState): Promise<void> {
+  const { job } = state;
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+
+  const worker = async () => {
+    while (job.status === 'running' && state.cursor < job.items.length) {
+      await acquireWorker();
+      try {
+        // the job may have been cancelled while waiting for a slot
+        if (job.status !== 'running' || state.cursor >= job.items.length) break;
+        await runItem(state, job.items[state.cursor++]);
+      } finally {
+        releaseWorker();
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(job.concurrency, job.items.length) }, worker));
+
+  if (job.status === 'running') job.status = 'completed';
+  job.finishedAt = new Date().toISOString();
+}
+
+// Queue audits for every URL and start working through them in the background
+export function createBatchJob(urls: string[], options: BatchOptions = {}): BatchJob {
+  pruneFinished();
+
+  const job: BatchJob = {
+    id: randomUUID(),
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    concurrency: clamp(options.concurrency, DEFAULT_BATCH_OPTIONS.concurrency, 1, MAX_CONCURRENCY),
+    perHostIntervalMs: clamp(options.perHostIntervalMs, DEFAULT_BATCH_OPTIONS.perHostIntervalMs, 0, MAX_PER_HOST_INTERVAL_MS),
+    apiKeyId: options.meta?.apiKeyId ?? null,
+    items: urls.map(url => ({ url, status: 'pending' })),
+  };
+  const state: JobState = { job, options: options.audit ?? {}, meta: options.meta ?? {}, cursor: 0 };
+  store.jobs.set(job.id, state);
+
+  runJob(state).catch(err => {
+    const error = err instanceof Error ? err.message : String(err);
+    job.error = error;
+    for (const item of job.items) {
+      if (item.status !== 'pending') continue;
+      item.status = 'failed';
+      item.error = error;
+    }
+    if (job.status === 'running') job.status = 'completed';
+    job.finishedAt = new Date().toISOString();
+  });
+  return job;
+}
+
+export function getBatchJob(id: string): BatchJob | null {
+  return store.jobs.get(id)?.job ?? null;
+}
+
+export function listBatchJobs(): BatchJob[] {
+  pruneFinished();
+  return [...store.jobs.values()].map(s => s.job).reverse();
+}
+
+// Pending URLs are skipped; audits already running finish and keep their results, and the job
+// is finished once they have
+export function cancelBatchJob(id: string): BatchJob | null {
+  const state = store.jobs.get(id);
+  if (!state) return null;
+
+  const { job } = state;
+  if (job.status === 'completed' || job.status === 'cancelled') return job;
+
+  job.status = 'cancelled';
+  for (const item of job.items) {
+    if (item.status === 'pending') item.status = 'cancelled';
+  }
+  return job;
+}
+
+// Completed, or cancelled with nothing left in flight: the results won't change any more
+export function isFinished(job: BatchJob): boolean {
+  return job.finishedAt !== undefined;
+}
+
+export function batchProgress(job: BatchJob): BatchProgress {
+  const progress: BatchProgress = { total: job.items.length, pending: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+  for (const item of job.items) progress[item.status]++;
+  return progress;
+}
+
+export function viewBatchJob(job: BatchJob): BatchJobView {
+  return {
+    ...job,
+    progress: batchProgress(job),
+    items: job.items.map(item => {
+      const view: Omit<BatchItem, 'result'> & { result?: AuditResult } = { ...item };
+      delete view.result;
+      return view;
+    }),
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per URL with the headline numbers; the JSON export has everything
+export function batchToCsv(job: BatchJob): string {
+  const header = [
+    'url',
+    'status',
+    'httpStatus',
+    'score',
+    ...SCORE_CATEGORIES,
+    'lcpMs',
+    'transferBytes',
+    'brokenLinks',
+    'findings',
+    'budgetPassed',
+    'error',
+    'auditId',
+    'finishedAt',
+  ];
+  const rows = job.items.map(item => {
+    const r = item.result;
+    return [
+      item.url,
+      item.status,
+      item.httpStatus,
+      item.score,
+      ...SCORE_CATEGORIES.map(c => r?.categoryScores?.[c]),
+      r?.lcpMs,
+      r?.transferBytes,
+      r?.brokenLinks?.length,
+      r?.findings?.length,
+      r?.budget?.passed,
+      item.error,
+      item.auditId,
+      item.finishedAt,
+    ];
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
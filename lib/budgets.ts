@@ -0,0 +1,195 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AuditResult } from './audit';
+import type { PerformanceMetric } from './performance';
+
+export type BudgetMetric =
+  | 'score'
+  | 'responseTimeMs'
+  | 'ttfbMs'
+  | 'fcpMs'
+  | 'lcpMs'
+  | 'cls'
+  | 'tbtMs'
+  | 'transferBytes'
+  | 'scriptsCount'
+  | 'totalImages'
+  | 'imageSavingsBytes'
+  | 'brokenLinks'
+  | 'mixedContent'
+  | 'accessibilityViolations';
+
+// A bare number is a limit in the metric's natural direction (a minimum for score, a maximum for the rest)
+export type BudgetLimit = number | { max?: number; min?: number };
+
+export type Budgets = Partial<Record<BudgetMetric, BudgetLimit>>;
+
+export type BudgetAssertion = {
+  metric: BudgetMetric;
+  label: string;
+  unit: string;
+  // null when the audit didn't measure it (e.g. the check was disabled)
+  actual: number | null;
+  comparison: 'max' | 'min';
+  limit: number;
+  status: 'pass' | 'fail' | 'skipped';
+  // Why a metric the audit has a value for was skipped
+  note?: string;
+};
+
+export type BudgetReport = {
+  // The config file entry the budgets came from, if any
+  origin: string | null;
+  passed: boolean;
+  violations: number;
+  assertions: BudgetAssertion[];
+  // The config file could not be read; request budgets are still applied
+  error?: string;
+};
+
+type MetricSpec = {
+  label: string;
+  unit: string;
+  direction: 'max' | 'min';
+  value: (result: AuditResult) => number | undefined;
+  // Only enforced when measured in a browser; the HTML-only estimate is too rough to fail a budget on
+  browserMetric?: PerformanceMetric;
+};
+
+export const BUDGET_METRICS: Record<BudgetMetric, MetricSpec> = {
+  score: { label: 'Score', unit: '', direction: 'min', value: r => r.score },
+  responseTimeMs: { label: 'Response time', unit: 'ms', direction: 'max', value: r => r.responseTimeMs ?? undefined },
+  ttfbMs: { label: 'TTFB', unit: 'ms', direction: 'max', value: r => r.ttfbMs, browserMetric: 'ttfbMs' },
+  fcpMs: { label: 'FCP', unit: 'ms', direction: 'max', value: r => r.fcpMs, browserMetric: 'fcpMs' },
+  lcpMs: { label: 'LCP', unit: 'ms', direction: 'max', value: r => r.lcpMs, browserMetric: 'lcpMs' },
+  cls: { label: 'CLS', unit: '', direction: 'max', value: r => r.cls, browserMetric: 'cls' },
+  tbtMs: { label: 'TBT', unit: 'ms', direction: 'max', value: r => r.tbtMs, browserMetric: 'tbtMs' },
+  transferBytes: { label: 'Page weight', unit: 'bytes', direction: 'max', value: r => r.transferBytes, browserMetric: 'transferBytes' },
+  scriptsCount: { label: 'Scripts', unit: '', direction: 'max', value: r => r.scriptsCount },
+  totalImages: { label: 'Images', unit: '', direction: 'max', value: r => r.totalImages },
+  imageSavingsBytes: {
+    label: 'Image savings',
+    unit: 'bytes',
+    direction: 'max',
+    value: r => r.imageIssues?.reduce((sum, img) => sum + img.estimatedSavingsBytes, 0),
+  },
+  brokenLinks: { label: 'Broken links', unit: '', direction: 'max', value: r => r.brokenLinks?.length },
+  // plain-HTTP pages have no mixed content to list
+  mixedContent: {
+    label: 'Mixed content',
+    unit: '',
+    direction: 'max',
+    value: r => r.mixedContent?.length ?? (r.hasMixedContent === false ? 0 : undefined),
+  },
+  accessibilityViolations: { label: 'Accessibility violations', unit: '', direction: 'max', value: r => r.accessibility?.length },
+};
+
+const METRIC_KEYS = Object.keys(BUDGET_METRICS) as BudgetMetric[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isLimit(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Validate budgets coming from a request body or the config file, dropping unknown metrics
+export function parseBudgets(input: unknown): Budgets | undefined {
+  if (!isRecord(input)) return undefined;
+
+  const budgets: Budgets = {};
+  for (const metric of METRIC_KEYS) {
+    const value = input[metric];
+    if (isLimit(value)) {
+      budgets[metric] = value;
+    } else if (isRecord(value)) {
+      const limit = { max: isLimit(value.max) ? value.max : undefined, min: isLimit(value.min) ? value.min : undefined };
+      if (limit.max !== undefined || limit.min !== undefined) budgets[metric] = limit;
+    }
+  }
+  return Object.keys(budgets).length > 0 ? budgets : undefined;
+}
+
+export function evaluateBudgets(result: AuditResult, budgets: Budgets, origin: string | null = null): BudgetReport {
+  const assertions: BudgetAssertion[] = [];
+
+  for (const metric of METRIC_KEYS) {
+    const budget = budgets[metric];
+    if (budget === undefined) continue;
+
+    const spec = BUDGET_METRICS[metric];
+    const limits: Array<['max' | 'min', number]> = typeof budget === 'number'
+      ? [[spec.direction, budget]]
+      : [['max', budget.max], ['min', budget.min]].filter((l): l is ['max' | 'min', number] => l[1] !== undefined);
+
+    const actual = spec.value(result) ?? null;
+    const estimated = actual !== null && spec.browserMetric !== undefined && result.metricSources?.[spec.browserMetric] !== 'measured';
+    for (const [comparison, limit] of limits) {
+      if (estimated) {
+        const note = 'Estimated without a browser; run with performance mode "browser" to enforce it';
+        assertions.push({ metric, label: spec.label, unit: spec.unit, actual, comparison, limit, status: 'skipped', note });
+        continue;
+      }
+      const status = actual === null ? 'skipped' : (comparison === 'max' ? actual <= limit : actual >= limit) ? 'pass' : 'fail';
+      assertions.push({ metric, label: spec.label, unit: spec.unit, actual, comparison, limit, status });
+    }
+  }
+
+  const violations = assertions.filter(a => a.status === 'fail').length;
+  return { origin, passed: violations === 0, violations, assertions };
+}
+
+// AUDIT_BUDGETS_FILE (default budgets.json) maps origins to budgets; "*" applies to every origin
+function budgetsFile(): string {
+  return path.resolve(process.env.AUDIT_BUDGETS_FILE ?? 'budgets.json');
+}
+
+function originKey(input: string): string | null {
+  try {
+    return new URL(input).origin;
+  } catch {
+    return null;
+  }
+}
+
+async function loadConfigBudgets(
+  file: string,
+  origin: string | null,
+  required: boolean,
+): Promise<{ budgets?: Budgets; origin: string | null }> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (err) {
+    // the default file is optional; one named explicitly is not
+    if (!required && (err as NodeJS.ErrnoException).code === 'ENOENT') return { origin: null };
+    throw err;
+  }
+
+  const config: unknown = JSON.parse(text);
+  if (!isRecord(config)) throw new Error(`${path.basename(file)} must map origins to budgets`);
+
+  const fallback = parseBudgets(config['*']);
+  const entry = Object.entries(config).find(([key]) => key !== '*' && origin !== null && originKey(key) === origin);
+  const specific = entry ? parseBudgets(entry[1]) : undefined;
+  if (!fallback && !specific) return { origin: null };
+  return { budgets: { ...fallback, ...specific }, origin: entry ? entry[0] : '*' };
+}
+
+// Budgets for a page: the config file's "*" entry, then its origin entry, then any given explicitly
+export async function resolveBudgets(
+  url: string,
+  options: { budgets?: Budgets; file?: string } = {},
+): Promise<{ budgets?: Budgets; origin: string | null; error?: string }> {
+  let config: { budgets?: Budgets; origin: string | null } = { origin: null };
+  let error: string | undefined;
+  try {
+    config = await loadConfigBudgets(options.file ? path.resolve(options.file) : budgetsFile(), originKey(url), !!options.file);
+  } catch (err) {
+    error = `Could not read budgets: ${err instanceof Error ? err.message : String(err)}`;
+  }
+
+  const budgets = config.budgets || options.budgets ? { ...config.budgets, ...options.budgets } : undefined;
+  return { budgets, origin: config.origin, error };
+}
@@ -0,0 +1,302 @@
+import type * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import type { AuditCheck, CheckSeverity, FindingInput } from './types';
+
+export type A11yRule =
+  | 'heading-order'
+  | 'empty-heading'
+  | 'label'
+  | 'button-name'
+  | 'link-name'
+  | 'html-lang'
+  | 'duplicate-id'
+  | 'aria-role'
+  | 'aria-attr'
+  | 'tabindex'
+  | 'frame-title';
+
+export type A11yFinding = {
+  rule: A11yRule;
+  // WCAG 2.x success criterion, e.g. "1.3.1"
+  wcag: string;
+  severity: CheckSeverity;
+  message: string;
+  selector: string;
+  snippet: string;
+};
+
+type RuleInfo = {
+  wcag: string;
+  criterion: string;
+  severity: CheckSeverity;
+  summary: string;
+};
+
+export const A11Y_RULES: Record<A11yRule, RuleInfo> = {
+  'heading-order': { wcag: '1.3.1', criterion: 'Info and Relationships', severity: 'low', summary: 'Heading levels are skipped' },
+  'empty-heading': { wcag: '2.4.6', criterion: 'Headings and Labels', severity: 'low', summary: 'Headings have no text' },
+  label: { wcag: '4.1.2', criterion: 'Name, Role, Value', severity: 'high', summary: 'Form controls have no label' },
+  'button-name': { wcag: '4.1.2', criterion: 'Name, Role, Value', severity: 'high', summary: 'Buttons have no accessible name' },
+  'link-name': { wcag: '2.4.4', criterion: 'Link Purpose (In Context)', severity: 'medium', summary: 'Links have no accessible name' },
+  'html-lang': { wcag: '3.1.1', criterion: 'Language of Page', severity: 'medium', summary: '<html> has no lang attribute' },
+  'duplicate-id': { wcag: '4.1.1', criterion: 'Parsing', severity: 'low', summary: 'ids are used more than once' },
+  'aria-role': { wcag: '4.1.2', criterion: 'Name, Role, Value', severity: 'medium', summary: 'Elements use invalid ARIA roles' },
+  'aria-attr': { wcag: '4.1.2', criterion: 'Name, Role, Value', severity: 'medium', summary: 'Elements use invalid ARIA attributes' },
+  tabindex: { wcag: '2.4.3', criterion: 'Focus Order', severity: 'low', summary: 'Elements use a positive tabindex' },
+  'frame-title': { wcag: '4.1.2', criterion: 'Name, Role, Value', severity: 'medium', summary: 'Frames have no title' },
+};
+
+// WAI-ARIA 1.2 roles (abstract roles are not allowed in markup)
+const VALID_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell',
+  'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion',
+  'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell',
+  'group', 'heading', 'img', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee',
+  'math', 'meter', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'navigation', 'none',
+  'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+  'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status',
+  'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox',
+  'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem',
+]);
+
+const VALID_ARIA_ATTRIBUTES = new Set([
+  'aria-activedescendant', 'aria-atomic', 'aria-autocomplete', 'aria-braillelabel', 'aria-brailleroledescription',
+  'aria-busy', 'aria-checked', 'aria-colcount', 'aria-colindex', 'aria-colindextext', 'aria-colspan',
+  'aria-controls', 'aria-current', 'aria-describedby', 'aria-description', 'aria-details', 'aria-disabled',
+  'aria-dropeffect', 'aria-errormessage', 'aria-expanded', 'aria-flowto', 'aria-grabbed', 'aria-haspopup',
+  'aria-hidden', 'aria-invalid', 'aria-keyshortcuts', 'aria-label', 'aria-labelledby', 'aria-level', 'aria-live',
+  'aria-modal', 'aria-multiline', 'aria-multiselectable', 'aria-orientation', 'aria-owns', 'aria-placeholder',
+  'aria-posinset', 'aria-pressed', 'aria-readonly', 'aria-relevant', 'aria-required', 'aria-roledescription',
+  'aria-rowcount', 'aria-rowindex', 'aria-rowindextext', 'aria-rowspan', 'aria-selected', 'aria-setsize',
+  'aria-sort', 'aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext',
+]);
+
+// Attributes whose value must be one of a fixed set
+const ARIA_TOKEN_VALUES: Record<string, string[]> = {
+  'aria-hidden': ['true', 'false', 'undefined'],
+  'aria-disabled': ['true', 'false'],
+  'aria-expanded': ['true', 'false', 'undefined'],
+  'aria-live': ['off', 'polite', 'assertive'],
+  'aria-checked': ['true', 'false', 'mixed', 'undefined'],
+  'aria-pressed': ['true', 'false', 'mixed', 'undefined'],
+  'aria-current': ['page', 'step', 'location', 'date', 'time', 'true', 'false'],
+};
+
+const UNLABELLED_INPUT_TYPES = ['hidden', 'submit', 'button', 'reset', 'image'];
+
+const SNIPPET_LENGTH = 150;
+
+function tagName(el: Element): string {
+  return el.tagName.toLowerCase();
+}
+
+// A short CSS path to the element: an #id anchor when one is unique, nth-of-type otherwise
+export function selectorFor($: cheerio.CheerioAPI, el: Element): string {
+  const parts: string[] = [];
+  let node: Element | null = el;
+
+  while (node && parts.length < 6) {
+    const tag = tagName(node);
+    const id = $(node).attr('id');
+    if (id && /^[A-Za-z][\w-]*$/.test(id) && $(`#${id}`).length === 1) {
+      parts.unshift(`${tag}#${id}`);
+      break;
+    }
+
+    const parent: Element | null = node.parent && node.parent.type === 'tag' ? (node.parent as Element) : null;
+    if (tag === 'html' || tag === 'body' || !parent) {
+      parts.unshift(tag);
+      break;
+    }
+
+    const siblings = $(parent).children(tag);
+    parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.index(node) + 1})` : tag);
+    node = parent;
+  }
+
+  return parts.join(' > ');
+}
+
+// The element's opening tag (and a little content), trimmed for display
+export function snippetFor($: cheerio.CheerioAPI, el: Element): string {
+  let html = ($.html(el) || '').replace(/\s+/g, ' ').trim();
+  // large elements are identified by their opening tag alone
+  if (html.length > SNIPPET_LENGTH) html = html.match(/^<[^>]*>/)?.[0] ?? html;
+  return html.length > SNIPPET_LENGTH ? `${html.slice(0, SNIPPET_LENGTH)}…` : html;
+}
+
+// Ids can hold any character, including quotes and brackets, so they're compared rather than
+// put into a selector
+function byId($: cheerio.CheerioAPI, id: string) {
+  return $('[id]').filter((i, el) => $(el).attr('id') === id);
+}
+
+function isHidden($: cheerio.CheerioAPI, el: Element): boolean {
+  return $(el).closest('[hidden], [aria-hidden="true"], template').length > 0;
+}
+
+// Rough accessible-name computation: ARIA labels, visible text, image alt text and title
+function accessibleName($: cheerio.CheerioAPI, el: Element): string {
+  const $el = $(el);
+  const label = $el.attr('aria-label')?.trim();
+  if (label) return label;
+
+  const labelledBy = $el.attr('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map(id => byId($, id).text().trim())
+      .join(' ')
+      .trim();
+    if (text) return text;
+  }
+
+  const text = $el.text().trim();
+  if (text) return text;
+
+  const alt = $el.find('img[alt], [role="img"][aria-label]')
+    .map((i, img) => $(img).attr('alt') || $(img).attr('aria-label') || '')
+    .get()
+    .join(' ')
+    .trim();
+  if (alt) return alt;
+
+  if (tagName(el) === 'input') {
+    const value = $el.attr('value')?.trim();
+    if (value) return value;
+  }
+
+  return $el.attr('title')?.trim() ?? '';
+}
+
+function hasLabel($: cheerio.CheerioAPI, el: Element): boolean {
+  const $el = $(el);
+  if ($el.attr('aria-label')?.trim() || $el.attr('title')?.trim()) return true;
+
+  const labelledBy = $el.attr('aria-labelledby');
+  if (labelledBy && labelledBy.split(/\s+/).some(id => byId($, id).text().trim())) return true;
+
+  const id = $el.attr('id');
+  if (id && $('label[for]').filter((i, l) => $(l).attr('for') === id && !!$(l).text().trim()).length > 0) return true;
+
+  return $el.closest('label').text().trim().length > 0;
+}
+
+export function analyzeAccessibility($: cheerio.CheerioAPI): A11yFinding[] {
+  const findings: A11yFinding[] = [];
+  const report = (rule: A11yRule, el: Element, message: string) => {
+    const { wcag, severity } = A11Y_RULES[rule];
+    findings.push({ rule, wcag, severity, message, selector: selectorFor($, el), snippet: snippetFor($, el) });
+  };
+
+  // Language of the page
+  const html = $('html').get(0);
+  if (html && !$(html).attr('lang')?.trim()) {
+    report('html-lang', html, '<html> element has no lang attribute');
+  }
+
+  // Heading structure: levels may go down by any amount but only up by one
+  let previous = 0;
+  $('h1, h2, h3, h4, h5, h6').each((i, el) => {
+    if (isHidden($, el)) return;
+    const level = Number(tagName(el).slice(1));
+    if (previous > 0 && level > previous + 1) {
+      report('heading-order', el, `<h${level}> follows <h${previous}>, skipping ${level - previous - 1} level(s)`);
+    } else if (previous === 0 && level > 1) {
+      report('heading-order', el, `First heading on the page is <h${level}> rather than <h1>`);
+    }
+    if (!accessibleName($, el)) report('empty-heading', el, `<h${level}> has no text`);
+    previous = level;
+  });
+
+  // Form controls
+  $('input, select, textarea').each((i, el) => {
+    const type = ($(el).attr('type') || 'text').toLowerCase();
+    if (tagName(el) === 'input' && UNLABELLED_INPUT_TYPES.includes(type)) return;
+    if (isHidden($, el) || hasLabel($, el)) return;
+    const hint = $(el).attr('placeholder') ? ' (a placeholder is not a label)' : '';
+    report('label', el, `<${tagName(el)}${tagName(el) === 'input' ? ` type="${type}"` : ''}> has no associated label${hint}`);
+  });
+
+  // Buttons
+  $('button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"]').each((i, el) => {
+    if (isHidden($, el) || accessibleName($, el)) return;
+    report('button-name', el, 'Button has no text, aria-label or title');
+  });
+  $('input[type="image"]').each((i, el) => {
+    if (isHidden($, el) || $(el).attr('alt')?.trim() || accessibleName($, el)) return;
+    report('button-name', el, 'Image button has no alt text');
+  });
+
+  // Links
+  $('a[href]').each((i, el) => {
+    if (isHidden($, el) || accessibleName($, el)) return;
+    report('link-name', el, 'Link has no text, aria-label or image alt text');
+  });
+
+  // Frames
+  $('iframe, frame').each((i, el) => {
+    if (isHidden($, el) || $(el).attr('title')?.trim() || $(el).attr('aria-label')?.trim()) return;
+    report('frame-title', el, `<${tagName(el)}> has no title`);
+  });
+
+  // Duplicate ids (reported once per id, on the second occurrence)
+  const ids = new Map<string, number>();
+  $('[id]').each((i, el) => {
+    const id = $(el).attr('id') || '';
+    if (!id) return;
+    const seen = (ids.get(id) ?? 0) + 1;
+    ids.set(id, seen);
+    if (seen === 2) report('duplicate-id', el, `id="${id}" is used more than once`);
+  });
+
+  // ARIA roles and attributes
+  $('[role]').each((i, el) => {
+    const roles = ($(el).attr('role') || '').trim().toLowerCase().split(/\s+/).filter(Boolean);
+    // the first recognised role in the list is the one that applies
+    if (roles.length === 0 || !roles.some(r => VALID_ROLES.has(r))) {
+      report('aria-role', el, `role="${$(el).attr('role')}" is not a valid ARIA role`);
+    }
+  });
+  for (const el of $('*').toArray().filter(node => node.type === 'tag') as Element[]) {
+    for (const [name, value] of Object.entries(el.attribs)) {
+      if (!name.startsWith('aria-')) continue;
+      if (!VALID_ARIA_ATTRIBUTES.has(name)) {
+        report('aria-attr', el, `${name} is not a valid ARIA attribute`);
+      } else if (ARIA_TOKEN_VALUES[name] && !ARIA_TOKEN_VALUES[name].includes(value.trim().toLowerCase())) {
+        report('aria-attr', el, `${name}="${value}" is not an allowed value`);
+      }
+    }
+  }
+
+  // Positive tabindex overrides the natural focus order
+  $('[tabindex]').each((i, el) => {
+    const tabindex = Number($(el).attr('tabindex'));
+    if (tabindex > 0) report('tabindex', el, `tabindex="${tabindex}" changes the natural focus order`);
+  });
+
+  return findings;
+}
+
+export const accessibilityCheck: AuditCheck = {
+  id: 'accessibility',
+  title: 'Accessibility (WCAG)',
+  category: 'accessibility',
+  severity: 'medium',
+  run({ $, result }) {
+    result.accessibility = analyzeAccessibility($);
+
+    const findings: FindingInput[] = [];
+    for (const [rule, info] of Object.entries(A11Y_RULES) as Array<[A11yRule, RuleInfo]>) {
+      const matches = result.accessibility.filter(f => f.rule === rule);
+      if (matches.length === 0) continue;
+      findings.push({
+        id: `a11y:${rule}`,
+        message: `${info.summary} (${matches.length}) — WCAG ${info.wcag} ${info.criterion}`,
+        details: matches.map(f => `${f.selector}: ${f.message}`),
+        severity: info.severity,
+      });
+    }
+    return findings;
+  },
+};
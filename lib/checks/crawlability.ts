@@ -0,0 +1,214 @@
+import { mapWithConcurrency } from '../concurrency';
+import { createHttpClient, describeFetchError, type HttpClient } from '../http';
+import { fetchRobots, isAllowedByRobots, type RobotsGroup } from '../robots';
+import { isValidLastmod, loadSitemaps, sitemapLocations, type SitemapCache, type SitemapFile, type SitemapLoadOptions } from '../sitemap';
+import type { AuditCheck, CheckSeverity, FindingInput } from './types';
+
+export type RobotsReport = {
+  url: string;
+  found: boolean;
+  status?: number;
+  groups: RobotsGroup[];
+  // Sitemap: directives
+  sitemaps: string[];
+  // Whether the audited page may be crawled
+  googlebotAllowed: boolean;
+  allAgentsAllowed: boolean;
+  error?: string;
+};
+
+export type SitemapIssue = {
+  id: string;
+  severity: CheckSeverity;
+  message: string;
+  details?: string[];
+};
+
+export type SampledUrl = {
+  url: string;
+  status?: number;
+  error?: string;
+  ok: boolean;
+};
+
+export type SitemapReport = {
+  found: boolean;
+  // Where we looked: robots.txt Sitemap: directives, or the conventional locations
+  locations: string[];
+  files: SitemapFile[];
+  urlCount: number;
+  truncated: boolean;
+  invalidLastmod: number;
+  foreignUrls: number;
+  sampled: SampledUrl[];
+  issues: SitemapIssue[];
+};
+
+export type SitemapCheckOptions = SitemapLoadOptions & {
+  // Listed URLs requested to confirm they return 200
+  sampleSize?: number;
+  concurrency?: number;
+};
+
+export const DEFAULT_SITEMAP_CHECK_OPTIONS = {
+  sampleSize: 10,
+  concurrency: 4,
+};
+
+// Examples listed per issue
+const MAX_SAMPLES = 10;
+
+// Spread the sample across the whole list rather than taking the first few
+function pickSample<T>(items: T[], size: number): T[] {
+  if (items.length <= size) return items;
+  const step = items.length / size;
+  return Array.from({ length: size }, (_, i) => items[Math.floor(i * step)]);
+}
+
+async function sampleUrl(http: HttpClient, url: string, timeoutMs?: number): Promise<SampledUrl> {
+  try {
+    let res = await http.fetch(url, { method: 'HEAD', redirect: 'manual', timeoutMs });
+    if (res.status === 405 || res.status === 501) {
+      res = await http.fetch(url, { method: 'GET', redirect: 'manual', timeoutMs });
+    }
+    await res.body?.cancel().catch(() => {});
+    return { url, status: res.status, ok: res.status === 200 };
+  } catch (err) {
+    return { url, error: describeFetchError(err), ok: false };
+  }
+}
+
+export async function checkSitemaps(
+  origin: string,
+  directives: string[],
+  options: SitemapCheckOptions = {},
+  http: HttpClient = createHttpClient(),
+  cache?: SitemapCache,
+): Promise<SitemapReport> {
+  const { sampleSize, concurrency, ...loadOptions } = { ...DEFAULT_SITEMAP_CHECK_OPTIONS, ...options };
+  const locations = sitemapLocations(origin, directives);
+  const load = await loadSitemaps(locations, loadOptions, http, cache);
+  const issues: SitemapIssue[] = [];
+
+  const found = load.files.some(f => f.status !== undefined && f.status < 400);
+  // A conventional location that simply isn't there is not a broken sitemap
+  const optional = (f: SitemapFile) => directives.length === 0 && locations.includes(f.url) && (f.status ?? 0) >= 400;
+  const broken = load.files.filter(f => f.error && !optional(f));
+  if (broken.length > 0) {
+    issues.push({
+      id: 'sitemap-unreadable',
+      severity: 'medium',
+      message: `${broken.length} sitemap files could not be read`,
+      details: broken.map(f => `${f.url}: ${f.error}`),
+    });
+  }
+
+  const badLastmod = load.urls.filter(u => u.lastmod && !isValidLastmod(u.lastmod));
+  if (badLastmod.length > 0) {
+    issues.push({
+      id: 'sitemap-lastmod',
+      severity: 'low',
+      message: `${badLastmod.length} <lastmod> values are not W3C datetimes`,
+      details: badLastmod.slice(0, MAX_SAMPLES).map(u => `${u.loc}: "${u.lastmod}"`),
+    });
+  }
+
+  // The protocol only allows URLs on the same host as the sitemap that lists them
+  const foreign = load.urls.filter(u => {
+    try {
+      return new URL(u.loc).host !== new URL(u.sitemap).host;
+    } catch {
+      return true;
+    }
+  });
+  if (foreign.length > 0) {
+    issues.push({
+      id: 'sitemap-foreign-host',
+      severity: 'medium',
+      message: `${foreign.length} sitemap URLs are invalid or on another host`,
+      details: foreign.slice(0, MAX_SAMPLES).map(u => `${u.loc} (in ${u.sitemap})`),
+    });
+  }
+
+  const foreignSet = new Set(foreign);
+  const sampled = await mapWithConcurrency(
+    pickSample(load.urls.filter(u => !foreignSet.has(u)).map(u => u.loc), sampleSize),
+    concurrency,
+    loc => sampleUrl(http, loc, loadOptions.timeoutMs),
+  );
+  const failing = sampled.filter(s => !s.ok);
+  if (failing.length > 0) {
+    issues.push({
+      id: 'sitemap-non-200',
+      severity: 'medium',
+      message: `${failing.length} of ${sampled.length} sampled sitemap URLs did not return 200`,
+      details: failing.map(s => `${s.url} (${s.status ?? s.error})`),
+    });
+  }
+
+  if (load.truncated) {
+    issues.push({ id: 'sitemap-truncated', severity: 'low', message: `Stopped after ${load.files.length} files and ${load.urls.length} URLs` });
+  }
+
+  return {
+    found,
+    locations,
+    files: load.files,
+    urlCount: load.urls.length,
+    truncated: load.truncated,
+    invalidLastmod: badLastmod.length,
+    foreignUrls: foreign.length,
+    sampled,
+    issues,
+  };
+}
+
+// Parse robots.txt and the sitemaps it (or convention) points to
+export const crawlabilityCheck: AuditCheck = {
+  id: 'robots-sitemap',
+  title: 'robots.txt and sitemap',
+  category: 'seo',
+  severity: 'low',
+  scope: 'site',
+  async run({ url, finalUrl, origin, result, options, http }) {
+    if (!origin) return;
+
+    const fetched = await fetchRobots(origin, options.sitemaps?.timeoutMs, http);
+    const robots = fetched.robots ?? { groups: [], sitemaps: [] };
+    result.robots = {
+      url: fetched.url,
+      found: !!fetched.robots,
+      status: fetched.status,
+      groups: robots.groups,
+      sitemaps: robots.sitemaps,
+      googlebotAllowed: isAllowedByRobots(robots, finalUrl || url, 'Googlebot'),
+      allAgentsAllowed: isAllowedByRobots(robots, finalUrl || url, '*'),
+      error: fetched.error,
+    };
+    result.sitemap = await checkSitemaps(origin, robots.sitemaps, options.sitemaps, http, options.sitemapCache);
+
+    const findings: FindingInput[] = [];
+    if (!result.robots.found) {
+      findings.push({ id: 'no-robots', message: 'No robots.txt found', details: fetched.error ? [fetched.error] : undefined });
+    }
+    if (!result.robots.googlebotAllowed) {
+      findings.push({ id: 'blocked-by-robots', message: 'robots.txt blocks Googlebot from this page', severity: 'high' });
+    }
+    if (!result.robots.allAgentsAllowed) {
+      findings.push({ id: 'robots-all-blocked', message: 'robots.txt blocks all crawlers (User-agent: *) from this page', severity: 'medium' });
+    }
+    if (!result.sitemap.found) {
+      findings.push({ id: 'no-sitemap', message: 'No sitemap.xml found', details: result.sitemap.locations });
+    }
+    for (const issue of result.sitemap.issues) {
+      findings.push({
+        id: issue.id,
+        deductionId: 'sitemap-issues',
+        message: issue.message,
+        details: issue.details,
+        severity: issue.severity,
+      });
+    }
+    return findings;
+  },
+};
@@ -0,0 +1,338 @@
+import type * as cheerio from 'cheerio';
+import type { ImageIssue, ImageProblem } from '../audit';
+import { mapWithConcurrency } from '../concurrency';
+import { createHttpClient, describeFetchError, type HttpClient } from '../http';
+import { IMAGE_HEADER_BYTES, readImageInfo, type ImageInfo } from '../image-info';
+import type { AuditCheck, FindingInput } from './types';
+
+export type ImageCheckOptions = {
+  concurrency?: number;
+  timeoutMs?: number;
+  // Unique images fetched per page; the rest are checked from markup only
+  maxImages?: number;
+  // Bytes downloaded across all images of a page
+  maxTotalBytes?: number;
+  // Bytes read from one image whose size the server doesn't declare
+  maxImageBytes?: number;
+};
+
+export const DEFAULT_IMAGE_CHECK_OPTIONS: Required<ImageCheckOptions> = {
+  concurrency: 6,
+  timeoutMs: 8000,
+  maxImages: 50,
+  maxTotalBytes: 20 * 1024 * 1024,
+  maxImageBytes: 5 * 1024 * 1024,
+};
+
+// Images served at up to this multiple of their rendered size are fine on high-DPI screens
+const DEVICE_PIXEL_RATIO = 2;
+
+// Without layout we assume the first few content images in document order are above the fold,
+// as are images in the page header or navigation and any marked fetchpriority="high"
+const ABOVE_FOLD_IMAGES = 3;
+
+// Typical size reduction when re-encoding as WebP/AVIF
+const MODERN_FORMAT_SAVINGS: Partial<Record<ImageInfo['format'], number>> = {
+  jpeg: 0.3,
+  png: 0.4,
+  gif: 0.5,
+  bmp: 0.9,
+};
+
+const MODERN_TYPES = ['image/webp', 'image/avif'];
+
+// Problems whose savings are below this are not worth reporting
+const MIN_SAVINGS_BYTES = 4 * 1024;
+
+type ImageCandidate = {
+  src: string;
+  // A guess from the markup; see ABOVE_FOLD_IMAGES
+  likelyAboveFold: boolean;
+  width?: number;
+  height?: number;
+  srcset?: string;
+  sizes?: string;
+  lazy: boolean;
+  // undefined outside <picture>; otherwise whether a WebP/AVIF <source> is offered
+  pictureHasModern?: boolean;
+};
+
+type FetchedImage = {
+  bytes?: number;
+  info?: ImageInfo;
+  error?: string;
+};
+
+function pixels(value: string | undefined): number | undefined {
+  if (!value || !/^\s*\d+(\.\d+)?(px)?\s*$/.test(value)) return undefined;
+  return Math.round(parseFloat(value));
+}
+
+// The slot width a `sizes` attribute resolves to when it is a plain pixel length
+function sizesWidth(sizes: string | undefined): number | undefined {
+  const last = sizes?.split(',').pop()?.trim();
+  return pixels(last);
+}
+
+function collectImages($: cheerio.CheerioAPI, baseUrl: string): ImageCandidate[] {
+  const images: ImageCandidate[] = [];
+  let contentImages = 0;
+  $('img').each((i, el) => {
+    const $img = $(el);
+    // logos and icons in the header don't push the content images down the page
+    const inHeader = $img.closest('header, nav').length > 0;
+    const likelyAboveFold = inHeader
+      || ($img.attr('fetchpriority') || '').toLowerCase() === 'high'
+      || contentImages < ABOVE_FOLD_IMAGES;
+    if (!inHeader) contentImages++;
+
+    const srcset = $img.attr('srcset')?.trim() || undefined;
+    const raw = $img.attr('src')?.trim() || srcset?.split(',')[0].trim().split(/\s+/)[0];
+    if (!raw || raw.startsWith('data:')) return;
+
+    let src: string;
+    try {
+      src = new URL(raw, baseUrl).toString();
+    } catch {
+      return;
+    }
+
+    const picture = $img.parent('picture');
+    images.push({
+      src,
+      likelyAboveFold,
+      width: pixels($img.attr('width')),
+      height: pixels($img.attr('height')),
+      srcset,
+      sizes: $img.attr('sizes')?.trim() || undefined,
+      lazy: ($img.attr('loading') || '').toLowerCase() === 'lazy',
+      pictureHasModern: picture.length
+        ? picture.children('source').toArray().some(s => MODERN_TYPES.includes(($(s).attr('type') || '').toLowerCase()))
+        : undefined,
+    });
+  });
+  return images;
+}
+
+// Read the header (and the size, declared or counted) of an image within the byte budget.
+// The bytes it may read are taken from the budget before reading and the unread rest given
+// back after, so images fetched side by side can't overrun it together.
+async function fetchImage(
+  http: HttpClient,
+  url: string,
+  options: Required<ImageCheckOptions>,
+  budget: { remaining: number },
+): Promise<FetchedImage> {
+  if (budget.remaining <= 0) return { error: 'Skipped: image byte budget used up' };
+
+  try {
+    const res = await http.fetch(url, { redirect: 'follow', timeoutMs: options.timeoutMs });
+    if (!res.ok || !res.body) {
+      await res.body?.cancel().catch(() => {});
+      return { error: `HTTP ${res.status}` };
+    }
+
+    const declared = Number(res.headers.get('content-length')) || undefined;
+    const limit = Math.min(declared ? IMAGE_HEADER_BYTES : options.maxImageBytes, budget.remaining);
+    if (limit <= 0) {
+      await res.body.cancel().catch(() => {});
+      return { error: 'Skipped: image byte budget used up' };
+    }
+    budget.remaining -= limit;
+
+    const chunks: Uint8Array[] = [];
+    let read = 0;
+    const reader = res.body.getReader();
+    try {
+      while (read < limit) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const chunk = value.subarray(0, limit - read);
+        chunks.push(chunk);
+        read += chunk.length;
+      }
+    } finally {
+      await reader.cancel().catch(() => {});
+      budget.remaining += limit - read;
+    }
+
+    const bytes = new Uint8Array(read);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    // an undeclared size is only known if we read the whole file
+    const size = declared ?? (read < limit ? read : undefined);
+    return { bytes: size, info: readImageInfo(bytes) };
+  } catch (err) {
+    return { error: describeFetchError(err) };
+  }
+}
+
+function kb(bytes: number): string {
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+function analyzeImage(image: ImageCandidate, fetched: FetchedImage | undefined): ImageIssue {
+  const problems: ImageProblem[] = [];
+  const info = fetched?.info;
+  const bytes = fetched?.bytes;
+  const renderedWidth = image.width ?? sizesWidth(image.sizes);
+  const renderedHeight = image.height;
+
+  if (fetched?.error) {
+    problems.push({ type: 'fetch-failed', message: `Could not analyze: ${fetched.error}`, savingsBytes: 0 });
+  }
+
+  if (!image.width || !image.height) {
+    problems.push({ type: 'missing-dimensions', message: 'No width/height attributes; the layout shifts when it loads', savingsBytes: 0 });
+  } else if (info?.width && info.height && info.format !== 'svg') {
+    const rendered = image.width / image.height;
+    const intrinsic = info.width / info.height;
+    if (Math.abs(rendered - intrinsic) / intrinsic > 0.05) {
+      problems.push({
+        type: 'aspect-ratio',
+        message: `Rendered at ${image.width}×${image.height} but the file is ${info.width}×${info.height}, so it is distorted`,
+        savingsBytes: 0,
+      });
+    }
+  }
+
+  if (image.srcset && /\d+w(\s*,|\s*$)/.test(image.srcset) && !image.sizes) {
+    problems.push({ type: 'sizes-missing', message: 'srcset uses width descriptors without sizes, so browsers assume 100vw', savingsBytes: 0 });
+  }
+
+  let remaining = bytes ?? 0;
+
+  // A srcset lets the browser pick a smaller file, so only plain src images are judged
+  if (!image.srcset && bytes && info?.width && renderedWidth && info.format !== 'svg') {
+    const target = renderedWidth * DEVICE_PIXEL_RATIO;
+    if (info.width > target) {
+      const savingsBytes = Math.round(bytes * (1 - (target / info.width) ** 2));
+      if (savingsBytes >= MIN_SAVINGS_BYTES) {
+        problems.push({
+          type: 'oversized',
+          message: `${info.width}px wide but displayed at ${renderedWidth}px; resizing saves about ${kb(savingsBytes)}`,
+          savingsBytes,
+        });
+        remaining -= savingsBytes;
+      }
+    }
+  }
+
+  const formatSavings = info ? MODERN_FORMAT_SAVINGS[info.format] : undefined;
+  if (formatSavings && bytes && image.pictureHasModern !== true) {
+    const savingsBytes = Math.round(remaining * formatSavings);
+    if (savingsBytes >= MIN_SAVINGS_BYTES) {
+      problems.push(image.pictureHasModern === false
+        ? {
+            type: 'picture-no-modern',
+            message: `<picture> offers no WebP/AVIF <source>; one would save about ${kb(savingsBytes)}`,
+            savingsBytes,
+          }
+        : {
+            type: 'legacy-format',
+            message: `Served as ${info!.format.toUpperCase()}; WebP/AVIF would save about ${kb(savingsBytes)}`,
+            savingsBytes,
+          });
+    }
+  }
+
+  if (!image.likelyAboveFold && !image.lazy) {
+    problems.push({
+      type: 'not-lazy',
+      message: `Probably below the fold (judged from its place in the markup, not the layout) without loading="lazy"${bytes ? `; ${kb(bytes)} could be deferred` : ''}`,
+      savingsBytes: bytes ?? 0,
+    });
+  }
+
+  return {
+    src: image.src,
+    format: info?.format,
+    bytes,
+    intrinsicWidth: info?.width,
+    intrinsicHeight: info?.height,
+    renderedWidth,
+    renderedHeight,
+    problems,
+    estimatedSavingsBytes: problems
+      .filter(p => p.type !== 'not-lazy')
+      .reduce((sum, p) => sum + p.savingsBytes, 0),
+  };
+}
+
+// Fetch the page's images and compare each file with how the markup displays it
+export async function analyzeImages(
+  $: cheerio.CheerioAPI,
+  baseUrl: string,
+  options: ImageCheckOptions = {},
+  http: HttpClient = createHttpClient(),
+): Promise<ImageIssue[]> {
+  const resolved = { ...DEFAULT_IMAGE_CHECK_OPTIONS, ...options };
+  const images = collectImages($, baseUrl);
+  const budget = { remaining: resolved.maxTotalBytes };
+
+  const unique = [...new Set(images.map(i => i.src))]
+    .filter(src => /^https?:/i.test(src))
+    .slice(0, resolved.maxImages);
+  const fetched = new Map<string, FetchedImage>();
+  await mapWithConcurrency(unique, resolved.concurrency, async src => {
+    fetched.set(src, await fetchImage(http, src, resolved, budget));
+  });
+
+  return images
+    .map(image => analyzeImage(image, fetched.get(image.src)))
+    .filter(issue => issue.problems.length > 0);
+}
+
+export const imageAltCheck: AuditCheck = {
+  id: 'image-alt',
+  title: 'Image alt text',
+  category: 'accessibility',
+  severity: 'medium',
+  run({ result }) {
+    const missing = result.imgWithoutAlt ?? 0;
+    if (missing > 0) {
+      return [{ id: 'missing-alt', message: `${missing} images lack descriptive alt attributes for accessibility` }];
+    }
+  },
+};
+
+const PROBLEM_SUMMARIES: Record<ImageProblem['type'], string> = {
+  oversized: 'images are larger than they are displayed',
+  'legacy-format': 'images could use WebP or AVIF',
+  'picture-no-modern': '<picture> elements offer no WebP/AVIF source',
+  'missing-dimensions': 'images have no width/height attributes',
+  'aspect-ratio': 'images are displayed at a different aspect ratio',
+  'sizes-missing': 'srcset images have no sizes attribute',
+  'not-lazy': 'images that are probably below the fold are not lazy-loaded',
+  'fetch-failed': 'images could not be fetched for analysis',
+};
+
+export const imageOptimizationCheck: AuditCheck = {
+  id: 'image-optimization',
+  title: 'Image optimization',
+  category: 'performance',
+  severity: 'medium',
+  async run({ $, finalUrl, result, options, http }) {
+    result.imageIssues = await analyzeImages($, finalUrl, options.images, http);
+
+    const findings: FindingInput[] = [];
+    for (const [type, summary] of Object.entries(PROBLEM_SUMMARIES) as Array<[ImageProblem['type'], string]>) {
+      const matching = result.imageIssues.filter(img => img.problems.some(p => p.type === type));
+      if (matching.length === 0) continue;
+      const savings = matching.reduce((sum, img) => sum + img.problems.filter(p => p.type === type).reduce((s, p) => s + p.savingsBytes, 0), 0);
+      findings.push({
+        id: `image:${type}`,
+        // only problems with byte savings count towards the image-savings deduction
+        deductionId: savings > 0 ? 'image-savings' : undefined,
+        message: `${matching.length} ${summary}${savings > 0 ? ` (~${kb(savings)})` : ''}`,
+        details: matching.map(img => img.src),
+        severity: type === 'oversized' || type === 'legacy-format' || type === 'picture-no-modern' ? 'medium' : 'low',
+      });
+    }
+    return findings;
+  },
+};
@@ -0,0 +1,20 @@
+export * from './types';
+export { A11Y_RULES } from './accessibility';
+export type { A11yFinding, A11yRule } from './accessibility';
+export type { RobotsReport, SampledUrl, SitemapCheckOptions, SitemapIssue, SitemapReport } from './crawlability';
+export type { ImageCheckOptions } from './images';
+export { createLinkCache } from './links';
+export type { LinkCache, LinkCheckOptions } from './links';
+export type { MixedContentItem } from './mixed-content';
+export type { RedirectCheckOptions } from './redirects';
+export type { HeaderGrade, SecurityHeaderResult } from './security-headers';
+export type { SeoIssue, SeoReport } from './seo';
+export {
+  getCheck,
+  isBuiltinCheck,
+  listChecks,
+  registerCheck,
+  runChecks,
+  selectChecks,
+  unregisterCheck,
+} from './registry';
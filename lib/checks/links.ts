@@ -0,0 +1,192 @@
+import type * as cheerio from 'cheerio';
+import type { LinkIssue, LinkResourceType, RedirectHop } from '../audit';
+import { mapWithConcurrency } from '../concurrency';
+import { createHttpClient, describeFetchError, isTimeoutError, networkErrorCode, type HttpClient } from '../http';
+import type { AuditCheck, FindingInput } from './types';
+
+export type LinkCheckOptions = {
+  concurrency?: number;
+  timeoutMs?: number;
+  // Upper bound on unique URLs checked per page
+  maxLinks?: number;
+  maxRedirects?: number;
+};
+
+export const DEFAULT_LINK_CHECK_OPTIONS: Required<LinkCheckOptions> = {
+  concurrency: 8,
+  timeoutMs: 8000,
+  maxLinks: 500,
+  maxRedirects: 10,
+};
+
+// The outcome of requesting a URL, independent of the page that links to it
+type LinkProbe = Pick<LinkIssue, 'statusCode' | 'finalUrl' | 'redirects' | 'method' | 'broken' | 'error'>;
+
+// Probes keyed by absolute URL; share one across the pages of a crawl
+export type LinkCache = Map<string, Promise<LinkProbe>>;
+
+export function createLinkCache(): LinkCache {
+  return new Map();
+}
+
+// Connection errors that mean the target does not exist, as opposed to a flaky network
+const BROKEN_ERROR_CODES = ['ENOTFOUND', 'ECONNREFUSED', 'EAI_AGAIN', 'ERR_INVALID_URL'];
+
+// Origin-only hints whose href is never fetched as a document
+const SKIPPED_LINK_RELS = ['preconnect', 'dns-prefetch'];
+
+type LinkTarget = {
+  url: string;
+  type: LinkResourceType;
+};
+
+// Gather every unique http(s) URL the page links to or loads
+export function collectLinkTargets($: cheerio.CheerioAPI, baseUrl: string): LinkTarget[] {
+  const targets = new Map<string, LinkTarget>();
+
+  const add = (value: string | undefined, type: LinkResourceType) => {
+    if (!value || value.startsWith('#')) return;
+    try {
+      const u = new URL(value, baseUrl);
+      if (u.protocol !== 'http:' && u.protocol !== 'https:') return;
+      u.hash = '';
+      const url = u.toString();
+      if (!targets.has(url)) targets.set(url, { url, type });
+    } catch {}
+  };
+
+  $('a[href]').each((i, el) => add($(el).attr('href'), 'link'));
+  $('link[href]').each((i, el) => {
+    const rels = ($(el).attr('rel') || '').toLowerCase().split(/\s+/);
+    if (rels.some(rel => SKIPPED_LINK_RELS.includes(rel))) return;
+    add($(el).attr('href'), rels.includes('stylesheet') ? 'stylesheet' : 'resource');
+  });
+  $('script[src]').each((i, el) => add($(el).attr('src'), 'script'));
+  $('img[src]').each((i, el) => add($(el).attr('src'), 'image'));
+
+  return [...targets.values()];
+}
+
+async function request(http: HttpClient, url: string, method: 'HEAD' | 'GET', timeoutMs: number): Promise<Response> {
+  const res = await http.fetch(url, { method, redirect: 'manual', timeoutMs });
+  // only the status matters; don't download bodies
+  await res.body?.cancel().catch(() => {});
+  return res;
+}
+
+// Request a URL hop by hop, falling back to GET when the server rejects HEAD
+async function probeLink(http: HttpClient, url: string, options: Required<LinkCheckOptions>): Promise<LinkProbe> {
+  const redirects: RedirectHop[] = [];
+  let method: 'HEAD' | 'GET' = 'HEAD';
+  let current = url;
+
+  try {
+    for (let hop = 0; hop <= options.maxRedirects; hop++) {
+      let res = await request(http, current, method, options.timeoutMs);
+      if (method === 'HEAD' && (res.status === 405 || res.status === 501)) {
+        method = 'GET';
+        res = await request(http, current, method, options.timeoutMs);
+      }
+
+      const location = res.headers.get('location');
+      if (res.status >= 300 && res.status < 400 && location) {
+        const next = new URL(location, current).toString();
+        redirects.push({ url: current, status: res.status, location: next });
+        if (redirects.some(r => r.url === next)) {
+          return { statusCode: res.status, finalUrl: next, redirects, method, broken: true, error: 'Redirect loop' };
+        }
+        current = next;
+        continue;
+      }
+
+      return { statusCode: res.status, finalUrl: current, redirects, method, broken: res.status >= 400 };
+    }
+
+    return { finalUrl: current, redirects, method, broken: true, error: `More than ${options.maxRedirects} redirects` };
+  } catch (err) {
+    const code = networkErrorCode(err);
+    return {
+      finalUrl: current,
+      redirects,
+      method,
+      // timeouts and resets are inconclusive; only unresolvable or refused hosts are broken
+      broken: !isTimeoutError(err) && !!code && BROKEN_ERROR_CODES.includes(code),
+      error: describeFetchError(err),
+    };
+  }
+}
+
+// Check every link target with bounded concurrency, reusing cached probes
+export async function checkLinks(
+  targets: LinkTarget[],
+  pageOrigin: string | null,
+  options: LinkCheckOptions = {},
+  cache: LinkCache = createLinkCache(),
+  http: HttpClient = createHttpClient(),
+): Promise<LinkIssue[]> {
+  const resolved = { ...DEFAULT_LINK_CHECK_OPTIONS, ...options };
+
+  return mapWithConcurrency(targets.slice(0, resolved.maxLinks), resolved.concurrency, async target => {
+    let probe = cache.get(target.url);
+    if (!probe) {
+      probe = probeLink(http, target.url, resolved);
+      cache.set(target.url, probe);
+    }
+
+    return {
+      url: target.url,
+      type: target.type,
+      internal: new URL(target.url).origin === pageOrigin,
+      ...(await probe),
+    };
+  });
+}
+
+function describeLink(link: LinkIssue): string {
+  const status = [link.statusCode, link.error].filter(Boolean).join(', ');
+  return status ? `${link.url} (${status})` : link.url;
+}
+
+export const brokenLinksCheck: AuditCheck = {
+  id: 'broken-links',
+  title: 'Broken links',
+  category: 'seo',
+  severity: 'high',
+  async run({ $, finalUrl, result, options, http }) {
+    const targets = collectLinkTargets($, finalUrl);
+    const checked = await checkLinks(targets, new URL(finalUrl).origin, options.links, options.linkCache, http);
+
+    result.checkedLinks = checked;
+    result.brokenLinks = checked.filter(l => l.broken);
+
+    const findings: FindingInput[] = [];
+    const internal = result.brokenLinks.filter(l => l.internal);
+    const external = result.brokenLinks.filter(l => !l.internal);
+    if (internal.length > 0) {
+      findings.push({ id: 'broken-internal', deductionId: 'broken-links', message: `${internal.length} broken internal links`, details: internal.map(describeLink) });
+    }
+    if (external.length > 0) {
+      findings.push({ id: 'broken-external', deductionId: 'broken-links', message: `${external.length} broken external links`, details: external.map(describeLink), severity: 'medium' });
+    }
+
+    const unreachable = checked.filter(l => !l.broken && l.error);
+    if (unreachable.length > 0) {
+      findings.push({ id: 'unverified-links', message: `${unreachable.length} links could not be verified`, details: unreachable.map(describeLink), severity: 'low' });
+    }
+
+    const redirected = checked.filter(l => !l.broken && l.redirects && l.redirects.length > 0);
+    if (redirected.length > 0) {
+      findings.push({
+        id: 'redirected-links',
+        message: `${redirected.length} links redirect before reaching their target`,
+        details: redirected.map(l => `${l.url} → ${l.finalUrl} (${l.redirects!.map(r => r.status).join(' → ')})`),
+        severity: 'low',
+      });
+    }
+    if (targets.length > checked.length) {
+      findings.push({ id: 'links-truncated', message: `Only the first ${checked.length} of ${targets.length} links were checked`, severity: 'low' });
+    }
+
+    return findings;
+  },
+};
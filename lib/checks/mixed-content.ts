@@ -0,0 +1,155 @@
+import type * as cheerio from 'cheerio';
+import type { AuditCheck, FindingInput } from './types';
+
+export type MixedContentItem = {
+  url: string;
+  element: string;
+  attribute: string;
+  // Active content (scripts, styles, frames, CSS fetches) is blocked by browsers;
+  // passive content (img/video/audio) is upgraded or loaded with a warning
+  type: 'active' | 'passive';
+};
+
+type Source = {
+  selector: string;
+  attribute: string;
+  // 'inherit': <source> takes its type from the parent; media and <picture> are passive
+  type: MixedContentItem['type'] | 'inherit';
+  srcset?: boolean;
+};
+
+const SOURCES: Source[] = [
+  { selector: 'img[src]', attribute: 'src', type: 'passive' },
+  { selector: 'img[srcset]', attribute: 'srcset', type: 'passive', srcset: true },
+  { selector: 'video[src]', attribute: 'src', type: 'passive' },
+  { selector: 'video[poster]', attribute: 'poster', type: 'passive' },
+  { selector: 'audio[src]', attribute: 'src', type: 'passive' },
+  { selector: 'source[src]', attribute: 'src', type: 'inherit' },
+  { selector: 'source[srcset]', attribute: 'srcset', type: 'inherit', srcset: true },
+  { selector: 'script[src]', attribute: 'src', type: 'active' },
+  { selector: 'link[href]', attribute: 'href', type: 'active' },
+  { selector: 'iframe[src]', attribute: 'src', type: 'active' },
+  { selector: 'object[data]', attribute: 'data', type: 'active' },
+  { selector: 'embed[src]', attribute: 'src', type: 'active' },
+];
+
+// Stylesheets and preloads fetch subresources; other <link> types (canonical, alternate) do not
+const FETCHING_LINK_RELS = ['stylesheet', 'preload', 'modulepreload', 'icon', 'manifest'];
+
+// Hosts browsers treat as potentially trustworthy even over http
+const TRUSTWORTHY_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+function srcsetUrls(value: string): string[] {
+  return value
+    .split(',')
+    .map(candidate => candidate.trim().split(/\s+/)[0])
+    .filter(Boolean);
+}
+
+function cssUrls(css: string): string[] {
+  const urls: string[] = [];
+  for (const match of css.matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)/gi)) {
+    if (match[2]) urls.push(match[2]);
+  }
+  for (const match of css.matchAll(/@import\s+(['"])(.*?)\1/gi)) {
+    urls.push(match[2]);
+  }
+  return urls;
+}
+
+function isInsecure(value: string, baseUrl: string): string | null {
+  try {
+    const u = new URL(value, baseUrl);
+    if (u.protocol !== 'http:' || TRUSTWORTHY_HOSTS.includes(u.hostname)) return null;
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Find subresources an HTTPS page loads over plain HTTP
+export function analyzeMixedContent($: cheerio.CheerioAPI, pageUrl: string): MixedContentItem[] {
+  const items: MixedContentItem[] = [];
+  const seen = new Set<string>();
+  const base = $('base[href]').attr('href');
+  let baseUrl = pageUrl;
+  try {
+    if (base) baseUrl = new URL(base, pageUrl).toString();
+  } catch {}
+
+  const add = (value: string, element: string, attribute: string, type: MixedContentItem['type']) => {
+    const url = isInsecure(value, baseUrl);
+    const key = `${element}|${attribute}|${url}`;
+    if (!url || seen.has(key)) return;
+    seen.add(key);
+    items.push({ url, element, attribute, type });
+  };
+
+  for (const source of SOURCES) {
+    $(source.selector).each((i, el) => {
+      const $el = $(el);
+      const tag = String($el.prop('tagName') || '').toLowerCase();
+      if (tag === 'link') {
+        const rels = ($el.attr('rel') || '').toLowerCase().split(/\s+/);
+        if (!rels.some(rel => FETCHING_LINK_RELS.includes(rel))) return;
+      }
+
+      const value = $el.attr(source.attribute) || '';
+      const type = source.type !== 'inherit'
+        ? source.type
+        : $el.parent().is('video, audio, picture') ? 'passive' : 'active';
+      const values = source.srcset ? srcsetUrls(value) : [value];
+      for (const v of values) add(v, tag, source.attribute, type);
+    });
+  }
+
+  // Resources fetched from CSS are blockable, whatever they contain
+  $('[style]').each((i, el) => {
+    const tag = String($(el).prop('tagName') || '').toLowerCase();
+    for (const url of cssUrls($(el).attr('style') || '')) add(url, tag, 'style', 'active');
+  });
+  $('style').each((i, el) => {
+    for (const url of cssUrls($(el).text())) add(url, 'style', 'css', 'active');
+  });
+
+  return items;
+}
+
+export const mixedContentCheck: AuditCheck = {
+  id: 'mixed-content',
+  title: 'Mixed content',
+  category: 'security',
+  severity: 'high',
+  run({ $, finalUrl, result }) {
+    // Mixed content only exists on pages delivered over HTTPS
+    if (!finalUrl.startsWith('https:')) {
+      result.hasMixedContent = false;
+      return;
+    }
+
+    result.mixedContent = analyzeMixedContent($, finalUrl);
+    result.hasMixedContent = result.mixedContent.length > 0;
+
+    const findings: FindingInput[] = [];
+    const active = result.mixedContent.filter(m => m.type === 'active');
+    const passive = result.mixedContent.filter(m => m.type === 'passive');
+    if (active.length > 0) {
+      findings.push({
+        id: 'active',
+        deductionId: 'mixed-content',
+        message: `${active.length} active resources are loaded over HTTP and will be blocked by browsers`,
+        details: active.map(m => `<${m.element} ${m.attribute}> ${m.url}`),
+      });
+    }
+    if (passive.length > 0) {
+      findings.push({
+        id: 'passive',
+        deductionId: 'mixed-content',
+        message: `${passive.length} images or media are loaded over HTTP`,
+        details: passive.map(m => `<${m.element} ${m.attribute}> ${m.url}`),
+        severity: 'medium',
+      });
+    }
+    return findings;
+  },
+};
@@ -0,0 +1,183 @@
+import type { RedirectChain, RedirectHop, RedirectIssue } from '../audit';
+import { createHttpClient, describeFetchError, type HttpClient } from '../http';
+import type { AuditCheck } from './types';
+
+export type RedirectCheckOptions = {
+  timeoutMs?: number;
+  // Stop following a chain after this many hops
+  maxHops?: number;
+  // Chains with more hops than this are reported as too long
+  maxChainLength?: number;
+};
+
+export const DEFAULT_REDIRECT_CHECK_OPTIONS: Required<RedirectCheckOptions> = {
+  timeoutMs: 8000,
+  maxHops: 10,
+  maxChainLength: 2,
+};
+
+const PERMANENT_STATUSES = [301, 308];
+
+// Follow redirects one hop at a time, recording each status and Location
+export async function traceRedirects(
+  variant: RedirectChain['variant'],
+  startUrl: string,
+  options: Required<RedirectCheckOptions>,
+  http: HttpClient = createHttpClient(),
+): Promise<RedirectChain> {
+  const hops: RedirectHop[] = [];
+  let current = startUrl;
+
+  try {
+    for (let i = 0; i <= options.maxHops; i++) {
+      const res = await http.fetch(current, { redirect: 'manual', timeoutMs: options.timeoutMs });
+      await res.body?.cancel().catch(() => {});
+
+      const location = res.headers.get('location');
+      if (res.status < 300 || res.status >= 400 || !location) {
+        return { variant, startUrl, hops, finalUrl: current, finalStatus: res.status, loop: false };
+      }
+
+      const next = new URL(location, current).toString();
+      hops.push({ url: current, status: res.status, location: next });
+      if (next === startUrl || hops.some(h => h.url === next)) {
+        return { variant, startUrl, hops, finalUrl: next, loop: true };
+      }
+      current = next;
+    }
+    return { variant, startUrl, hops, finalUrl: current, loop: false, error: `Gave up after ${options.maxHops} redirects` };
+  } catch (err) {
+    return { variant, startUrl, hops, finalUrl: current, loop: false, error: describeFetchError(err) };
+  }
+}
+
+// The URL variants visitors and crawlers commonly reach a page by
+function buildVariants(url: string): Array<{ variant: RedirectChain['variant']; url: string }> {
+  const parsed = new URL(url);
+  const variants: Array<{ variant: RedirectChain['variant']; url: string }> = [{ variant: 'requested', url: parsed.toString() }];
+
+  const alternate = new URL(parsed);
+  alternate.protocol = parsed.protocol === 'https:' ? 'http:' : 'https:';
+  variants.push({ variant: alternate.protocol === 'http:' ? 'http' : 'https', url: alternate.toString() });
+
+  const otherHost = parsed.hostname.startsWith('www.')
+    ? parsed.hostname.replace(/^www\./, '')
+    : `www.${parsed.hostname}`;
+  for (const protocol of ['https:', 'http:']) {
+    const v = new URL(parsed);
+    v.protocol = protocol;
+    v.hostname = otherHost;
+    variants.push({ variant: otherHost.startsWith('www.') ? 'www' : 'non-www', url: v.toString() });
+  }
+
+  if (parsed.pathname !== '/') {
+    const slash = new URL(parsed);
+    slash.pathname = parsed.pathname.endsWith('/') ? parsed.pathname.slice(0, -1) : `${parsed.pathname}/`;
+    variants.push({ variant: 'trailing-slash', url: slash.toString() });
+  }
+
+  return variants;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+// Turn traced chains into redirect issues, measured against where the requested URL lands
+export function analyzeRedirectChains(chains: RedirectChain[], maxChainLength: number): RedirectIssue[] {
+  const issues: RedirectIssue[] = [];
+  const requested = chains.find(c => c.variant === 'requested');
+  const canonical = requested && !requested.error && !requested.loop ? requested.finalUrl : null;
+  const servesHttps = chains.some(c => c.finalUrl.startsWith('https:') && (c.finalStatus ?? 500) < 400);
+
+  for (const chain of chains) {
+    // an unreachable variant (e.g. no www DNS record) is not a redirect problem
+    if (chain.error && chain.hops.length === 0) continue;
+
+    if (chain.loop) {
+      issues.push({ type: 'loop', url: chain.startUrl, message: `Redirect loop starting at ${chain.startUrl}` });
+      continue;
+    }
+
+    if (chain.hops.length > maxChainLength) {
+      issues.push({
+        type: 'chain-too-long',
+        url: chain.startUrl,
+        message: `${chain.startUrl} takes ${chain.hops.length} redirects to reach ${chain.finalUrl}`,
+      });
+    }
+
+    const temporary = chain.hops.filter(h => !PERMANENT_STATUSES.includes(h.status));
+    if (temporary.length > 0) {
+      issues.push({
+        type: 'temporary',
+        url: chain.startUrl,
+        message: `${chain.startUrl} uses ${temporary.map(h => h.status).join(', ')} where a permanent 301 is expected`,
+      });
+    }
+
+    if (servesHttps && chain.startUrl.startsWith('http:') && chain.finalUrl.startsWith('http:')) {
+      issues.push({ type: 'http-https', url: chain.startUrl, message: `${chain.startUrl} is served over HTTP and never upgrades to HTTPS` });
+    }
+
+    if (!canonical || chain.variant === 'requested') continue;
+
+    if (chain.variant === 'trailing-slash') {
+      if (chain.hops.length === 0 && chain.finalStatus === 200 && chain.finalUrl !== canonical) {
+        issues.push({
+          type: 'trailing-slash',
+          url: chain.startUrl,
+          message: `${chain.startUrl} and ${canonical} both return 200; one should redirect to the other`,
+        });
+      }
+    } else if ((chain.finalStatus ?? 0) < 400 && hostOf(chain.finalUrl) !== hostOf(canonical)) {
+      issues.push({
+        type: chain.variant === 'www' || chain.variant === 'non-www' ? chain.variant : 'inconsistent-host',
+        url: chain.startUrl,
+        message: `${chain.startUrl} lands on ${hostOf(chain.finalUrl)} instead of ${hostOf(canonical)}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export async function checkRedirects(
+  url: string,
+  options: RedirectCheckOptions = {},
+  http: HttpClient = createHttpClient(),
+): Promise<{ chains: RedirectChain[]; issues: RedirectIssue[] }> {
+  const resolved = { ...DEFAULT_REDIRECT_CHECK_OPTIONS, ...options };
+  let variants: ReturnType<typeof buildVariants>;
+  try {
+    variants = buildVariants(url);
+  } catch {
+    return { chains: [], issues: [] };
+  }
+
+  const chains = await Promise.all(variants.map(v => traceRedirects(v.variant, v.url, resolved, http)));
+  return { chains, issues: analyzeRedirectChains(chains, resolved.maxChainLength) };
+}
+
+export const redirectsCheck: AuditCheck = {
+  id: 'redirects',
+  title: 'Redirect consistency',
+  category: 'seo',
+  severity: 'medium',
+  scope: 'site',
+  async run({ url, result, options, http }) {
+    const { chains, issues } = await checkRedirects(url, options.redirects, http);
+    result.redirectChains = chains;
+    result.redirects = issues;
+    return issues.map(r => ({
+      id: r.type,
+      deductionId: 'redirect-issues',
+      message: r.message,
+      severity: r.type === 'loop' || r.type === 'http-https' ? 'high' : undefined,
+    }));
+  },
+};
@@ -0,0 +1,135 @@
+import { remediationFor } from '../remediation';
+import { accessibilityCheck } from './accessibility';
+import { crawlabilityCheck } from './crawlability';
+import { imageAltCheck, imageOptimizationCheck } from './images';
+import { brokenLinksCheck } from './links';
+import { mixedContentCheck } from './mixed-content';
+import { redirectsCheck } from './redirects';
+import { securityHeadersCheck } from './security-headers';
+import { seoCheck } from './seo';
+import type { AuditCheck, CheckContext, CheckError, CheckFinding, CheckOutcome, CheckRunHooks, CheckSelection, FindingInput } from './types';
+import { viewportCheck } from './viewport';
+
+// Checks run in registration order
+const checks = new Map<string, AuditCheck>();
+const builtinIds = new Set<string>();
+
+export function registerCheck(check: AuditCheck): void {
+  if (checks.has(check.id)) {
+    throw new Error(`A check with id "${check.id}" is already registered`);
+  }
+  checks.set(check.id, check);
+}
+
+export function unregisterCheck(id: string): boolean {
+  builtinIds.delete(id);
+  return checks.delete(id);
+}
+
+export function getCheck(id: string): AuditCheck | undefined {
+  return checks.get(id);
+}
+
+export function listChecks(): AuditCheck[] {
+  return [...checks.values()];
+}
+
+export function isBuiltinCheck(id: string): boolean {
+  return builtinIds.has(id);
+}
+
+// Resolve which registered checks an audit should run
+export function selectChecks(selection: CheckSelection = {}, includeSiteChecks = true): AuditCheck[] {
+  const enabled = selection.enable?.length ? new Set(selection.enable) : null;
+  const disabled = new Set(selection.disable ?? []);
+
+  return listChecks().filter(check => {
+    if (enabled && !enabled.has(check.id)) return false;
+    if (disabled.has(check.id)) return false;
+    if (!includeSiteChecks && check.scope === 'site') return false;
+    return true;
+  });
+}
+
+// Fill in what the check left out; custom checks without problem ids are scored as `check:<id>`
+function toFinding(check: AuditCheck, input: FindingInput, usedIds: Set<string>): CheckFinding {
+  const base = `${check.id}:${input.id ?? 'finding'}`;
+  let id = base;
+  for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+  usedIds.add(id);
+
+  const deductionId = input.deductionId ?? (isBuiltinCheck(check.id) ? input.id : undefined) ?? `check:${check.id}`;
+  const known = remediationFor(input.id, deductionId);
+  return {
+    id,
+    checkId: check.id,
+    category: check.category,
+    severity: input.severity ?? check.severity,
+    message: input.message,
+    details: input.details,
+    deductionId,
+    impact: 0,
+    effort: input.effort ?? check.effort ?? known.effort,
+    remediation: input.remediation ?? check.remediation ?? known.remediation,
+    snippets: input.snippets ?? (input.remediation || check.remediation ? undefined : known.snippets),
+  };
+}
+
+class CheckTimeoutError extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined): Promise<T> {
+  if (!timeoutMs) return promise;
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new CheckTimeoutError(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Run checks one after another; a failing or timed-out check is recorded and does not stop the audit.
+// A timed-out check isn't cancelled, so it may still fill in its result fields later.
+export async function runChecks(
+  ctx: CheckContext,
+  selected: AuditCheck[],
+  hooks: CheckRunHooks = {},
+): Promise<{ findings: CheckFinding[]; errors: CheckError[] }> {
+  const findings: CheckFinding[] = [];
+  const errors: CheckError[] = [];
+  const usedIds = new Set<string>();
+
+  for (const check of selected) {
+    hooks.onStart?.(check);
+    const start = Date.now();
+    let outcome: CheckOutcome;
+    try {
+      const output = (await withTimeout(Promise.resolve(check.run(ctx)), hooks.timeoutMs)) ?? [];
+      const checkFindings = output.map(finding => toFinding(check, finding, usedIds));
+      findings.push(...checkFindings);
+      outcome = { status: 'done', durationMs: Date.now() - start, findings: checkFindings };
+    } catch (err) {
+      const timedOut = err instanceof CheckTimeoutError;
+      const message = err instanceof Error ? err.message : String(err);
+      errors.push(timedOut ? { checkId: check.id, message, timedOut } : { checkId: check.id, message });
+      outcome = { status: timedOut ? 'timed-out' : 'failed', durationMs: Date.now() - start, findings: [], error: message };
+    }
+    hooks.onFinish?.(check, outcome);
+  }
+
+  return { findings, errors };
+}
+
+for (const check of [
+  viewportCheck,
+  mixedContentCheck,
+  securityHeadersCheck,
+  imageAltCheck,
+  imageOptimizationCheck,
+  accessibilityCheck,
+  brokenLinksCheck,
+  seoCheck,
+  crawlabilityCheck,
+  redirectsCheck,
+]) {
+  registerCheck(check);
+  builtinIds.add(check.id);
+}
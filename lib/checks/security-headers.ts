@@ -0,0 +1,246 @@
+import type { AuditCheck, CheckSeverity, FindingInput } from './types';
+
+export type HeaderGrade = 'pass' | 'warn' | 'fail';
+
+export type SecurityHeaderResult = {
+  header: string;
+  value: string | null;
+  status: HeaderGrade;
+  message: string;
+};
+
+// One year, the minimum the HSTS preload list accepts
+const HSTS_RECOMMENDED_MAX_AGE = 31536000;
+
+// Severity of the finding raised when a header fails (warnings are always 'low')
+const FAIL_SEVERITY: Record<string, CheckSeverity> = {
+  'content-security-policy': 'high',
+  'x-frame-options': 'medium',
+  'x-content-type-options': 'medium',
+  'strict-transport-security': 'high',
+};
+
+type Csp = Map<string, string[]>;
+
+function parseCsp(value: string): Csp {
+  const directives: Csp = new Map();
+  for (const part of value.split(';')) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    // the first occurrence of a directive wins, later duplicates are ignored by browsers
+    if (name && !directives.has(name.toLowerCase())) {
+      directives.set(name.toLowerCase(), sources.map(s => s.toLowerCase()));
+    }
+  }
+  return directives;
+}
+
+// Several policies (in one header, or several headers, which Headers.get joins with ", ")
+// are each enforced, so a resource has to get past all of them
+function parseCspPolicies(value: string): Csp[] {
+  const policies = value.split(',').map(parseCsp).filter(csp => csp.size > 0);
+  return policies.length > 0 ? policies : [new Map()];
+}
+
+// What leaves scripts unrestricted in one policy, keyed so policies can be compared
+function cspWeaknesses(csp: Csp): Map<string, string> {
+  const weaknesses = new Map<string, string>();
+  const scriptSources = csp.get('script-src') ?? csp.get('default-src');
+
+  if (!scriptSources) {
+    weaknesses.set('no-script-src', 'no script-src or default-src, so scripts are unrestricted');
+  } else {
+    const hasNonceOrHash = scriptSources.some(s => /^'(nonce|sha256|sha384|sha512)-/.test(s));
+    if (scriptSources.includes("'unsafe-inline'") && !hasNonceOrHash) {
+      weaknesses.set('unsafe-inline', "'unsafe-inline' allows inline scripts");
+    }
+    if (scriptSources.includes("'unsafe-eval'")) {
+      weaknesses.set('unsafe-eval', "'unsafe-eval' allows eval()");
+    }
+  }
+
+  for (const directive of ['default-src', 'script-src', 'object-src']) {
+    const sources = csp.get(directive) ?? [];
+    const wildcards = sources.filter(s => s === '*' || s === 'http:' || s === 'https:' || s === 'data:');
+    if (wildcards.length > 0) {
+      weaknesses.set(`${directive}-wildcard`, `${directive} allows any source via ${wildcards.join(' ')}`);
+    }
+  }
+  return weaknesses;
+}
+
+function gradeCsp(headers: Headers): SecurityHeaderResult {
+  const header = 'content-security-policy';
+  const value = headers.get(header);
+
+  if (!value) {
+    const reportOnly = headers.get('content-security-policy-report-only');
+    return reportOnly
+      ? { header, value: reportOnly, status: 'warn', message: 'Only a report-only policy is set; nothing is enforced' }
+      : { header, value: null, status: 'fail', message: 'No Content-Security-Policy; injected scripts run unrestricted' };
+  }
+
+  // a weakness only counts when every policy has it; one that closes it is enough
+  const [first, ...rest] = parseCspPolicies(value).map(cspWeaknesses);
+  const problems = [...first].filter(([key]) => rest.every(w => w.has(key))).map(([, message]) => message);
+
+  if (problems.length > 0) {
+    return { header, value, status: 'warn', message: `Policy is weakened: ${problems.join('; ')}` };
+  }
+  return { header, value, status: 'pass', message: 'Policy restricts script sources' };
+}
+
+function gradeFraming(headers: Headers): SecurityHeaderResult {
+  const header = 'x-frame-options';
+  const value = headers.get(header);
+  // any one policy that restricts framing is enforced
+  const declared = parseCspPolicies(headers.get('content-security-policy') ?? '')
+    .map(csp => csp.get('frame-ancestors'))
+    .filter(sources => sources !== undefined);
+  const frameAncestors = declared.find(sources => !sources.includes('*')) ?? declared[0];
+
+  if (frameAncestors) {
+    if (frameAncestors.includes('*')) {
+      return { header, value, status: 'fail', message: 'CSP frame-ancestors allows any site to frame the page' };
+    }
+    return { header, value, status: 'pass', message: `Framing restricted by CSP frame-ancestors ${frameAncestors.join(' ')}` };
+  }
+
+  const mode = value?.trim().toUpperCase();
+  if (mode === 'DENY' || mode === 'SAMEORIGIN') {
+    return { header, value, status: 'pass', message: `Framing restricted (${mode})` };
+  }
+  if (mode?.startsWith('ALLOW-FROM')) {
+    return { header, value, status: 'warn', message: 'ALLOW-FROM is ignored by modern browsers; use CSP frame-ancestors' };
+  }
+  return {
+    header,
+    value,
+    status: 'fail',
+    message: value ? `Unrecognised value "${value}"` : 'No X-Frame-Options or frame-ancestors; the page can be framed (clickjacking)',
+  };
+}
+
+function gradeContentTypeOptions(headers: Headers): SecurityHeaderResult {
+  const header = 'x-content-type-options';
+  const value = headers.get(header);
+  if (value?.trim().toLowerCase() === 'nosniff') {
+    return { header, value, status: 'pass', message: 'MIME sniffing disabled' };
+  }
+  return { header, value, status: 'fail', message: 'Missing "nosniff"; browsers may MIME-sniff responses' };
+}
+
+function gradeReferrerPolicy(headers: Headers): SecurityHeaderResult {
+  const header = 'referrer-policy';
+  const value = headers.get(header);
+  if (!value) {
+    return { header, value, status: 'warn', message: 'Not set; relies on the browser default' };
+  }
+
+  // with a comma-separated list, the last policy the browser understands applies
+  const policy = value.split(',').map(p => p.trim().toLowerCase()).filter(Boolean).pop() ?? '';
+  if (policy === 'unsafe-url' || policy === 'no-referrer-when-downgrade') {
+    return { header, value, status: 'warn', message: `"${policy}" leaks full URLs to other origins` };
+  }
+  return { header, value, status: 'pass', message: `Referrer policy is "${policy}"` };
+}
+
+function gradePermissionsPolicy(headers: Headers): SecurityHeaderResult {
+  const header = 'permissions-policy';
+  const value = headers.get(header);
+  if (!value) {
+    return headers.get('feature-policy')
+      ? { header, value, status: 'warn', message: 'Only the deprecated Feature-Policy header is set' }
+      : { header, value, status: 'warn', message: 'Not set; powerful features are available to embedded content by default' };
+  }
+
+  const open = ['camera', 'microphone', 'geolocation', 'payment', 'usb']
+    .filter(feature => new RegExp(`(^|,)\\s*${feature}=\\*`, 'i').test(value));
+  if (open.length > 0) {
+    return { header, value, status: 'warn', message: `Grants ${open.join(', ')} to every origin` };
+  }
+  return { header, value, status: 'pass', message: 'Browser features are restricted' };
+}
+
+function gradeIsolationHeader(
+  headers: Headers,
+  header: string,
+  good: string[],
+  missing: string,
+): SecurityHeaderResult {
+  const value = headers.get(header);
+  const mode = value?.split(';')[0].trim().toLowerCase();
+  if (mode && good.includes(mode)) {
+    return { header, value, status: 'pass', message: `Set to "${mode}"` };
+  }
+  return { header, value, status: 'warn', message: value ? `"${mode}" does not isolate the page` : missing };
+}
+
+function gradeHsts(headers: Headers, isHttps: boolean): SecurityHeaderResult {
+  const header = 'strict-transport-security';
+  const value = headers.get(header);
+
+  if (!isHttps) {
+    return { header, value, status: 'fail', message: 'Page is not served over HTTPS, so HSTS cannot apply' };
+  }
+  if (!value) {
+    return { header, value, status: 'fail', message: 'No HSTS; first visits can be downgraded to HTTP' };
+  }
+
+  const directives = value.split(';').map(d => d.trim().toLowerCase());
+  const maxAge = Number(directives.find(d => d.startsWith('max-age='))?.slice('max-age='.length).replace(/"/g, ''));
+  const includeSubDomains = directives.includes('includesubdomains');
+  const preload = directives.includes('preload');
+
+  if (!Number.isFinite(maxAge) || maxAge <= 0) {
+    return { header, value, status: 'fail', message: 'max-age is missing or 0, which disables HSTS' };
+  }
+
+  const problems: string[] = [];
+  if (maxAge < HSTS_RECOMMENDED_MAX_AGE) problems.push(`max-age ${maxAge}s is under one year`);
+  if (!includeSubDomains) problems.push('includeSubDomains is missing');
+  if (problems.length > 0) {
+    return { header, value, status: 'warn', message: problems.join('; ') };
+  }
+  return {
+    header,
+    value,
+    status: 'pass',
+    message: preload ? 'One year or more, includeSubDomains and preload' : 'One year or more with includeSubDomains (not marked for preload)',
+  };
+}
+
+export function analyzeSecurityHeaders(headers: Headers, isHttps: boolean): SecurityHeaderResult[] {
+  return [
+    gradeCsp(headers),
+    gradeFraming(headers),
+    gradeContentTypeOptions(headers),
+    gradeReferrerPolicy(headers),
+    gradePermissionsPolicy(headers),
+    gradeIsolationHeader(headers, 'cross-origin-opener-policy', ['same-origin', 'same-origin-allow-popups'], 'Not set; other windows can keep a reference to this page'),
+    gradeIsolationHeader(headers, 'cross-origin-embedder-policy', ['require-corp', 'credentialless'], 'Not set; the page cannot be cross-origin isolated'),
+    gradeIsolationHeader(headers, 'cross-origin-resource-policy', ['same-origin', 'same-site'], 'Not set; other origins can embed this resource'),
+    gradeHsts(headers, isHttps),
+  ];
+}
+
+export const securityHeadersCheck: AuditCheck = {
+  id: 'security-headers',
+  title: 'Security headers',
+  category: 'security',
+  severity: 'low',
+  run({ response, result }) {
+    result.securityHeaders = analyzeSecurityHeaders(response.headers, !!result.isHttps);
+
+    const findings: FindingInput[] = [];
+    for (const h of result.securityHeaders) {
+      if (h.status === 'pass') continue;
+      findings.push({
+        id: h.header,
+        deductionId: `header:${h.header}`,
+        message: `${h.header}: ${h.message}`,
+        severity: h.status === 'fail' ? FAIL_SEVERITY[h.header] ?? 'medium' : 'low',
+      });
+    }
+    return findings;
+  },
+};
@@ -0,0 +1,346 @@
+import type * as cheerio from 'cheerio';
+import type { AuditCheck, CheckSeverity } from './types';
+
+export type SeoIssue = {
+  id: string;
+  severity: CheckSeverity;
+  message: string;
+};
+
+export type LengthCheck = {
+  value?: string;
+  length: number;
+  // Recommended range in characters
+  min: number;
+  max: number;
+  status: 'pass' | 'warn' | 'fail';
+};
+
+export type CanonicalInfo = {
+  href?: string;
+  // Resolved against the page URL
+  url?: string;
+  absolute: boolean;
+  selfReferencing: boolean;
+  count: number;
+};
+
+export type RobotsDirectives = {
+  meta?: string;
+  header?: string;
+  noindex: boolean;
+  nofollow: boolean;
+};
+
+export type HreflangLink = {
+  lang: string;
+  href: string;
+};
+
+export type SocialTags = {
+  present: Record<string, string>;
+  missing: string[];
+};
+
+export type StructuredDataItem = {
+  types: string[];
+  valid: boolean;
+  error?: string;
+};
+
+export type SeoReport = {
+  title: LengthCheck;
+  metaDescription: LengthCheck;
+  canonical: CanonicalInfo;
+  robots: RobotsDirectives;
+  hreflang: HreflangLink[];
+  openGraph: SocialTags;
+  twitterCard: SocialTags;
+  structuredData: StructuredDataItem[];
+  issues: SeoIssue[];
+};
+
+// Roughly what search results show before truncating
+const TITLE_RANGE = { min: 30, max: 60 };
+const DESCRIPTION_RANGE = { min: 70, max: 160 };
+
+const OPEN_GRAPH_REQUIRED = ['og:title', 'og:type', 'og:image', 'og:url'];
+const OPEN_GRAPH_RECOMMENDED = ['og:description', 'og:site_name'];
+
+// Twitter falls back to the Open Graph equivalent when its own tag is missing
+const TWITTER_FALLBACKS: Record<string, string> = {
+  'twitter:title': 'og:title',
+  'twitter:description': 'og:description',
+  'twitter:image': 'og:image',
+};
+const TWITTER_CARD_TYPES = ['summary', 'summary_large_image', 'app', 'player'];
+
+// BCP 47 language with optional script and region, as hreflang expects
+const HREFLANG_PATTERN = /^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?$/i;
+
+// schema.org type names are PascalCase words
+const SCHEMA_TYPE_PATTERN = /^(https?:\/\/schema\.org\/)?[A-Z][A-Za-z0-9]+$/;
+
+function checkLength(value: string | undefined, range: { min: number; max: number }): LengthCheck {
+  const length = value?.length ?? 0;
+  const status = length === 0 ? 'fail' : length < range.min || length > range.max ? 'warn' : 'pass';
+  return { value, length, ...range, status };
+}
+
+// Compare URLs the way search engines would when matching a canonical
+function sameUrl(a: string, b: string): boolean {
+  try {
+    const ua = new URL(a);
+    const ub = new URL(b);
+    ua.hash = '';
+    ub.hash = '';
+    const strip = (u: URL) => u.toString().replace(/\/$/, '');
+    return strip(ua) === strip(ub);
+  } catch {
+    return false;
+  }
+}
+
+function resolve(href: string, base: string): string {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return href;
+  }
+}
+
+function parseRobotsDirectives(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.toLowerCase().split(',').map(d => d.trim()).filter(Boolean);
+}
+
+// Directives that take a value, so "name: value" is not a crawler prefix
+const VALUED_DIRECTIVES = ['unavailable_after', 'max-snippet', 'max-image-preview', 'max-video-preview'];
+
+// X-Robots-Tag may scope directives to a crawler ("googlebot: noindex"); keep the
+// unscoped ones and those aimed at Googlebot
+function headerDirectives(header: string | undefined): string[] {
+  if (!header) return [];
+  const directives: string[] = [];
+  let agent: string | null = null;
+  for (let part of header.split(',')) {
+    const scoped = part.match(/^\s*([a-z][\w-]*)\s*:\s*(.*)$/i);
+    if (scoped && !VALUED_DIRECTIVES.includes(scoped[1].toLowerCase())) {
+      agent = scoped[1].toLowerCase();
+      part = scoped[2];
+    }
+    if (!agent || agent === 'googlebot') directives.push(...parseRobotsDirectives(part));
+  }
+  return directives;
+}
+
+function analyzeCanonical($: cheerio.CheerioAPI, pageUrl: string, issues: SeoIssue[]): CanonicalInfo {
+  const links = $('link[rel="canonical" i]');
+  const href = links.first().attr('href')?.trim();
+  const info: CanonicalInfo = { href, absolute: false, selfReferencing: false, count: links.length };
+
+  if (!href) {
+    issues.push({ id: 'canonical-missing', severity: 'medium', message: 'No canonical link; duplicate URLs may be indexed separately' });
+    return info;
+  }
+  if (links.length > 1) {
+    issues.push({ id: 'canonical-multiple', severity: 'high', message: `${links.length} canonical links; search engines may ignore all of them` });
+  }
+
+  info.absolute = /^https?:\/\//i.test(href);
+  try {
+    info.url = new URL(href, pageUrl).toString();
+  } catch {
+    issues.push({ id: 'canonical-invalid', severity: 'high', message: `Canonical link "${href}" is not a valid URL` });
+    return info;
+  }
+
+  if (!info.absolute) {
+    issues.push({ id: 'canonical-relative', severity: 'low', message: `Canonical link "${href}" is relative; use an absolute URL` });
+  }
+  info.selfReferencing = sameUrl(info.url, pageUrl);
+  if (!info.selfReferencing) {
+    issues.push({ id: 'canonical-other', severity: 'low', message: `Canonical points to ${info.url}, so this page will not be indexed itself` });
+  }
+  return info;
+}
+
+function analyzeHreflang($: cheerio.CheerioAPI, pageUrl: string, issues: SeoIssue[]): HreflangLink[] {
+  const links: HreflangLink[] = [];
+  $('link[rel="alternate" i][hreflang]').each((i, el) => {
+    links.push({ lang: ($(el).attr('hreflang') || '').trim(), href: ($(el).attr('href') || '').trim() });
+  });
+  if (links.length === 0) return links;
+
+  const invalid = links.filter(l => l.lang.toLowerCase() !== 'x-default' && !HREFLANG_PATTERN.test(l.lang));
+  if (invalid.length > 0) {
+    issues.push({ id: 'hreflang-invalid', severity: 'medium', message: `Invalid hreflang codes: ${invalid.map(l => l.lang || '(empty)').join(', ')}` });
+  }
+
+  const seen = new Map<string, string>();
+  const conflicting = new Set<string>();
+  for (const l of links) {
+    const lang = l.lang.toLowerCase();
+    const previous = seen.get(lang);
+    if (previous !== undefined && previous !== l.href) conflicting.add(l.lang);
+    seen.set(lang, l.href);
+  }
+  if (conflicting.size > 0) {
+    issues.push({ id: 'hreflang-conflict', severity: 'medium', message: `hreflang codes point to more than one URL: ${[...conflicting].join(', ')}` });
+  }
+
+  const relative = links.filter(l => !/^https?:\/\//i.test(l.href));
+  if (relative.length > 0) {
+    issues.push({ id: 'hreflang-relative', severity: 'low', message: `${relative.length} hreflang links use relative or empty URLs` });
+  }
+
+  // Each language version must list itself among its alternates
+  if (!links.some(l => sameUrl(resolve(l.href, pageUrl), pageUrl))) {
+    issues.push({ id: 'hreflang-no-self', severity: 'medium', message: 'hreflang annotations do not include this page itself' });
+  }
+  if (!seen.has('x-default')) {
+    issues.push({ id: 'hreflang-no-default', severity: 'low', message: 'hreflang annotations have no x-default entry' });
+  }
+  return links;
+}
+
+function metaContent($: cheerio.CheerioAPI, key: string): string | undefined {
+  // Open Graph uses property=, Twitter uses name=, and sites mix them up
+  const value = $(`meta[property="${key}"], meta[name="${key}"]`).first().attr('content')?.trim();
+  return value || undefined;
+}
+
+function analyzeSocial($: cheerio.CheerioAPI, issues: SeoIssue[]): { openGraph: SocialTags; twitterCard: SocialTags } {
+  const openGraph: SocialTags = { present: {}, missing: [] };
+  for (const key of [...OPEN_GRAPH_REQUIRED, ...OPEN_GRAPH_RECOMMENDED]) {
+    const value = metaContent($, key);
+    if (value) openGraph.present[key] = value;
+    else openGraph.missing.push(key);
+  }
+  const missingRequired = openGraph.missing.filter(k => OPEN_GRAPH_REQUIRED.includes(k));
+  if (missingRequired.length > 0) {
+    issues.push({ id: 'open-graph-incomplete', severity: 'low', message: `Open Graph tags missing: ${missingRequired.join(', ')}` });
+  }
+
+  const twitterCard: SocialTags = { present: {}, missing: [] };
+  const card = metaContent($, 'twitter:card');
+  if (card) twitterCard.present['twitter:card'] = card;
+  else twitterCard.missing.push('twitter:card');
+  for (const [key, fallback] of Object.entries(TWITTER_FALLBACKS)) {
+    const value = metaContent($, key) ?? openGraph.present[fallback];
+    if (value) twitterCard.present[key] = value;
+    else twitterCard.missing.push(key);
+  }
+
+  if (card && !TWITTER_CARD_TYPES.includes(card)) {
+    issues.push({ id: 'twitter-card-invalid', severity: 'low', message: `twitter:card "${card}" is not a known card type` });
+  }
+  if (twitterCard.missing.length > 0) {
+    issues.push({ id: 'twitter-card-incomplete', severity: 'low', message: `Twitter Card tags missing: ${twitterCard.missing.join(', ')}` });
+  }
+  return { openGraph, twitterCard };
+}
+
+function collectTypes(node: unknown, types: string[]): boolean {
+  if (Array.isArray(node)) return node.every(n => collectTypes(n, types));
+  if (!node || typeof node !== 'object') return false;
+
+  const obj = node as Record<string, unknown>;
+  if (Array.isArray(obj['@graph'])) return collectTypes(obj['@graph'], types);
+
+  const type = obj['@type'];
+  const list = Array.isArray(type) ? type : [type];
+  if (list.length === 0 || !list.every(t => typeof t === 'string' && SCHEMA_TYPE_PATTERN.test(t))) return false;
+  types.push(...(list as string[]));
+  return true;
+}
+
+function analyzeStructuredData($: cheerio.CheerioAPI, issues: SeoIssue[]): StructuredDataItem[] {
+  const items: StructuredDataItem[] = [];
+  $('script[type="application/ld+json" i]').each((i, el) => {
+    const types: string[] = [];
+    try {
+      const data = JSON.parse($(el).text());
+      const valid = collectTypes(data, types);
+      items.push(valid ? { types, valid } : { types, valid: false, error: 'Missing or invalid @type' });
+    } catch (err) {
+      items.push({ types, valid: false, error: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  });
+
+  for (const [index, item] of items.entries()) {
+    if (!item.valid) {
+      issues.push({ id: 'structured-data-invalid', severity: 'medium', message: `JSON-LD block ${index + 1}: ${item.error}` });
+    }
+  }
+  return items;
+}
+
+export function analyzeSeo($: cheerio.CheerioAPI, pageUrl: string, headers: Headers): SeoReport {
+  const issues: SeoIssue[] = [];
+
+  const title = checkLength($('title').first().text().trim() || undefined, TITLE_RANGE);
+  if (title.status === 'warn') {
+    issues.push({
+      id: 'title-length',
+      severity: 'low',
+      message: `Title is ${title.length} characters (recommended ${title.min}–${title.max})`,
+    });
+  }
+
+  const metaDescription = checkLength($('meta[name="description" i]').attr('content')?.trim() || undefined, DESCRIPTION_RANGE);
+  if (metaDescription.status === 'warn') {
+    issues.push({
+      id: 'description-length',
+      severity: 'low',
+      message: `Meta description is ${metaDescription.length} characters (recommended ${metaDescription.min}–${metaDescription.max})`,
+    });
+  }
+
+  const canonical = analyzeCanonical($, pageUrl, issues);
+
+  const meta = $('meta[name="robots" i], meta[name="googlebot" i]')
+    .map((i, el) => $(el).attr('content') || '')
+    .get()
+    .join(', ') || undefined;
+  const header = headers.get('x-robots-tag') ?? undefined;
+  const directives = [...parseRobotsDirectives(meta), ...headerDirectives(header)];
+  const robots: RobotsDirectives = {
+    meta,
+    header,
+    noindex: directives.includes('noindex') || directives.includes('none'),
+    nofollow: directives.includes('nofollow') || directives.includes('none'),
+  };
+  if (robots.noindex) {
+    issues.push({ id: 'noindex', severity: 'high', message: `Page asks not to be indexed (${header ? 'X-Robots-Tag' : 'meta robots'})` });
+  }
+  if (robots.nofollow) {
+    issues.push({ id: 'nofollow', severity: 'medium', message: 'Page asks crawlers not to follow its links' });
+  }
+  if (robots.noindex && canonical.url && !canonical.selfReferencing) {
+    issues.push({ id: 'noindex-canonical', severity: 'medium', message: 'Page is noindex but canonicalises to another URL; these signals conflict' });
+  }
+
+  const hreflang = analyzeHreflang($, pageUrl, issues);
+  const { openGraph, twitterCard } = analyzeSocial($, issues);
+  const structuredData = analyzeStructuredData($, issues);
+
+  return { title, metaDescription, canonical, robots, hreflang, openGraph, twitterCard, structuredData, issues };
+}
+
+export const seoCheck: AuditCheck = {
+  id: 'seo',
+  title: 'On-page SEO',
+  category: 'seo',
+  severity: 'medium',
+  run({ $, finalUrl, response, result }) {
+    result.seo = analyzeSeo($, finalUrl, response.headers);
+    return result.seo.issues.map(issue => ({
+      id: issue.id,
+      // noindex is its own deduction; every other issue counts towards seo-issues
+      deductionId: issue.id === 'noindex' ? 'noindex' : 'seo-issues',
+      message: issue.message,
+      severity: issue.severity,
+    }));
+  },
+};
@@ -0,0 +1,104 @@
+import type * as cheerio from 'cheerio';
+import type { AuditOptions, AuditResult } from '../audit';
+import type { HttpClient } from '../http';
+
+export type CheckCategory = 'performance' | 'security' | 'seo' | 'accessibility';
+
+export type CheckSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export type FixEffort = 'low' | 'medium' | 'high';
+
+export type CodeSnippet = {
+  label?: string;
+  // e.g. 'html', 'http', 'nginx'
+  language: string;
+  code: string;
+};
+
+export type CheckFinding = {
+  // `${checkId}:${problem id}`, unique within one audit
+  id: string;
+  checkId: string;
+  category: CheckCategory;
+  severity: CheckSeverity;
+  message: string;
+  details?: string[];
+  // The score deduction this finding accounts for (see lib/scoring.ts)
+  deductionId: string;
+  // Overall score points expected back once fixed; set after scoring
+  impact: number;
+  effort: FixEffort;
+  remediation: string;
+  snippets?: CodeSnippet[];
+};
+
+// What a check reports; the runner fills in the check id, category and default severity,
+// and remediation from lib/remediation.ts for whatever the check leaves out
+export type FindingInput = {
+  message: string;
+  details?: string[];
+  severity?: CheckSeverity;
+  // Identifies the problem within the check, e.g. 'header:content-security-policy'
+  id?: string;
+  // The score deduction it accounts for, when not the same as `id`
+  deductionId?: string;
+  effort?: FixEffort;
+  remediation?: string;
+  snippets?: CodeSnippet[];
+};
+
+export type CheckContext = {
+  // URL as requested and the URL we ended up on after redirects
+  url: string;
+  finalUrl: string;
+  origin: string | null;
+  response: Response;
+  html: string;
+  $: cheerio.CheerioAPI;
+  // Checks may fill in the AuditResult fields they own (e.g. brokenLinks)
+  result: AuditResult;
+  options: AuditOptions;
+  // Make requests through this so they share the audit's deadline, cache and request log
+  http: HttpClient;
+};
+
+export type AuditCheck = {
+  id: string;
+  title: string;
+  category: CheckCategory;
+  severity: CheckSeverity;
+  // 'site' checks look at the whole origin and only run once per crawl
+  scope?: 'page' | 'site';
+  // Defaults for findings that don't carry their own (mainly for custom checks)
+  remediation?: string;
+  effort?: FixEffort;
+  run: (ctx: CheckContext) => Promise<FindingInput[] | void> | FindingInput[] | void;
+};
+
+export type CheckSelection = {
+  // Only run these check ids (when given)
+  enable?: string[];
+  // Never run these check ids
+  disable?: string[];
+};
+
+export type CheckError = {
+  checkId: string;
+  message: string;
+  // The check was abandoned after the audit's check timeout
+  timedOut?: boolean;
+};
+
+export type CheckOutcome = {
+  status: 'done' | 'failed' | 'timed-out';
+  durationMs: number;
+  findings: CheckFinding[];
+  error?: string;
+};
+
+export type CheckRunHooks = {
+  // Give up on a check that runs longer than this
+  timeoutMs?: number;
+  onStart?: (check: AuditCheck) => void;
+  onFinish?: (check: AuditCheck, outcome: CheckOutcome) => void;
+};
@@ -0,0 +1,21 @@
+import type { AuditCheck } from './types';
+
+// Check for viewport meta tag (mobile responsiveness)
+export function checkViewportMeta(html: string): boolean {
+  return /<meta[^>]+name=["']?viewport["']?/i.test(html);
+}
+
+export const viewportCheck: AuditCheck = {
+  id: 'viewport',
+  title: 'Mobile viewport',
+  category: 'accessibility',
+  severity: 'high',
+  run({ html, result }) {
+    result.hasViewport = checkViewportMeta(html);
+    result.responsive = result.hasViewport;  // simplified
+
+    if (!result.hasViewport) {
+      return [{ id: 'no-viewport', message: 'Page has no viewport meta tag and will not scale on mobile devices' }];
+    }
+  },
+};
@@ -0,0 +1,147 @@
+import type { AuditResult } from './audit';
+import { SCORE_CATEGORIES, type ScoreCategory } from './scoring';
+
+export type MetricKey = 'responseTimeMs' | 'ttfbMs' | 'fcpMs' | 'lcpMs' | 'cls' | 'tbtMs' | 'transferBytes';
+
+export type MetricChange = {
+  metric: MetricKey;
+  label: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  change: 'better' | 'worse' | 'unchanged';
+};
+
+export type IssueKind = 'broken-link' | 'image' | 'redirect' | 'mixed-content' | 'accessibility' | 'seo';
+
+export type DiffIssue = {
+  kind: IssueKind;
+  // Identifies the same issue in both results
+  key: string;
+  message: string;
+};
+
+export type AuditSide = {
+  url: string;
+  id?: string;
+  createdAt?: string;
+  score: number | null;
+};
+
+export type AuditDiff = {
+  before: AuditSide;
+  after: AuditSide;
+  scoreDelta: number | null;
+  categoryDeltas: Partial<Record<ScoreCategory, { before: number; after: number; delta: number }>>;
+  metrics: MetricChange[];
+  issues: {
+    new: DiffIssue[];
+    resolved: DiffIssue[];
+    unchanged: DiffIssue[];
+  };
+};
+
+// All lower-is-better
+const METRICS: Array<{ metric: MetricKey; label: string; tolerance: number }> = [
+  { metric: 'responseTimeMs', label: 'Response time', tolerance: 50 },
+  { metric: 'ttfbMs', label: 'TTFB', tolerance: 50 },
+  { metric: 'fcpMs', label: 'FCP', tolerance: 100 },
+  { metric: 'lcpMs', label: 'LCP', tolerance: 100 },
+  { metric: 'cls', label: 'CLS', tolerance: 0.01 },
+  { metric: 'tbtMs', label: 'TBT', tolerance: 50 },
+  { metric: 'transferBytes', label: 'Transfer size', tolerance: 1024 },
+];
+
+// Same-origin URLs are keyed by path so staging and production line up
+function urlKey(url: string, result: AuditResult): string {
+  try {
+    const u = new URL(url);
+    const origin = new URL(result.finalUrl ?? result.url).origin;
+    return u.origin === origin ? `${u.pathname}${u.search}` : u.toString();
+  } catch {
+    return url;
+  }
+}
+
+export function collectIssues(result: AuditResult): DiffIssue[] {
+  const issues: DiffIssue[] = [];
+
+  for (const link of result.brokenLinks ?? []) {
+    issues.push({
+      kind: 'broken-link',
+      key: urlKey(link.url, result),
+      message: `Broken link ${link.url}${link.statusCode ? ` (${link.statusCode})` : link.error ? ` (${link.error})` : ''}`,
+    });
+  }
+  for (const image of result.imageIssues ?? []) {
+    for (const problem of image.problems) {
+      issues.push({ kind: 'image', key: `${urlKey(image.src, result)}|${problem.type}`, message: `${image.src}: ${problem.message}` });
+    }
+  }
+  for (const redirect of result.redirects ?? []) {
+    issues.push({
+      kind: 'redirect',
+      key: `${redirect.type}|${redirect.url ? urlKey(redirect.url, result) : ''}`,
+      message: redirect.message,
+    });
+  }
+  for (const item of result.mixedContent ?? []) {
+    issues.push({ kind: 'mixed-content', key: `${item.element}|${item.url}`, message: `<${item.element} ${item.attribute}> ${item.url} over HTTP` });
+  }
+  for (const finding of result.accessibility ?? []) {
+    issues.push({ kind: 'accessibility', key: `${finding.rule}|${finding.selector}`, message: `${finding.message} (${finding.selector})` });
+  }
+  for (const issue of result.seo?.issues ?? []) {
+    issues.push({ kind: 'seo', key: `${issue.id}|${issue.message}`, message: issue.message });
+  }
+
+  return issues;
+}
+
+function compareMetric(before: AuditResult, after: AuditResult, spec: (typeof METRICS)[number]): MetricChange {
+  const a = before[spec.metric] ?? null;
+  const b = after[spec.metric] ?? null;
+  if (a === null || b === null) {
+    return { metric: spec.metric, label: spec.label, before: a, after: b, delta: null, change: 'unchanged' };
+  }
+
+  const delta = Math.round((b - a) * 1000) / 1000;
+  const change = Math.abs(delta) <= spec.tolerance ? 'unchanged' : delta < 0 ? 'better' : 'worse';
+  return { metric: spec.metric, label: spec.label, before: a, after: b, delta, change };
+}
+
+function side(result: AuditResult & { id?: string; createdAt?: string }): AuditSide {
+  return { url: result.url, id: result.id, createdAt: result.createdAt, score: result.score ?? null };
+}
+
+// Compare two page audits: `before` is the baseline (older run, or production)
+export function diffAudits(
+  before: AuditResult & { id?: string; createdAt?: string },
+  after: AuditResult & { id?: string; createdAt?: string },
+): AuditDiff {
+  const categoryDeltas: AuditDiff['categoryDeltas'] = {};
+  for (const category of SCORE_CATEGORIES) {
+    const a = before.categoryScores?.[category];
+    const b = after.categoryScores?.[category];
+    if (a !== undefined && b !== undefined) categoryDeltas[category] = { before: a, after: b, delta: b - a };
+  }
+
+  const beforeIssues = collectIssues(before);
+  const afterIssues = collectIssues(after);
+  const keyOf = (i: DiffIssue) => `${i.kind}|${i.key}`;
+  const beforeKeys = new Set(beforeIssues.map(keyOf));
+  const afterKeys = new Set(afterIssues.map(keyOf));
+
+  return {
+    before: side(before),
+    after: side(after),
+    scoreDelta: before.score !== undefined && after.score !== undefined ? after.score - before.score : null,
+    categoryDeltas,
+    metrics: METRICS.map(spec => compareMetric(before, after, spec)),
+    issues: {
+      new: afterIssues.filter(i => !beforeKeys.has(keyOf(i))),
+      resolved: beforeIssues.filter(i => !afterKeys.has(keyOf(i))),
+      unchanged: afterIssues.filter(i => beforeKeys.has(keyOf(i))),
+    },
+  };
+}
@@ -0,0 +1,254 @@
+import { auditPage, emptyAuditResult, type AuditOptions, type AuditResult } from './audit';
+import { createLinkCache } from './checks';
+import { openFixture, resolveFixtureOptions } from './fixtures';
+import { createHttpClient, describeFetchError, type HttpClient } from './http';
+import { fetchRobots, isAllowedByRobots, robotsProductToken, type RobotsTxt } from './robots';
+import { createSitemapCache, loadSitemaps, sitemapLocations } from './sitemap';
+
+type CrawlLimits = {
+  maxPages: number;
+  maxDepth: number;
+  concurrency: number;
+};
+
+// Crawl limits, plus audit options passed through to every page audit
+export type CrawlOptions = Partial<CrawlLimits> & Omit<AuditOptions, 'siteChecks' | 'linkCache' | 'sitemapCache'>;
+
+export type SiteIssue = {
+  id: string;
+  title: string;
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  // Number of occurrences across the site (pages or links, depending on the issue)
+  count: number;
+  pages: string[];
+  details?: string[];
+};
+
+export type SiteAuditResult = {
+  startUrl: string;
+  origin: string | null;
+  pages: AuditResult[];
+  pagesCrawled: number;
+  // Same-origin URLs (the start URL included) that robots.txt disallows for the crawl's User-Agent
+  disallowed: string[];
+  score: number;
+  issues: SiteIssue[];
+  error: string | null;
+};
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlLimits = {
+  maxPages: 25,
+  maxDepth: 3,
+  concurrency: 3,
+};
+
+type QueueItem = {
+  url: string;
+  depth: number;
+};
+
+// Read <loc> entries from the sitemaps robots.txt lists, or the conventional locations; the
+// start page's sitemap check has usually loaded them already
+async function fetchSitemapUrls(origin: string, robots: RobotsTxt | null, options: AuditOptions, http: HttpClient): Promise<string[]> {
+  const locations = sitemapLocations(origin, robots?.sitemaps ?? []);
+  // an unreadable sitemap only means fewer seeds
+  const { urls } = await loadSitemaps(locations, options.sitemaps, http, options.sitemapCache);
+  return urls.map(u => u.loc);
+}
+
+function normalizeUrl(input: string): string | null {
+  try {
+    const u = new URL(input);
+    u.hash = '';
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+function safeOriginOf(input: string): string | null {
+  try {
+    return new URL(input).origin;
+  } catch {
+    return null;
+  }
+}
+
+// Roll per-page findings up into site-wide issues
+function buildSiteIssues(pages: AuditResult[]): SiteIssue[] {
+  const issues: SiteIssue[] = [];
+  const pageUrls = (filter: (p: AuditResult) => boolean) => pages.filter(filter).map(p => p.url);
+  // Content checks only make sense for pages that actually loaded
+  const loaded = (p: AuditResult) => !p.error && (p.status ?? 0) < 400;
+
+  const brokenByUrl = new Map<string, Set<string>>();
+  for (const page of pages) {
+    for (const link of page.brokenLinks ?? []) {
+      const key = `${link.url}${link.statusCode ? ` (${link.statusCode})` : ''}`;
+      if (!brokenByUrl.has(key)) brokenByUrl.set(key, new Set());
+      brokenByUrl.get(key)!.add(page.url);
+    }
+  }
+  if (brokenByUrl.size > 0) {
+    const linkingPages = new Set([...brokenByUrl.values()].flatMap(s => [...s]));
+    issues.push({
+      id: 'broken-links',
+      title: 'Broken links',
+      severity: 'high',
+      count: brokenByUrl.size,
+      pages: [...linkingPages],
+      details: [...brokenByUrl.entries()].map(([link, from]) => `${link} — linked from ${from.size} page(s)`),
+    });
+  }
+
+  const rollups: Array<Omit<SiteIssue, 'count' | 'pages'> & { filter: (p: AuditResult) => boolean }> = [
+    { id: 'over-budget', title: 'Pages over their performance budget', severity: 'high', filter: p => p.budget?.passed === false },
+    { id: 'failed-pages', title: 'Pages that failed to load or returned an error status', severity: 'critical', filter: p => !!p.error || (p.status ?? 0) >= 400 },
+    { id: 'mixed-content', title: 'Pages with mixed content', severity: 'high', filter: p => !!p.hasMixedContent },
+    { id: 'missing-viewport', title: 'Pages without a mobile viewport', severity: 'high', filter: p => loaded(p) && !p.hasViewport },
+    { id: 'missing-title', title: 'Pages without a title', severity: 'medium', filter: p => loaded(p) && !p.title },
+    { id: 'missing-meta-description', title: 'Pages without a meta description', severity: 'medium', filter: p => loaded(p) && !p.metaDescription },
+    { id: 'h1-count', title: 'Pages without exactly one H1', severity: 'low', filter: p => loaded(p) && p.h1Count !== 1 },
+    { id: 'missing-alt', title: 'Pages with images missing alt text', severity: 'medium', filter: p => (p.imgWithoutAlt ?? 0) > 0 },
+  ];
+
+  for (const { filter, ...issue } of rollups) {
+    const affected = pageUrls(filter);
+    if (affected.length > 0) {
+      issues.push({ ...issue, count: affected.length, pages: affected });
+    }
+  }
+
+  return issues;
+}
+
+function aggregateScore(pages: AuditResult[]): number {
+  const scored = pages.filter(p => !p.error);
+  if (scored.length === 0) return 0;
+  const total = scored.reduce((sum, p) => sum + (p.score ?? 0), 0);
+  return Math.round(total / scored.length);
+}
+
+// Crawl same-origin pages starting from startUrl and audit each one
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<SiteAuditResult> {
+  // One fixture records or replays the whole crawl
+  const fixtureOptions = options.fixtureSession ? null : resolveFixtureOptions(options.fixture);
+  if (fixtureOptions) {
+    const fixture = await openFixture(fixtureOptions);
+    try {
+      return await crawlSite(startUrl, { ...options, fixtureSession: fixture });
+    } finally {
+      await fixture.save();
+    }
+  }
+
+  const { maxPages, maxDepth, concurrency, ...auditOptions } = { ...DEFAULT_CRAWL_OPTIONS, ...options };
+
+  const site: SiteAuditResult = {
+    startUrl,
+    origin: null,
+    pages: [],
+    pagesCrawled: 0,
+    disallowed: [],
+    score: 0,
+    issues: [],
+    error: null,
+  };
+
+  const start = normalizeUrl(startUrl);
+  if (!start) {
+    site.error = 'Invalid URL';
+    return site;
+  }
+
+  // Links shared between pages are only checked once per crawl, and sitemaps only read once
+  const pageOptions = { ...auditOptions, linkCache: createLinkCache(), sitemapCache: createSitemapCache() };
+  const seen = new Set<string>([start]);
+  const queue: QueueItem[] = [];
+  let origin = safeOriginOf(start) ?? '';
+
+  // The crawl's own requests go out with the pages' User-Agent and limits; each page
+  // audit has its own client, deadline and request log. robots.txt is read by the crawl
+  // itself, whichever checks the pages run, and its rules are matched for that User-Agent's
+  // product token.
+  const http = createHttpClient(auditOptions.http, auditOptions.fixtureSession?.transport);
+  let robots: RobotsTxt | null = (await fetchRobots(origin, undefined, http)).robots;
+  const productToken = robotsProductToken(http.userAgent);
+  const allowed = (url: string) => !robots || isAllowedByRobots(robots, url, productToken);
+
+  const enqueue = (url: string, depth: number) => {
+    const normalized = normalizeUrl(url);
+    if (!normalized || seen.has(normalized) || depth > maxDepth) return;
+    if (safeOriginOf(normalized) !== origin) return;
+    seen.add(normalized);
+    if (!allowed(normalized)) {
+      site.disallowed.push(normalized);
+      return;
+    }
+    queue.push({ url: normalized, depth });
+  };
+
+  if (!allowed(start)) {
+    site.origin = origin || null;
+    site.disallowed.push(start);
+    site.error = 'robots.txt disallows the start URL';
+    return site;
+  }
+
+  // The start page is audited on its own first: it settles the origin (after redirects)
+  // and is the only page that runs the site-wide checks.
+  const first = await auditPage(start, { ...pageOptions, siteChecks: true });
+  site.pages.push(first.result);
+  if (first.result.error) {
+    site.error = first.result.error;
+    site.pagesCrawled = 1;
+    return site;
+  }
+
+  // a redirect to another origin brings that origin's robots.txt
+  const landedOrigin = safeOriginOf(first.result.finalUrl ?? start) ?? '';
+  if (landedOrigin !== origin) {
+    origin = landedOrigin;
+    robots = origin ? (await fetchRobots(origin, undefined, http)).robots : null;
+  }
+  site.origin = origin || null;
+  const landedOn = normalizeUrl(first.result.finalUrl ?? start);
+  if (landedOn) seen.add(landedOn);
+
+  // sitemap URLs seed the crawl whether or not the sitemap check ran
+  for (const link of first.links) enqueue(link, 1);
+  for (const loc of await fetchSitemapUrls(origin, robots, pageOptions, http)) enqueue(loc, 1);
+
+  let started = 1;
+  const running = new Set<Promise<void>>();
+
+  // a page that fails is recorded as failed; the rest of the crawl carries on
+  const visit = async (item: QueueItem) => {
+    try {
+      const page = await auditPage(item.url, { ...pageOptions, siteChecks: false });
+      site.pages.push(page.result);
+      for (const link of page.links) enqueue(link, item.depth + 1);
+    } catch (err) {
+      site.pages.push({ ...emptyAuditResult(item.url), error: describeFetchError(err) });
+    }
+  };
+
+  while (queue.length > 0 || running.size > 0) {
+    while (queue.length > 0 && running.size < concurrency && started < maxPages) {
+      const item = queue.shift()!;
+      started++;
+      const task: Promise<void> = visit(item).finally(() => running.delete(task));
+      running.add(task);
+    }
+    if (running.size === 0) break;
+    await Promise.race(running);
+  }
+
+  site.pagesCrawled = site.pages.length;
+  site.score = aggregateScore(site.pages);
+  site.issues = buildSiteIssues(site.pages);
+
+  return site;
+}
+
+export default crawlSite;
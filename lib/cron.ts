@@ -0,0 +1,121 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) evaluated in
+// the server's local time, plus the @hourly/@daily/@weekly/@monthly shorthands
+
+export type CronSchedule = {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // cron matches a day when either day field matches, unless one of them is `*`
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is also Sunday
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+// Search at most this far ahead for the next match (covers Feb 29 schedules)
+const MAX_LOOKAHEAD_MINUTES = 366 * 4 * 24 * 60;
+
+export class CronError extends Error {}
+
+function parseField(text: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new CronError(`Invalid ${name} field "${text}"`);
+
+    const [, range, from, to, step] = match;
+    const start = range === '*' ? min : Number(from);
+    // `5/15` means every 15 from 5 to the end of the range
+    const end = range === '*' ? max : to !== undefined ? Number(to) : step !== undefined ? max : start;
+    const increment = step !== undefined ? Number(step) : 1;
+    if (start < min || end > max || start > end || increment < 1) {
+      throw new CronError(`Invalid ${name} field "${text}" (allowed ${min}-${max})`);
+    }
+    for (let v = start; v <= end; v += increment) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTHANDS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) throw new CronError(`Expected 5 cron fields, got ${fields.length} in "${expression}"`);
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, i) => parseField(text, FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: expression.trim(),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+// The first matching minute strictly after `after`
+export function nextCronRun(schedule: CronSchedule | string, after: Date = new Date()): Date {
+  const s = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_MINUTES; ) {
+    if (!s.months.has(date.getMonth() + 1) || !matchesDay(s, date)) {
+      // skip to the start of the next day
+      const skipped = 24 * 60 - (date.getHours() * 60 + date.getMinutes());
+      date.setHours(24, 0, 0, 0);
+      i += skipped;
+      continue;
+    }
+    if (!s.hours.has(date.getHours())) {
+      i += 60 - date.getMinutes();
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (s.minutes.has(date.getMinutes())) return date;
+    date.setMinutes(date.getMinutes() + 1);
+    i++;
+  }
+  throw new CronError(`"${s.expression}" never matches`);
+}
+
+// The fewest minutes two runs can be apart, judged from the minute field: runs in the same
+// hour are as close as its two nearest minutes, runs in successive hours as close as the last
+// minute of one and the first of the next. Restricting the hours or days only spreads them out.
+export function shortestCronInterval(schedule: CronSchedule | string): number {
+  const s = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const minutes = [...s.minutes].sort((a, b) => a - b);
+  let shortest = 60 - minutes[minutes.length - 1] + minutes[0];
+  for (let i = 1; i < minutes.length; i++) shortest = Math.min(shortest, minutes[i] - minutes[i - 1]);
+  return shortest;
+}
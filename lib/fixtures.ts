@@ -0,0 +1,299 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { isTimeoutError, NETWORK_TRANSPORT, type Transport } from './http';
+
+// Fixtures hold every HTTP exchange of an audit as a HAR file. Recording runs the audit
+// against the network and writes the file; replaying answers every request from it, so
+// the audit never touches the network. Timings aren't replayed, only the exchanges.
+
+export type FixtureMode = 'record' | 'replay';
+
+export type FixtureOptions = {
+  mode: FixtureMode;
+  file: string;
+};
+
+// An open fixture; a crawl shares one across its pages
+export type Fixture = FixtureOptions & {
+  transport: Transport;
+  // Writes what was recorded (a no-op when replaying)
+  save: () => Promise<void>;
+};
+
+export class FixtureError extends Error {}
+
+// The parts of HAR 1.2 we write and read; HAR files saved by other tools replay as long as
+// their entries carry the response content
+type HarHeader = { name: string; value: string };
+
+type HarEntry = {
+  startedDateTime: string;
+  time: number;
+  request: { method: string; url: string; httpVersion: string; headers: HarHeader[]; queryString: HarHeader[]; cookies: []; headersSize: number; bodySize: number };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: { size: number; mimeType: string; text?: string; encoding?: 'base64'; comment?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  // A request that failed without a response (status 0), as browsers record it
+  _error?: string;
+  _errorCode?: string;
+};
+
+type Har = { log: { version: string; creator: { name: string; version: string }; entries: HarEntry[] } };
+
+// Bodies past this are recorded cut short; the audit itself gives up on them sooner
+const MAX_RECORDED_BODY_BYTES = 10 * 1024 * 1024;
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const TEXT_TYPES = /^text\/|[+/](json|xml|javascript|ecmascript)\b|^image\/svg/i;
+
+// AUDIT_FIXTURE_MODE=record|replay with AUDIT_FIXTURE_FILE=<path> puts every audit in that mode
+export function resolveFixtureOptions(options?: FixtureOptions): FixtureOptions | null {
+  if (options) return options;
+  const mode = process.env.AUDIT_FIXTURE_MODE;
+  const file = process.env.AUDIT_FIXTURE_FILE;
+  if ((mode !== 'record' && mode !== 'replay') || !file) return null;
+  return { mode, file: path.resolve(file) };
+}
+
+// Where fixtures named in API requests live
+export function fixturesDir(): string {
+  return path.resolve(process.env.AUDIT_FIXTURES_DIR ?? 'fixtures');
+}
+
+// API callers only get to pick fixtures when AUDIT_ALLOW_FIXTURE_REQUESTS=true, since
+// recording writes files on the server
+export function fixtureRequestsAllowed(): boolean {
+  return /^(1|true|yes)$/i.test(process.env.AUDIT_ALLOW_FIXTURE_REQUESTS ?? '');
+}
+
+// A bare name, so a request can't reach outside the fixtures directory
+export function fixturePath(name: string): string | null {
+  if (!/^[\w-][\w.-]{0,99}$/.test(name)) return null;
+  return path.join(fixturesDir(), name.endsWith('.har') ? name : `${name}.har`);
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+}
+
+function toHarHeaders(headers: Headers): HarHeader[] {
+  return [...headers].map(([name, value]) => ({ name, value }));
+}
+
+async function readRecordedBody(res: Response): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  if (!res.body) return { bytes: new Uint8Array(), truncated: false };
+  const chunks: Uint8Array[] = [];
+  let read = 0;
+  let truncated = false;
+  const reader = res.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (read + value.length > MAX_RECORDED_BODY_BYTES) {
+        truncated = true;
+        break;
+      }
+      chunks.push(value);
+      read += value.length;
+    }
+  } catch {
+    // aborted or reset midway: keep what arrived
+    truncated = true;
+  }
+  await reader.cancel().catch(() => {});
+  return { bytes: Buffer.concat(chunks), truncated };
+}
+
+function harRequest(url: string, init: RequestInit): HarEntry['request'] {
+  return {
+    method: init.method?.toUpperCase() ?? 'GET',
+    url,
+    httpVersion: 'HTTP/1.1',
+    headers: toHarHeaders(new Headers(init.headers)),
+    queryString: [],
+    cookies: [],
+    headersSize: -1,
+    bodySize: -1,
+  };
+}
+
+function failedHarEntry(url: string, init: RequestInit, err: unknown, started: number, time: number): HarEntry {
+  const cause = err instanceof Error && err.cause instanceof Error ? err.cause : err;
+  const code = (cause as { code?: unknown } | null)?.code;
+  return {
+    startedDateTime: new Date(started).toISOString(),
+    time,
+    request: harRequest(url, init),
+    response: {
+      status: 0,
+      statusText: '',
+      httpVersion: '',
+      headers: [],
+      cookies: [],
+      content: { size: 0, mimeType: '' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+    _error: cause instanceof Error ? cause.message : String(cause),
+    ...(typeof code === 'string' && { _errorCode: code }),
+  };
+}
+
+async function toHarEntry(url: string, init: RequestInit, res: Response, started: number, time: number): Promise<HarEntry> {
+  const mimeType = res.headers.get('content-type') ?? '';
+  const { bytes, truncated } = await readRecordedBody(res);
+  const text = TEXT_TYPES.test(mimeType);
+  return {
+    startedDateTime: new Date(started).toISOString(),
+    time,
+    request: harRequest(url, init),
+    response: {
+      status: res.status,
+      statusText: res.statusText,
+      httpVersion: 'HTTP/1.1',
+      headers: toHarHeaders(res.headers),
+      cookies: [],
+      content: {
+        size: bytes.length,
+        mimeType,
+        text: text ? Buffer.from(bytes).toString('utf8') : Buffer.from(bytes).toString('base64'),
+        ...(!text && { encoding: 'base64' as const }),
+        ...(truncated && { comment: `truncated at ${bytes.length} bytes` }),
+      },
+      redirectURL: res.headers.get('location') ?? '',
+      headersSize: -1,
+      bodySize: bytes.length,
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+  };
+}
+
+function fromHarEntry(entry: HarEntry, method: string, url: string): Response {
+  // fail the way fetch did, with the system error code the checks look at
+  if (entry.response.status === 0) {
+    const cause = Object.assign(new Error(entry._error ?? 'Request failed'), entry._errorCode ? { code: entry._errorCode } : {});
+    throw new TypeError('fetch failed', { cause });
+  }
+
+  const { status, statusText, headers: harHeaders, content } = entry.response;
+  const headers = new Headers();
+  for (const { name, value } of harHeaders ?? []) {
+    try {
+      headers.append(name, value);
+    } catch {
+      // HTTP/2 pseudo-headers (":status") and the like
+    }
+  }
+  const body =
+    method === 'HEAD' || NULL_BODY_STATUSES.includes(status) || content?.text === undefined ? null
+    : content.encoding === 'base64' ? Buffer.from(content.text, 'base64')
+    : content.text;
+  const res = new Response(body, { status, statusText, headers });
+  Object.defineProperty(res, 'url', { value: url });
+  return res;
+}
+
+// Requests go out as usual and each response is copied into the fixture as it's read
+function recordingFixture(options: FixtureOptions): Fixture {
+  const pending: Array<Promise<HarEntry | null>> = [];
+
+  return {
+    ...options,
+    transport: {
+      check: NETWORK_TRANSPORT.check,
+      async fetch(url, init) {
+        const started = Date.now();
+        let res: Response;
+        try {
+          res = await NETWORK_TRANSPORT.fetch(url, init);
+        } catch (err) {
+          // a timeout is the audit giving up, not something the site did
+          if (!isTimeoutError(err)) pending.push(Promise.resolve(failedHarEntry(normalizeUrl(url), init, err, started, Date.now() - started)));
+          throw err;
+        }
+        // the copy is read in full even when the caller only wants the status
+        pending.push(toHarEntry(normalizeUrl(url), init, res.clone(), started, Date.now() - started).catch(() => null));
+        return res;
+      },
+    },
+    async save() {
+      const entries = (await Promise.all(pending)).filter(e => e !== null);
+      entries.sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+      const har: Har = { log: { version: '1.2', creator: { name: 'website-audit-tool', version: '0.1.0' }, entries } };
+
+      // Write to a temp file and rename so a crash never leaves half a file
+      await mkdir(path.dirname(options.file), { recursive: true });
+      const tmp = `${options.file}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(har, null, 2));
+      await rename(tmp, options.file);
+    },
+  };
+}
+
+// Every request is answered from the fixture; one that wasn't recorded fails like a network error
+function replayingFixture(options: FixtureOptions, har: Har): Fixture {
+  const recorded = new Map<string, HarEntry[]>();
+  for (const entry of har.log.entries) {
+    const key = `${entry.request.method.toUpperCase()} ${normalizeUrl(entry.request.url)}`;
+    recorded.set(key, [...(recorded.get(key) ?? []), entry]);
+  }
+  const served = new Map<string, number>();
+
+  return {
+    ...options,
+    transport: {
+      // nothing leaves the machine, so there's nothing to guard
+      check: async () => {},
+      async fetch(url, init) {
+        init.signal?.throwIfAborted();
+        const method = init.method?.toUpperCase() ?? 'GET';
+        const key = `${method} ${normalizeUrl(url)}`;
+        // a HEAD that wasn't recorded is answered from the GET, without its body
+        const entries = recorded.get(key) ?? (method === 'HEAD' ? recorded.get(`GET ${normalizeUrl(url)}`) : undefined);
+        if (!entries) {
+          throw new TypeError('fetch failed', { cause: new FixtureError(`${method} ${url} is not in ${path.basename(options.file)}`) });
+        }
+
+        // repeated requests get the recorded responses in order, then the last one again
+        const count = served.get(key) ?? 0;
+        served.set(key, count + 1);
+        return fromHarEntry(entries[Math.min(count, entries.length - 1)], method, url);
+      },
+    },
+    save: async () => {},
+  };
+}
+
+export async function openFixture(options: FixtureOptions): Promise<Fixture> {
+  if (options.mode === 'record') return recordingFixture(options);
+
+  let har: Har;
+  try {
+    har = JSON.parse(await readFile(options.file, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') throw new FixtureError(`No fixture at ${options.file}`);
+    throw new FixtureError(`Could not read fixture ${options.file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!Array.isArray(har?.log?.entries)) throw new FixtureError(`${options.file} is not a HAR file`);
+  return replayingFixture(options, har);
+}
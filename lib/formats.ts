@@ -0,0 +1,230 @@
+import type { AuditResult } from './audit';
+import type { BudgetAssertion } from './budgets';
+import type { CheckFinding, CheckSeverity } from './checks';
+import type { SiteAuditResult } from './crawler';
+
+export type OutputFormat = 'json' | 'table' | 'junit' | 'sarif';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table', 'junit', 'sarif'];
+
+export const SEVERITIES: CheckSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+export type GateOptions = {
+  // Fail when the overall score is below this
+  minScore?: number;
+  // Fail on findings at or above this severity
+  failOn?: CheckSeverity;
+};
+
+export type GateResult = {
+  passed: boolean;
+  reasons: string[];
+};
+
+// Everything we report on: a single page audit, or each page of a crawl
+function pagesOf(report: AuditResult | SiteAuditResult): AuditResult[] {
+  return 'pagesCrawled' in report ? report.pages : [report];
+}
+
+export function isAtLeast(severity: CheckSeverity, threshold: CheckSeverity): boolean {
+  return SEVERITIES.indexOf(severity) <= SEVERITIES.indexOf(threshold);
+}
+
+export function describeViolation(a: BudgetAssertion): string {
+  return `${a.label} ${a.actual}${a.unit} is ${a.comparison === 'max' ? 'over the limit' : 'under the minimum'} of ${a.limit}${a.unit}`;
+}
+
+export function evaluateGate(report: AuditResult | SiteAuditResult, options: GateOptions): GateResult {
+  const reasons: string[] = [];
+
+  if (report.error) reasons.push(`Audit failed: ${report.error}`);
+  if (options.minScore !== undefined && (report.score ?? 0) < options.minScore) {
+    reasons.push(`Score ${report.score ?? 0} is below the minimum of ${options.minScore}`);
+  }
+  if (options.failOn) {
+    const failing = pagesOf(report).flatMap(p => (p.findings ?? []).filter(f => isAtLeast(f.severity, options.failOn!)));
+    if (failing.length > 0) reasons.push(`${failing.length} findings at or above "${options.failOn}" severity`);
+  }
+  // budgets are explicit assertions, so any violation fails
+  for (const page of pagesOf(report)) {
+    if (page.budget?.error) reasons.push(`${page.url}: ${page.budget.error}`);
+    const violations = page.budget?.assertions.filter(a => a.status === 'fail') ?? [];
+    if (violations.length > 0) {
+      reasons.push(`${page.url} is over budget: ${violations.map(describeViolation).join('; ')}`);
+    }
+  }
+
+  return { passed: reasons.length === 0, reasons };
+}
+
+function pad(value: string, width: number): string {
+  return value.length >= width ? value : value + ' '.repeat(width - value.length);
+}
+
+function formatTable(report: AuditResult | SiteAuditResult): string {
+  const lines: string[] = [];
+  if ('pagesCrawled' in report) {
+    lines.push(`Site ${report.startUrl}: score ${report.score}, ${report.pagesCrawled} pages`);
+    for (const issue of report.issues) {
+      lines.push(`  ${pad(issue.severity.toUpperCase(), 9)}${issue.title} (${issue.count})`);
+    }
+    lines.push('');
+  }
+
+  for (const page of pagesOf(report)) {
+    lines.push(`${page.url}  score ${page.score ?? '–'}${page.status ? `  HTTP ${page.status}` : ''}`);
+    if (page.error) lines.push(`  ERROR    ${page.error}`);
+    if (page.categoryScores) {
+      lines.push(`  ${Object.entries(page.categoryScores).map(([c, s]) => `${c} ${s}`).join(' · ')}`);
+    }
+    for (const a of page.budget?.assertions ?? []) {
+      if (a.status !== 'fail') continue;
+      lines.push(`  ${pad('BUDGET', 9)}${describeViolation(a)}`);
+    }
+
+    const findings = [...(page.findings ?? [])].sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+    const idWidth = Math.max(8, ...findings.map(f => f.checkId.length + 2));
+    for (const f of findings) {
+      lines.push(`  ${pad(f.severity.toUpperCase(), 9)}${pad(f.checkId, idWidth)}${f.message}`);
+    }
+    for (const e of page.checkErrors ?? []) {
+      lines.push(`  ${pad('ERROR', 9)}${pad(e.checkId, idWidth)}${e.message}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function describeFinding(f: CheckFinding): string {
+  return [`[${f.severity}] ${f.message}`, ...(f.details ?? []).map(d => `  ${d}`)].join('\n');
+}
+
+// One suite per page, one test case per check that ran (or reported), plus the score gate
+function formatJUnit(report: AuditResult | SiteAuditResult, gate: GateOptions, checkIds: string[]): string {
+  const failOn = gate.failOn ?? 'high';
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  for (const page of pagesOf(report)) {
+    const cases: string[] = [];
+    let failures = 0;
+    const ids = [...new Set([...checkIds, ...(page.findings ?? []).map(f => f.checkId), ...(page.checkErrors ?? []).map(e => e.checkId)])];
+
+    for (const id of ids) {
+      const findings = (page.findings ?? []).filter(f => f.checkId === id);
+      const failing = findings.filter(f => isAtLeast(f.severity, failOn));
+      const error = page.checkErrors?.find(e => e.checkId === id);
+      let body = '';
+      if (error) {
+        failures++;
+        body = `<error message="${xml(error.message)}"/>`;
+      } else if (failing.length > 0) {
+        failures++;
+        body = `<failure message="${xml(`${failing.length} findings at or above ${failOn}`)}">${xml(failing.map(describeFinding).join('\n'))}</failure>`;
+      }
+      const passing = findings.filter(f => !isAtLeast(f.severity, failOn));
+      if (passing.length > 0) body += `<system-out>${xml(passing.map(describeFinding).join('\n'))}</system-out>`;
+      cases.push(`    <testcase classname="${xml(page.url)}" name="${xml(id)}">${body}</testcase>`);
+    }
+
+    if (gate.minScore !== undefined) {
+      const score = page.score ?? 0;
+      const body = score < gate.minScore ? `<failure message="${xml(`Score ${score} is below ${gate.minScore}`)}"/>` : '';
+      if (body) failures++;
+      cases.push(`    <testcase classname="${xml(page.url)}" name="score">${body}</testcase>`);
+    }
+    for (const a of page.budget?.assertions ?? []) {
+      const body = a.status === 'fail'
+        ? `<failure message="${xml(describeViolation(a))}"/>`
+        : a.status === 'skipped' ? (a.note ? `<skipped message="${xml(a.note)}"/>` : '<skipped/>') : '';
+      if (a.status === 'fail') failures++;
+      cases.push(`    <testcase classname="${xml(page.url)}" name="${xml(`budget:${a.metric}:${a.comparison}`)}">${body}</testcase>`);
+    }
+    if (page.error) {
+      failures++;
+      cases.push(`    <testcase classname="${xml(page.url)}" name="fetch"><error message="${xml(page.error)}"/></testcase>`);
+    }
+
+    totalTests += cases.length;
+    totalFailures += failures;
+    suites.push(`  <testsuite name="${xml(page.url)}" tests="${cases.length}" failures="${failures}">\n${cases.join('\n')}\n  </testsuite>`);
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="website-audit" tests="${totalTests}" failures="${totalFailures}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+const SARIF_LEVELS: Record<CheckSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+// SARIF 2.1.0, as consumed by GitHub code scanning and most CI dashboards
+function formatSarif(report: AuditResult | SiteAuditResult, checkTitles: Record<string, string>): string {
+  const pages = pagesOf(report);
+  const ruleIds = [...new Set(pages.flatMap(p => (p.findings ?? []).map(f => f.checkId)))];
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'website-audit',
+            rules: ruleIds.map(id => ({ id, shortDescription: { text: checkTitles[id] ?? id } })),
+          },
+        },
+        results: pages.flatMap(page =>
+          (page.findings ?? []).map(f => ({
+            ruleId: f.checkId,
+            ruleIndex: ruleIds.indexOf(f.checkId),
+            level: SARIF_LEVELS[f.severity],
+            message: { text: [f.message, ...(f.details ?? []), `Fix: ${f.remediation}`].join('\n') },
+            locations: [{ physicalLocation: { artifactLocation: { uri: page.finalUrl ?? page.url } } }],
+            partialFingerprints: { findingId: f.id },
+            properties: { severity: f.severity, category: f.category, impact: f.impact, effort: f.effort },
+          })),
+        ),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+export type FormatContext = GateOptions & {
+  // Checks that were selected, so JUnit lists the ones that passed too
+  checkIds?: string[];
+  checkTitles?: Record<string, string>;
+};
+
+export function formatReport(report: AuditResult | SiteAuditResult, format: OutputFormat, context: FormatContext = {}): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'table':
+      return formatTable(report);
+    case 'junit':
+      return formatJUnit(report, context, context.checkIds ?? []);
+    case 'sarif':
+      return formatSarif(report, context.checkTitles ?? {});
+  }
+}
@@ -0,0 +1,274 @@
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AuditResult } from './audit';
+import type { SiteAuditResult } from './crawler';
+
+export type AuditKind = 'page' | 'site';
+
+// The fields kept in the index, enough to list, filter and chart audits without
+// reading every stored result
+export type AuditSummary = {
+  id: string;
+  createdAt: string;
+  url: string;
+  kind: AuditKind;
+  score: number | null;
+  status: number | null;
+  ttfbMs?: number;
+  fcpMs?: number;
+  lcpMs?: number;
+  cls?: number;
+  tbtMs?: number;
+  error?: string | null;
+  // The API key that ran the audit, or owns the monitor or batch job that did; absent without one
+  apiKeyId?: string;
+};
+
+export type StoredAudit = AuditSummary & {
+  result: AuditResult | SiteAuditResult;
+};
+
+export type AuditQuery = {
+  url?: string;
+  // Only audits run with this key; null for those run without one
+  apiKeyId?: string | null;
+  // ISO dates or anything Date.parse accepts; both ends inclusive
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+};
+
+export type AuditPage = {
+  items: AuditSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// Recorded alongside a result when it is saved
+export type AuditMeta = {
+  apiKeyId?: string | null;
+};
+
+export type TrendPoint = Omit<AuditSummary, 'url' | 'kind' | 'error'>;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// How much history is kept; older audits are deleted as new ones are saved. 0 means no limit.
+export type HistoryRetention = {
+  maxEntries: number;
+  maxAgeDays: number;
+};
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxEntries: 10000,
+  maxAgeDays: 0,
+};
+
+// AUDIT_HISTORY_MAX_ENTRIES and AUDIT_HISTORY_MAX_AGE_DAYS override the defaults
+export function resolveHistoryRetention(): HistoryRetention {
+  const limit = (value: string | undefined, fallback: number) => {
+    const n = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+  };
+  return {
+    maxEntries: limit(process.env.AUDIT_HISTORY_MAX_ENTRIES, DEFAULT_HISTORY_RETENTION.maxEntries),
+    maxAgeDays: limit(process.env.AUDIT_HISTORY_MAX_AGE_DAYS, DEFAULT_HISTORY_RETENTION.maxAgeDays),
+  };
+}
+
+// AUDIT_DATA_DIR/audits/<id>.json holds each result; index.jsonl one summary per line
+export function dataDir(): string {
+  return path.resolve(process.env.AUDIT_DATA_DIR ?? '.data');
+}
+
+function auditsDir(): string {
+  return path.join(dataDir(), 'audits');
+}
+
+function indexFile(): string {
+  return path.join(dataDir(), 'index.jsonl');
+}
+
+// Ids are UUIDs; anything else must not reach the filesystem
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Stored and queried URLs are compared in WHATWG-serialized form (lowercase host, '/' for a bare origin)
+export function normalizeAuditUrl(input: string): string {
+  try {
+    return new URL(input).toString();
+  } catch {
+    return input.trim();
+  }
+}
+
+function isSiteResult(result: AuditResult | SiteAuditResult): result is SiteAuditResult {
+  return 'pagesCrawled' in result;
+}
+
+function summarize(
+  id: string,
+  createdAt: string,
+  url: string,
+  result: AuditResult | SiteAuditResult,
+  meta: AuditMeta,
+): AuditSummary {
+  // a crawl's metrics are those of its start page
+  const page = isSiteResult(result) ? result.pages[0] : result;
+  return {
+    id,
+    createdAt,
+    url,
+    kind: isSiteResult(result) ? 'site' : 'page',
+    score: result.score ?? null,
+    status: page?.status ?? null,
+    ttfbMs: page?.ttfbMs,
+    fcpMs: page?.fcpMs,
+    lcpMs: page?.lcpMs,
+    cls: page?.cls,
+    tbtMs: page?.tbtMs,
+    error: result.error,
+    apiKeyId: meta.apiKeyId ?? undefined,
+  };
+}
+
+// Writes are serialized so concurrent audits don't interleave index lines. That only holds
+// within one process: AUDIT_DATA_DIR is meant to have a single writer, since a prune by one
+// process can drop lines another appended meanwhile.
+let writes: Promise<unknown> = Promise.resolve();
+
+// The summaries past the retention limits, oldest first
+function expired(summaries: AuditSummary[], retention: HistoryRetention, now: number): AuditSummary[] {
+  const cutoff = retention.maxAgeDays > 0 ? now - retention.maxAgeDays * 86400000 : -Infinity;
+  const overflow = retention.maxEntries > 0 ? Math.max(0, summaries.length - retention.maxEntries) : 0;
+  return summaries.filter((s, i) => i < overflow || Date.parse(s.createdAt) < cutoff);
+}
+
+// Append the summary, or rewrite the index without the expired audits and delete their results.
+// The rewrite goes to a temp file and is renamed over the index so readers never see half of it.
+async function appendToIndex(summary: AuditSummary): Promise<void> {
+  const retention = resolveHistoryRetention();
+  if (retention.maxEntries === 0 && retention.maxAgeDays === 0) {
+    await appendFile(indexFile(), `${JSON.stringify(summary)}\n`);
+    return;
+  }
+
+  const summaries = [...(await readIndex()), summary];
+  const pruned = expired(summaries, retention, Date.now());
+  if (pruned.length === 0) {
+    await appendFile(indexFile(), `${JSON.stringify(summary)}\n`);
+    return;
+  }
+
+  const prunedIds = new Set(pruned.map(s => s.id));
+  const kept = summaries.filter(s => !prunedIds.has(s.id));
+  const tmp = `${indexFile()}.${process.pid}.tmp`;
+  await writeFile(tmp, kept.map(s => `${JSON.stringify(s)}\n`).join(''));
+  await rename(tmp, indexFile());
+  for (const id of prunedIds) {
+    if (ID_PATTERN.test(id)) await rm(path.join(auditsDir(), `${id}.json`), { force: true });
+  }
+}
+
+export async function saveAudit(url: string, result: AuditResult | SiteAuditResult, meta: AuditMeta = {}): Promise<StoredAudit> {
+  const id = randomUUID();
+  const summary = summarize(id, new Date().toISOString(), normalizeAuditUrl(url), result, meta);
+  const stored: StoredAudit = { ...summary, result };
+
+  const write = writes.then(async () => {
+    await mkdir(auditsDir(), { recursive: true });
+    await writeFile(path.join(auditsDir(), `${id}.json`), JSON.stringify(stored));
+    await appendToIndex(summary);
+  });
+  writes = write.catch(() => {});
+  await write;
+  return stored;
+}
+
+export async function getAudit(id: string): Promise<StoredAudit | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await readFile(path.join(auditsDir(), `${id}.json`), 'utf8')) as StoredAudit;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function readIndex(): Promise<AuditSummary[]> {
+  let text: string;
+  try {
+    text = await readFile(indexFile(), 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const summaries: AuditSummary[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      summaries.push(JSON.parse(line));
+    } catch {
+      // a line cut short by a crash is skipped rather than failing every read
+    }
+  }
+  return summaries;
+}
+
+function parseDate(value: string | undefined, endOfDay: boolean): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  // a bare date as the upper bound includes that whole day
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 86400000 - 1 : time;
+}
+
+// Newest first
+export async function listAudits(query: AuditQuery = {}): Promise<AuditPage> {
+  const url = query.url ? normalizeAuditUrl(query.url) : null;
+  const from = parseDate(query.from, false);
+  const to = parseDate(query.to, true);
+  const pageSize = Math.min(Math.max(1, Math.floor(query.pageSize ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+  const page = Math.max(1, Math.floor(query.page ?? 1));
+
+  const matching = (await readIndex())
+    .filter(s => {
+      const time = Date.parse(s.createdAt);
+      if (url && s.url !== url) return false;
+      if (query.apiKeyId !== undefined && (s.apiKeyId ?? null) !== query.apiKeyId) return false;
+      if (from !== null && time < from) return false;
+      if (to !== null && time > to) return false;
+      return true;
+    })
+    .reverse();
+
+  return {
+    items: matching.slice((page - 1) * pageSize, page * pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+  };
+}
+
+// Score and key metrics for one URL, oldest first, skipping failed audits; like listAudits,
+// `apiKeyId` limits it to one key's audits
+export async function getTrend(url: string, apiKeyId?: string | null): Promise<TrendPoint[]> {
+  const normalized = normalizeAuditUrl(url);
+  return (await readIndex())
+    .filter(s => s.url === normalized && !s.error && (apiKeyId === undefined || (s.apiKeyId ?? null) === apiKeyId))
+    .map(({ id, createdAt, score, status, ttfbMs, fcpMs, lcpMs, cls, tbtMs }) => ({
+      id,
+      createdAt,
+      score,
+      status,
+      ttfbMs,
+      fcpMs,
+      lcpMs,
+      cls,
+      tbtMs,
+    }));
+}
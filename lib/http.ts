@@ -0,0 +1,345 @@
+import { assertSafeUrl, SAFE_DISPATCHER, UnsafeUrlError } from './url-safety';
+
+export const DEFAULT_TIMEOUT_MS = 10000;
+
+// Redirects followed for `redirect: 'follow'` requests, as fetch itself would
+export const MAX_FOLLOWED_REDIRECTS = 20;
+
+export type FetchOptions = RequestInit & {
+  timeoutMs?: number;
+};
+
+export type HttpRequestOptions = FetchOptions & {
+  // Overrides the client's limit for this request, e.g. for sitemaps the protocol lets be larger
+  maxBodyBytes?: number;
+};
+
+// Named User-Agents an audit can send instead of its own, to see what crawlers and phones get
+export const USER_AGENT_PRESETS = {
+  default: 'Mozilla/5.0 (compatible; WebsiteAuditTool/0.1)',
+  googlebot: 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+  'googlebot-mobile':
+    'Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.6478.126 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+  desktop: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+  mobile: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+} as const;
+
+export type UserAgentPreset = keyof typeof USER_AGENT_PRESETS;
+
+export type HttpOptions = {
+  // A preset name or a full User-Agent string (defaults to AUDIT_USER_AGENT, then the default preset)
+  userAgent?: string;
+  // Per request, including reading the body; callers can ask for less
+  timeoutMs?: number;
+  // Every request of the audit must finish within this long of the first
+  deadlineMs?: number;
+  // Extra attempts for GET/HEAD after a network error or a 429/502/503/504
+  retries?: number;
+  // Wait before the first retry; doubles for each one after
+  retryBackoffMs?: number;
+  // Reading a body past this many bytes fails the request
+  maxBodyBytes?: number;
+  // Reuse fully read GET/HEAD responses for the rest of the audit
+  cache?: boolean;
+};
+
+export const DEFAULT_HTTP_OPTIONS: Required<HttpOptions> = {
+  userAgent: process.env.AUDIT_USER_AGENT || 'default',
+  timeoutMs: DEFAULT_TIMEOUT_MS,
+  deadlineMs: 120000,
+  retries: 2,
+  retryBackoffMs: 500,
+  maxBodyBytes: 10 * 1024 * 1024,
+  cache: true,
+};
+
+// One line per request an audit made, in the order they were started
+export type RequestLogEntry = {
+  url: string;
+  method: string;
+  startedAt: string;
+  durationMs: number;
+  status: number | null;
+  // Where followed redirects ended up, when somewhere else
+  finalUrl?: string;
+  attempts: number;
+  cached: boolean;
+  // Body bytes, once the body has been read to the end
+  bytes?: number;
+  error?: string;
+};
+
+// The fetch the audit's checks share: SSRF-checked, with its timeouts, retries, User-Agent,
+// body limit and cache, and a log of every request
+export type HttpClient = {
+  userAgent: string;
+  options: Required<HttpOptions>;
+  log: RequestLogEntry[];
+  fetch: (url: string, options?: HttpRequestOptions) => Promise<Response>;
+};
+
+export class ResponseTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`Response body is larger than ${Math.round(limit / 1024)} KB`);
+    this.name = 'ResponseTooLargeError';
+  }
+}
+
+export class DeadlineExceededError extends Error {
+  constructor(readonly deadlineMs: number) {
+    super(`Audit deadline of ${Math.round(deadlineMs / 1000)}s exceeded`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+export function resolveUserAgent(value: string | undefined): string {
+  const ua = value?.trim() || DEFAULT_HTTP_OPTIONS.userAgent;
+  return USER_AGENT_PRESETS[ua as UserAgentPreset] ?? ua;
+}
+
+// How requests reach the network; fixtures swap it to record or replay the exchanges
+export type Transport = {
+  // Makes a single request without following redirects itself
+  fetch: (url: string, init: RequestInit) => Promise<Response>;
+  // Throws for a URL that must not be requested; called before every hop
+  check: (url: string) => Promise<void>;
+};
+
+export const NETWORK_TRANSPORT: Transport = {
+  fetch: (url, init) => fetch(url, { ...init, dispatcher: SAFE_DISPATCHER } as RequestInit),
+  check: async url => {
+    await assertSafeUrl(url);
+  },
+};
+
+// fetch() restricted to safe targets: the URL and, when redirects are followed, every
+// hop is checked with assertSafeUrl. With `redirect: 'manual'` the caller sees the 3xx
+// and requests the next hop itself, which is checked again.
+export async function safeFetch(url: string, init: RequestInit = {}, transport: Transport = NETWORK_TRANSPORT): Promise<Response> {
+  await transport.check(url);
+  if (init.redirect === 'manual' || init.redirect === 'error') return transport.fetch(url, init);
+
+  let current = url;
+  let method = init.method?.toUpperCase() ?? 'GET';
+  let body = init.body;
+  for (let hop = 0; hop <= MAX_FOLLOWED_REDIRECTS; hop++) {
+    const res = await transport.fetch(current, { ...init, method, body, redirect: 'manual' });
+    const location = res.headers.get('location');
+    if (res.status < 300 || res.status >= 400 || !location) {
+      // fetch reports the request URL, not where the redirects ended up
+      if (current !== url) Object.defineProperty(res, 'url', { value: current });
+      return res;
+    }
+
+    await res.body?.cancel().catch(() => {});
+    current = new URL(location, current).href;
+    await transport.check(current);
+    // 303, and 301/302 after a POST, continue as GET without a body
+    if (res.status === 303 || ((res.status === 301 || res.status === 302) && method === 'POST')) {
+      method = method === 'HEAD' ? 'HEAD' : 'GET';
+      body = undefined;
+    }
+  }
+  throw new TypeError('fetch failed', { cause: new Error(`More than ${MAX_FOLLOWED_REDIRECTS} redirects`) });
+}
+
+// safeFetch() that gives up after timeoutMs (the caller's own signal still applies)
+export async function fetchWithTimeout(url: string, options: FetchOptions = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, signal, ...init } = options;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return safeFetch(url, { ...init, signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+}
+
+// Statuses worth asking again for; anything else is the server's answer
+const RETRY_STATUSES = [429, 502, 503, 504];
+
+// Connection failures that may go away on their own, unlike ENOTFOUND or ECONNREFUSED
+const RETRY_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// A server's Retry-After is honoured up to this long; past it the failure stands
+const MAX_RETRY_AFTER_MS = 10000;
+
+// Bodies larger than this are read but not kept for reuse
+const MAX_CACHED_BODY_BYTES = 1024 * 1024;
+
+// Statuses a Response can't be constructed with a body for
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+type CachedResponse = {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  url: string;
+  body: Uint8Array | null;
+};
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function retryDelay(res: Response | null, attempt: number, backoffMs: number): number {
+  const header = res?.headers.get('retry-after');
+  if (header) {
+    const seconds = Number(header);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    if (Number.isFinite(ms)) return Math.min(MAX_RETRY_AFTER_MS, Math.max(0, ms));
+  }
+  // a little jitter so parallel checks don't retry in lockstep
+  return backoffMs * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4);
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+function fromCache(cached: CachedResponse): Response {
+  const res = new Response(cached.body?.slice() ?? null, { status: cached.status, statusText: cached.statusText, headers: cached.headers });
+  Object.defineProperty(res, 'url', { value: cached.url });
+  return res;
+}
+
+// Create the client for one audit; its deadline starts now
+export function createHttpClient(options: HttpOptions = {}, transport: Transport = NETWORK_TRANSPORT): HttpClient {
+  const resolved: Required<HttpOptions> = { ...DEFAULT_HTTP_OPTIONS };
+  for (const [key, value] of Object.entries(options) as Array<[keyof HttpOptions, unknown]>) {
+    if (value !== undefined) Object.assign(resolved, { [key]: value });
+  }
+  const userAgent = resolveUserAgent(resolved.userAgent);
+  const log: RequestLogEntry[] = [];
+  const cache = new Map<string, CachedResponse>();
+
+  const deadline = new AbortController();
+  const deadlineAt = Date.now() + resolved.deadlineMs;
+  // unref'd so an audit that finished early doesn't keep the process alive
+  setTimeout(() => deadline.abort(new DeadlineExceededError(resolved.deadlineMs)), resolved.deadlineMs).unref?.();
+
+  // Count the body as it's read, fail it past the limit, and cache it once read to the end
+  function limitBody(res: Response, entry: RequestLogEntry, cacheKey: string | null, maxBodyBytes: number): Response {
+    if (!res.body || NULL_BODY_STATUSES.includes(res.status)) {
+      entry.bytes = 0;
+      if (cacheKey) cache.set(cacheKey, { status: res.status, statusText: res.statusText, headers: res.headers, url: res.url, body: null });
+      return res;
+    }
+
+    const chunks: Uint8Array[] = [];
+    let read = 0;
+    const body = res.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          read += chunk.length;
+          if (read > maxBodyBytes) {
+            const err = new ResponseTooLargeError(maxBodyBytes);
+            entry.error = err.message;
+            controller.error(err);
+            return;
+          }
+          if (cacheKey && read <= MAX_CACHED_BODY_BYTES) chunks.push(chunk);
+          controller.enqueue(chunk);
+        },
+        flush() {
+          entry.bytes = read;
+          if (cacheKey && read <= MAX_CACHED_BODY_BYTES) {
+            cache.set(cacheKey, { status: res.status, statusText: res.statusText, headers: res.headers, url: res.url, body: concat(chunks, read) });
+          }
+        },
+      }),
+    );
+    const limited = new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+    Object.defineProperty(limited, 'url', { value: res.url });
+    return limited;
+  }
+
+  async function clientFetch(url: string, requestOptions: HttpRequestOptions = {}): Promise<Response> {
+    const { timeoutMs = resolved.timeoutMs, maxBodyBytes = resolved.maxBodyBytes, signal, ...init } = requestOptions;
+    const method = init.method?.toUpperCase() ?? 'GET';
+    const headers = new Headers(init.headers);
+    if (!headers.has('user-agent')) headers.set('user-agent', userAgent);
+
+    const idempotent = method === 'GET' || method === 'HEAD';
+    const cacheKey = resolved.cache && idempotent && !init.body && !init.headers ? `${method} ${init.redirect ?? 'follow'} ${url}` : null;
+    const entry: RequestLogEntry = { url, method, startedAt: new Date().toISOString(), durationMs: 0, status: null, attempts: 0, cached: false };
+    log.push(entry);
+    const start = Date.now();
+
+    const cached = cacheKey ? cache.get(cacheKey) : undefined;
+    if (cached) {
+      Object.assign(entry, { status: cached.status, cached: true, bytes: cached.body?.length ?? 0 });
+      if (cached.url !== url) entry.finalUrl = cached.url;
+      return fromCache(cached);
+    }
+
+    const attempts = idempotent ? resolved.retries + 1 : 1;
+    try {
+      for (let attempt = 1; ; attempt++) {
+        entry.attempts = attempt;
+        const signals = [deadline.signal, AbortSignal.timeout(timeoutMs)];
+        if (signal) signals.push(signal);
+
+        let res: Response | null = null;
+        try {
+          res = await safeFetch(url, { ...init, method, headers, signal: AbortSignal.any(signals) }, transport);
+        } catch (err) {
+          const code = networkErrorCode(err);
+          if (attempt >= attempts || !code || !RETRY_ERROR_CODES.includes(code)) throw err;
+        }
+
+        if (res && (attempt >= attempts || !RETRY_STATUSES.includes(res.status))) {
+          entry.status = res.status;
+          entry.durationMs = Date.now() - start;
+          if (res.url && res.url !== url) entry.finalUrl = res.url;
+          return limitBody(res, entry, cacheKey, maxBodyBytes);
+        }
+
+        const delay = retryDelay(res, attempt, resolved.retryBackoffMs);
+        await res?.body?.cancel().catch(() => {});
+        // no point waiting for a retry the deadline won't allow
+        if (Date.now() + delay >= deadlineAt) throw new DeadlineExceededError(resolved.deadlineMs);
+        await sleep(delay, deadline.signal);
+      }
+    } catch (err) {
+      entry.durationMs = Date.now() - start;
+      entry.error = describeFetchError(err);
+      throw err;
+    }
+  }
+
+  return { userAgent, options: resolved, log, fetch: clientFetch };
+}
+
+export function isTimeoutError(err: unknown): boolean {
+  return err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError');
+}
+
+// Node's fetch hides the system error (ENOTFOUND, ECONNREFUSED...) in err.cause
+export function networkErrorCode(err: unknown): string | undefined {
+  const cause = err instanceof Error ? (err.cause as { code?: unknown } | undefined) : undefined;
+  return typeof cause?.code === 'string' ? cause.code : undefined;
+}
+
+export function describeFetchError(err: unknown): string {
+  if (err instanceof DeadlineExceededError || err instanceof ResponseTooLargeError) return err.message;
+  if (isTimeoutError(err)) return 'Request timed out';
+  if (err instanceof UnsafeUrlError) return `Blocked: ${err.message}`;
+  const code = networkErrorCode(err);
+  const message = err instanceof Error ? err.message : String(err);
+  // fetch's own message is just "fetch failed"; the cause says why
+  if (!code && err instanceof Error && err.cause instanceof Error) return `${message}: ${err.cause.message}`;
+  return code ? `${message} (${code})` : message;
+}
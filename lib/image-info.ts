@@ -0,0 +1,112 @@
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'svg' | 'bmp' | 'ico' | 'unknown';
+
+export type ImageInfo = {
+  format: ImageFormat;
+  width?: number;
+  height?: number;
+};
+
+// Enough of the file to find the dimensions of every format below (JPEG SOF markers
+// can sit behind large EXIF blocks, so be generous)
+export const IMAGE_HEADER_BYTES = 64 * 1024;
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function jpegSize(bytes: Uint8Array, view: DataView): Partial<ImageInfo> {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return {};
+    const marker = bytes[offset + 1];
+    // padding bytes between markers
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = view.getUint16(offset + 2);
+    // SOF0..SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return {};
+}
+
+function webpSize(bytes: Uint8Array, view: DataView): Partial<ImageInfo> {
+  const chunk = ascii(bytes, 12, 4);
+  if (chunk === 'VP8 ' && bytes.length >= 30) {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && bytes.length >= 25) {
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && bytes.length >= 30) {
+    const w = bytes[24] | (bytes[25] << 8) | (bytes[26] << 16);
+    const h = bytes[27] | (bytes[28] << 8) | (bytes[29] << 16);
+    return { width: w + 1, height: h + 1 };
+  }
+  return {};
+}
+
+// AVIF (HEIF) stores the size in an 'ispe' property box inside 'meta'
+function avifSize(bytes: Uint8Array, view: DataView): Partial<ImageInfo> {
+  for (let i = 0; i + 20 <= bytes.length; i++) {
+    if (bytes[i] === 0x69 && ascii(bytes, i, 4) === 'ispe') {
+      return { width: view.getUint32(i + 8), height: view.getUint32(i + 12) };
+    }
+  }
+  return {};
+}
+
+function svgSize(text: string): Partial<ImageInfo> {
+  const tag = text.match(/<svg\b[^>]*>/i)?.[0];
+  if (!tag) return {};
+  const attr = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+  const px = (value: string | undefined) => (value && /^\s*[\d.]+(px)?\s*$/.test(value) ? Math.round(parseFloat(value)) : undefined);
+
+  const width = px(attr('width'));
+  const height = px(attr('height'));
+  if (width && height) return { width, height };
+
+  const viewBox = attr('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox && viewBox.length === 4 && viewBox.every(n => !Number.isNaN(n))) {
+    return { width: Math.round(viewBox[2]), height: Math.round(viewBox[3]) };
+  }
+  return {};
+}
+
+// Identify the format and intrinsic size from the first bytes of an image file
+export function readImageInfo(bytes: Uint8Array): ImageInfo {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') {
+    return { format: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes.length >= 10 && ascii(bytes, 0, 3) === 'GIF') {
+    return { format: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return { format: 'jpeg', ...jpegSize(bytes, view) };
+  }
+  if (bytes.length >= 16 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    return { format: 'webp', ...webpSize(bytes, view) };
+  }
+  if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp' && /^avi[fs]$/.test(ascii(bytes, 8, 4))) {
+    return { format: 'avif', ...avifSize(bytes, view) };
+  }
+  if (bytes.length >= 26 && ascii(bytes, 0, 2) === 'BM') {
+    return { format: 'bmp', width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+  }
+  if (bytes.length >= 8 && view.getUint32(0) === 0x00000100) {
+    // 0 in the directory entry means 256
+    return { format: 'ico', width: bytes[6] || 256, height: bytes[7] || 256 };
+  }
+
+  const text = new TextDecoder().decode(bytes.subarray(0, Math.min(bytes.length, 4096)));
+  if (/<svg\b/i.test(text)) return { format: 'svg', ...svgSize(text) };
+
+  return { format: 'unknown' };
+}
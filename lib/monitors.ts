@@ -0,0 +1,329 @@
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AuditOptions } from './audit';
+import { nextCronRun, parseCron, shortestCronInterval } from './cron';
+import { dataDir, normalizeAuditUrl, type AuditMeta } from './history';
+import { parseAuditOptions } from './request-options';
+import { checkTargetUrl, type UnsafeUrlError } from './url-safety';
+
+export type WebhookFormat = 'json' | 'slack';
+
+export type Webhook = {
+  url: string;
+  // `json` posts the alert as is; `slack` posts `{ text }` for Slack-compatible incoming webhooks
+  format: WebhookFormat;
+};
+
+export type AlertType = 'score-drop' | 'new-broken-link' | 'new-mixed-content' | 'site-down' | 'site-recovered';
+
+export const ALERT_TYPES: AlertType[] = ['score-drop', 'new-broken-link', 'new-mixed-content', 'site-down', 'site-recovered'];
+
+export type Monitor = {
+  id: string;
+  url: string;
+  // Cron expression or @hourly/@daily/@weekly/@monthly, in server local time
+  schedule: string;
+  enabled: boolean;
+  // Alert when the score falls by more than this many points since the previous run
+  scoreDropThreshold: number;
+  // Alert types to send; all when empty
+  alertOn: AlertType[];
+  webhooks: Webhook[];
+  // Per-page audit options, as accepted by POST /api/audit
+  audit: AuditOptions;
+  // The API key that created it; only that key sees and changes it, and its runs count
+  // against that key's quota. null (or missing, for older monitors) when created without one.
+  apiKeyId?: string | null;
+  // Who scheduled runs are charged to and who the monitor counts against: `key:<id>`, or
+  // `ip:<address>` when created without a key. Missing on older monitors (see monitorSubject).
+  subject?: string;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string | null;
+  lastRunAt?: string;
+  // History id of the last completed run, the baseline for the next one
+  lastAuditId?: string;
+  lastScore?: number | null;
+  lastError?: string | null;
+  down?: boolean;
+};
+
+export type WebhookDelivery = {
+  url: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+};
+
+export type Alert = {
+  id: string;
+  monitorId: string;
+  url: string;
+  type: AlertType;
+  message: string;
+  details: string[];
+  createdAt: string;
+  auditId?: string;
+  previousAuditId?: string;
+  score?: number | null;
+  previousScore?: number | null;
+  deliveries: WebhookDelivery[];
+};
+
+// What POST /api/monitors and PATCH /api/monitors/:id accept
+export type MonitorInput = Partial<Pick<Monitor, 'url' | 'schedule' | 'enabled' | 'scoreDropThreshold' | 'alertOn' | 'webhooks' | 'audit'>>;
+
+export const DEFAULT_MONITOR_OPTIONS = {
+  schedule: '@daily',
+  scoreDropThreshold: 5,
+};
+
+// Per key, or per IP for monitors created without one
+export const MAX_MONITORS_PER_OWNER = 20;
+export const MAX_WEBHOOKS = 10;
+// Every run is an audit, so schedules can't fire more often than this
+export const MIN_MONITOR_INTERVAL_MINUTES = 5;
+
+// AUDIT_DATA_DIR/monitors.json holds every monitor; alerts.jsonl one alert per line
+function monitorsFile(): string {
+  return path.join(dataDir(), 'monitors.json');
+}
+
+function alertsFile(): string {
+  return path.join(dataDir(), 'alerts.jsonl');
+}
+
+export class MonitorInputError extends Error {}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const u = new URL(value);
+    return u.protocol === 'http:' || u.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function parseWebhooks(input: unknown): Webhook[] {
+  if (!Array.isArray(input)) throw new MonitorInputError('`webhooks` must be an array');
+  if (input.length > MAX_WEBHOOKS) throw new MonitorInputError(`A monitor can have at most ${MAX_WEBHOOKS} webhooks`);
+  return input.map(entry => {
+    // a bare URL posts generic JSON
+    const { url, format } = isRecord(entry) ? entry : { url: entry, format: undefined };
+    if (!isHttpUrl(url)) throw new MonitorInputError(`Invalid webhook URL ${JSON.stringify(url)}`);
+    if (format !== undefined && format !== 'json' && format !== 'slack') {
+      throw new MonitorInputError('Webhook `format` must be "json" or "slack"');
+    }
+    return { url, format: format ?? (new URL(url).hostname === 'hooks.slack.com' ? 'slack' : 'json') };
+  });
+}
+
+// Validate the fields present in the body; throws MonitorInputError with a message for the caller
+export function parseMonitorInput(body: unknown): MonitorInput {
+  if (!isRecord(body)) throw new MonitorInputError('Request body must be a JSON object');
+
+  const input: MonitorInput = {};
+  if (body.url !== undefined) {
+    if (!isHttpUrl(body.url)) throw new MonitorInputError('`url` must be an http(s) URL');
+    input.url = normalizeAuditUrl(body.url);
+  }
+  if (body.schedule !== undefined) {
+    if (typeof body.schedule !== 'string') throw new MonitorInputError('`schedule` must be a cron expression');
+    let interval: number;
+    try {
+      interval = shortestCronInterval(parseCron(body.schedule));
+    } catch (err) {
+      throw new MonitorInputError(err instanceof Error ? err.message : String(err));
+    }
+    if (interval < MIN_MONITOR_INTERVAL_MINUTES) {
+      throw new MonitorInputError(`\`schedule\` must leave at least ${MIN_MONITOR_INTERVAL_MINUTES} minutes between runs`);
+    }
+    input.schedule = body.schedule.trim();
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') throw new MonitorInputError('`enabled` must be a boolean');
+    input.enabled = body.enabled;
+  }
+  if (body.scoreDropThreshold !== undefined) {
+    if (typeof body.scoreDropThreshold !== 'number' || !(body.scoreDropThreshold >= 0)) {
+      throw new MonitorInputError('`scoreDropThreshold` must be a non-negative number');
+    }
+    input.scoreDropThreshold = body.scoreDropThreshold;
+  }
+  if (body.alertOn !== undefined) {
+    if (!Array.isArray(body.alertOn) || body.alertOn.some(t => !ALERT_TYPES.includes(t))) {
+      throw new MonitorInputError(`\`alertOn\` must list alert types from: ${ALERT_TYPES.join(', ')}`);
+    }
+    input.alertOn = [...new Set(body.alertOn as AlertType[])];
+  }
+  if (body.webhooks !== undefined) input.webhooks = parseWebhooks(body.webhooks);
+  // `audit: { checks?, scoring?, performance?, budgets?, checkTimeoutMs? }` as for POST /api/audit
+  if (body.audit !== undefined) {
+    if (!isRecord(body.audit)) throw new MonitorInputError('`audit` must be an object');
+    input.audit = parseAuditOptions(body.audit);
+  }
+  return input;
+}
+
+// The first monitored or webhook URL the URL-safety policy refuses
+export async function findUnsafeMonitorUrl(input: MonitorInput): Promise<UnsafeUrlError | null> {
+  for (const url of [input.url, ...(input.webhooks ?? []).map(w => w.url)]) {
+    const rejection = url ? await checkTargetUrl(url) : null;
+    if (rejection) return rejection;
+  }
+  return null;
+}
+
+export function monitorSubject(monitor: Pick<Monitor, 'apiKeyId' | 'subject'>): string {
+  return monitor.subject ?? (monitor.apiKeyId ? `key:${monitor.apiKeyId}` : 'ip:unknown');
+}
+
+function nextRunAt(monitor: Pick<Monitor, 'schedule' | 'enabled'>, after = new Date()): string | null {
+  return monitor.enabled ? nextCronRun(monitor.schedule, after).toISOString() : null;
+}
+
+// Read-modify-write of monitors.json is serialized so concurrent updates don't lose each other
+let writes: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const run = writes.then(fn);
+  writes = run.catch(() => {});
+  return run;
+}
+
+async function readMonitors(): Promise<Monitor[]> {
+  try {
+    return JSON.parse(await readFile(monitorsFile(), 'utf8')) as Monitor[];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+// Write to a temp file and rename so a crash never leaves half a file
+async function writeMonitors(monitors: Monitor[]): Promise<void> {
+  await mkdir(dataDir(), { recursive: true });
+  const tmp = `${monitorsFile()}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(monitors, null, 2));
+  await rename(tmp, monitorsFile());
+}
+
+export async function listMonitors(): Promise<Monitor[]> {
+  return readMonitors();
+}
+
+export async function getMonitor(id: string): Promise<Monitor | null> {
+  return (await readMonitors()).find(m => m.id === id) ?? null;
+}
+
+// `meta.subject` is the creating client's (see Monitor.subject)
+export async function createMonitor(input: MonitorInput, meta: AuditMeta & { subject?: string } = {}): Promise<Monitor> {
+  const { url } = input;
+  if (!url) throw new MonitorInputError('Missing `url`');
+  const subject = meta.subject ?? monitorSubject({ apiKeyId: meta.apiKeyId });
+
+  return serialized(async () => {
+    const monitors = await readMonitors();
+    if (monitors.filter(m => monitorSubject(m) === subject).length >= MAX_MONITORS_PER_OWNER) {
+      throw new MonitorInputError(`At most ${MAX_MONITORS_PER_OWNER} monitors can be configured per ${subject.startsWith('key:') ? 'API key' : 'client'}`);
+    }
+
+    const now = new Date().toISOString();
+    const monitor: Monitor = {
+      id: randomUUID(),
+      url,
+      schedule: input.schedule ?? DEFAULT_MONITOR_OPTIONS.schedule,
+      enabled: input.enabled ?? true,
+      scoreDropThreshold: input.scoreDropThreshold ?? DEFAULT_MONITOR_OPTIONS.scoreDropThreshold,
+      alertOn: input.alertOn ?? [],
+      webhooks: input.webhooks ?? [],
+      audit: input.audit ?? {},
+      apiKeyId: meta.apiKeyId ?? null,
+      subject,
+      createdAt: now,
+      updatedAt: now,
+      nextRunAt: null,
+    };
+    monitor.nextRunAt = nextRunAt(monitor);
+    await writeMonitors([...monitors, monitor]);
+    return monitor;
+  });
+}
+
+// Apply `changes` to a stored monitor; a new schedule or re-enabling reschedules it from now,
+// and a new URL starts it over without a baseline
+export function updateMonitor(id: string, changes: MonitorInput | ((monitor: Monitor) => Partial<Monitor>)): Promise<Monitor | null> {
+  return serialized(async () => {
+    const monitors = await readMonitors();
+    const index = monitors.findIndex(m => m.id === id);
+    if (index === -1) return null;
+
+    const current = monitors[index];
+    const patch = typeof changes === 'function' ? changes(current) : changes;
+    const updated: Monitor = { ...current, ...patch, updatedAt: new Date().toISOString() };
+    if (typeof changes !== 'function' && (changes.schedule !== undefined || changes.enabled !== undefined)) {
+      updated.nextRunAt = nextRunAt(updated);
+    }
+    // the last run audited another site, so it's no baseline for regressions or recovery
+    if (updated.url !== current.url) {
+      updated.lastAuditId = undefined;
+      updated.lastScore = undefined;
+      updated.down = undefined;
+    }
+    monitors[index] = updated;
+    await writeMonitors(monitors);
+    return updated;
+  });
+}
+
+export function deleteMonitor(id: string): Promise<boolean> {
+  return serialized(async () => {
+    const monitors = await readMonitors();
+    const remaining = monitors.filter(m => m.id !== id);
+    if (remaining.length === monitors.length) return false;
+    await writeMonitors(remaining);
+    return true;
+  });
+}
+
+// The run after `after` for a monitor that just ran
+export function scheduleNextRun(monitor: Monitor, after = new Date()): string | null {
+  return nextRunAt(monitor, after);
+}
+
+export function saveAlert(alert: Alert): Promise<Alert> {
+  return serialized(async () => {
+    await mkdir(dataDir(), { recursive: true });
+    await appendFile(alertsFile(), `${JSON.stringify(alert)}\n`);
+    return alert;
+  });
+}
+
+// Newest first
+export async function listAlerts(query: { monitorId?: string; limit?: number } = {}): Promise<Alert[]> {
+  let text: string;
+  try {
+    text = await readFile(alertsFile(), 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const alerts: Alert[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const alert = JSON.parse(line) as Alert;
+      if (!query.monitorId || alert.monitorId === query.monitorId) alerts.push(alert);
+    } catch {
+      // a line cut short by a crash is skipped rather than failing every read
+    }
+  }
+  return alerts.reverse().slice(0, query.limit ?? alerts.length);
+}
@@ -0,0 +1,209 @@
+import { assertSafeUrl, UnsafeUrlError } from './url-safety';
+
+export type MetricSource = 'measured' | 'estimated';
+
+export type PerformanceMetrics = {
+  ttfbMs: number;
+  fcpMs: number;
+  lcpMs: number;
+  cls: number;
+  tbtMs: number;
+  transferBytes: number;
+};
+
+export type PerformanceMetric = keyof PerformanceMetrics;
+
+export type PerformanceOptions = {
+  // 'browser' loads the page in headless Chromium; anything else estimates from the HTML fetch
+  mode?: 'estimate' | 'browser';
+  timeoutMs?: number;
+  // Chromium binary to launch (defaults to CHROMIUM_PATH, then Playwright's own lookup)
+  executablePath?: string;
+  // Sent instead of Chromium's own; audits pass the one their HTTP client uses
+  userAgent?: string;
+};
+
+// What we know about the page from the plain HTML fetch
+export type EstimateInput = {
+  responseTimeMs: number;
+  htmlBytes: number;
+  imageCount: number;
+  imagesWithoutDimensions: number;
+  blockingScripts: number;
+};
+
+const DEFAULT_BROWSER_TIMEOUT_MS = 30000;
+
+// Time after load to let LCP and layout shifts settle
+const SETTLE_MS = 1000;
+
+// Estimate performance metrics from response time and HTML size.
+// Deterministic: the same page and response time always give the same numbers.
+export function estimateMetrics(input: EstimateInput): PerformanceMetrics {
+  // TTFB is roughly the response time to first byte
+  const ttfb = Math.max(input.responseTimeMs - 50, 0);
+
+  // FCP (First Contentful Paint) - estimate based on size and network speed
+  // Assume typical 4G speeds: ~100 KB/s, plus parse time for render-blocking scripts
+  const fcp = ttfb + Math.min(input.htmlBytes / 100, 500) + input.blockingScripts * 50;
+
+  // LCP (Largest Contentful Paint) - later when there are images to wait for
+  const lcp = fcp + Math.min(input.imageCount, 10) * 80;
+
+  // Images without width/height shift the layout as they load
+  const cls = Math.min(input.imagesWithoutDimensions * 0.05, 1);
+
+  // Each blocking script is assumed to hold the main thread for a while
+  const tbt = input.blockingScripts * 60;
+
+  return {
+    ttfbMs: Math.round(ttfb),
+    fcpMs: Math.round(fcp),
+    lcpMs: Math.round(lcp),
+    cls: Math.round(cls * 1000) / 1000,
+    tbtMs: Math.round(tbt),
+    // only the HTML document; subresources are unknown without a browser
+    transferBytes: input.htmlBytes,
+  };
+}
+
+type VitalsWindow = Window & {
+  __auditVitals?: { lcp: number; cls: number; longTasks: Array<{ start: number; duration: number }> };
+};
+
+// Registered before any page script runs so buffered entries are not missed
+function observeVitals() {
+  const w = window as VitalsWindow;
+  const vitals = { lcp: 0, cls: 0, longTasks: [] as Array<{ start: number; duration: number }> };
+  w.__auditVitals = vitals;
+
+  const observe = (type: string, onEntry: (entry: PerformanceEntry & { value?: number; hadRecentInput?: boolean }) => void) => {
+    try {
+      new PerformanceObserver(list => list.getEntries().forEach(onEntry)).observe({ type, buffered: true });
+    } catch {}
+  };
+
+  observe('largest-contentful-paint', entry => { vitals.lcp = entry.startTime; });
+  observe('layout-shift', entry => { if (!entry.hadRecentInput) vitals.cls += entry.value ?? 0; });
+  observe('longtask', entry => { vitals.longTasks.push({ start: entry.startTime, duration: entry.duration }); });
+}
+
+function collectVitals() {
+  const vitals = (window as VitalsWindow).__auditVitals ?? { lcp: 0, cls: 0, longTasks: [] };
+  const nav = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+  const fcp = performance.getEntriesByName('first-contentful-paint')[0]?.startTime ?? 0;
+
+  // TBT: the part of each long task after FCP that exceeds 50ms
+  const tbt = vitals.longTasks
+    .filter(t => t.start >= fcp)
+    .reduce((sum, t) => sum + Math.max(0, t.duration - 50), 0);
+
+  return {
+    ttfb: nav ? nav.responseStart - nav.startTime : 0,
+    fcp,
+    lcp: vitals.lcp || fcp,
+    cls: vitals.cls,
+    tbt,
+  };
+}
+
+// Each Chromium takes a few hundred MB, so AUDIT_MAX_BROWSERS (default 2) caps how many run at
+// once across the process; a crawl's pages and concurrent audits wait their turn
+const MAX_BROWSERS = Number(process.env.AUDIT_MAX_BROWSERS) || 2;
+
+type BrowserSlots = { active: number; waiting: Array<() => void> };
+
+// Route handlers can be bundled separately, so the slots live on globalThis to be shared
+const browsers: BrowserSlots = ((globalThis as { __auditBrowsers?: BrowserSlots }).__auditBrowsers ??= {
+  active: 0,
+  waiting: [],
+});
+
+async function acquireBrowser(): Promise<void> {
+  if (browsers.active < MAX_BROWSERS) {
+    browsers.active++;
+    return;
+  }
+  // the releasing audit hands its slot straight over
+  await new Promise<void>(resolve => browsers.waiting.push(resolve));
+}
+
+function releaseBrowser(): void {
+  const next = browsers.waiting.shift();
+  if (next) next();
+  else browsers.active--;
+}
+
+// Load the page in headless Chromium and read the metrics from the Performance APIs
+export async function measureWithBrowser(url: string, options: PerformanceOptions = {}): Promise<PerformanceMetrics> {
+  await acquireBrowser();
+  try {
+    return await measureInBrowser(url, options);
+  } finally {
+    releaseBrowser();
+  }
+}
+
+async function measureInBrowser(url: string, options: PerformanceOptions): Promise<PerformanceMetrics> {
+  const { chromium } = await import('playwright-core');
+  const browser = await chromium.launch({
+    headless: true,
+    executablePath: options.executablePath ?? process.env.CHROMIUM_PATH ?? undefined,
+  });
+
+  try {
+    // a service worker's requests would bypass the route below
+    const page = await browser.newPage({ userAgent: options.userAgent, serviceWorkers: 'block' });
+    // the page's own subresources get the same URL-safety checks as the audit's requests.
+    // Playwright only routes the first request of a redirect chain, so every request is made
+    // here without following redirects and each Location is checked before the page sees it.
+    await page.route('**/*', async route => {
+      try {
+        const url = route.request().url();
+        await assertSafeUrl(url);
+        const response = await route.fetch({ maxRedirects: 0 });
+        const location = response.headers().location;
+        if (response.status() >= 300 && response.status() < 400 && location) await assertSafeUrl(new URL(location, url));
+        await route.fulfill({ response });
+      } catch (err) {
+        await route.abort(err instanceof UnsafeUrlError ? 'blockedbyclient' : 'failed').catch(() => {});
+      }
+    });
+    await page.routeWebSocket(() => true, async ws => {
+      const allowed = await assertSafeUrl(ws.url().replace(/^ws/, 'http')).then(() => true, () => false);
+      if (allowed) ws.connectToServer();
+      else await ws.close().catch(() => {});
+    });
+    let transferBytes = 0;
+    const pending: Promise<void>[] = [];
+    page.on('requestfinished', request => {
+      pending.push(
+        request.sizes()
+          .then(sizes => { transferBytes += sizes.responseHeadersSize + sizes.responseBodySize; })
+          .catch(() => {}),
+      );
+    });
+
+    await page.addInitScript(observeVitals);
+    await page.goto(url, { waitUntil: 'load', timeout: options.timeoutMs ?? DEFAULT_BROWSER_TIMEOUT_MS });
+    await page.waitForTimeout(SETTLE_MS);
+
+    const vitals = await page.evaluate(collectVitals);
+    await Promise.all(pending);
+
+    return {
+      ttfbMs: Math.round(vitals.ttfb),
+      fcpMs: Math.round(vitals.fcp),
+      lcpMs: Math.round(vitals.lcp),
+      cls: Math.round(vitals.cls * 1000) / 1000,
+      tbtMs: Math.round(vitals.tbt),
+      transferBytes,
+    };
+  } finally {
+    await browser.close().catch(() => {});
+  }
+}
+
+export function resolvePerformanceMode(options: PerformanceOptions = {}): 'estimate' | 'browser' {
+  return (options.mode ?? process.env.AUDIT_PERFORMANCE_MODE) === 'browser' ? 'browser' : 'estimate';
+}
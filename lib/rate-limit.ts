@@ -0,0 +1,242 @@
+import { apiKeyFromRequest, apiKeyRequired, findApiKey, findApiKeyById, loadApiKeyConfig, type ApiLimits } from './api-keys';
+
+// Who an API request is counted against: its key, or its IP when it has none
+export type ApiClient = {
+  // `key:<id>` or `ip:<address>`
+  subject: string;
+  apiKeyId: string | null;
+  // null unless a trusted proxy reported it
+  ip: string | null;
+  limits: ApiLimits;
+  // Charged to the `ip:` bucket as well when a key is used from a known IP
+  ipLimits: ApiLimits | null;
+};
+
+export type Identity =
+  | { ok: true; client: ApiClient }
+  | { ok: false; status: 401 | 500; error: string; headers: Record<string, string> };
+
+export type Admission =
+  | { ok: true; client: ApiClient; headers: Record<string, string>; release: () => void }
+  | { ok: false; status: 401 | 429 | 500; error: string; headers: Record<string, string> };
+
+export type AdmissionOptions = {
+  // Taken from the daily quota; 0 for requests that don't run audits
+  audits?: number;
+  // Concurrency slots held until release(); 0 for work that runs in the background
+  slots?: number;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+type LimiterStore = {
+  buckets: Map<string, Bucket>;
+  // Audits started per subject on the current UTC day
+  daily: Map<string, { day: string; count: number }>;
+  running: Map<string, number>;
+};
+
+// Route handlers can be bundled separately, so the counters live on globalThis to be shared.
+// They are per process: with several server instances each enforces the limits on its own.
+const store: LimiterStore = ((globalThis as { __auditRateLimits?: LimiterStore }).__auditRateLimits ??= {
+  buckets: new Map(),
+  daily: new Map(),
+  running: new Map(),
+});
+
+// Idle subjects are forgotten past this many, once their bucket has refilled
+const MAX_TRACKED_SUBJECTS = 10000;
+
+// Retry-After when only the concurrent-audit limit is hit; audits take seconds, not minutes
+const CONCURRENCY_RETRY_AFTER_S = 5;
+
+// Route handlers don't see the socket, so the client IP can only come from the proxy in front
+// of the app. AUDIT_TRUSTED_PROXY_HOPS says how many proxies append to X-Forwarded-For; the
+// client is the entry the outermost one added. Without it the headers are client-controlled
+// and ignored: every request without a key then shares a single bucket. A chain shorter than
+// the hops was written by trusted proxies alone, so its left-most entry is the client.
+function clientIp(request: Request): string | null {
+  const hops = Math.floor(Number(process.env.AUDIT_TRUSTED_PROXY_HOPS) || 0);
+  if (hops <= 0) return null;
+  const chain = (request.headers.get('x-forwarded-for') ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  return chain[Math.max(0, chain.length - hops)] ?? null;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(now: number): number {
+  const tomorrow = new Date(now);
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((tomorrow.getTime() - now) / 1000);
+}
+
+// Refill the subject's bucket for the time since it was last touched
+function refill(subject: string, limits: ApiLimits, now: number): Bucket {
+  const bucket = store.buckets.get(subject) ?? { tokens: limits.burst, updatedAt: now };
+  const perMs = limits.ratePerMinute / 60000;
+  bucket.tokens = Math.min(limits.burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+  bucket.updatedAt = now;
+  store.buckets.set(subject, bucket);
+  return bucket;
+}
+
+function prune(now: number): void {
+  const today = utcDay(now);
+  for (const [subject, bucket] of store.buckets) {
+    // a bucket idle for an hour is full under any sane rate
+    if (now - bucket.updatedAt > 3600000 && !store.running.has(subject)) store.buckets.delete(subject);
+  }
+  for (const [subject, entry] of store.daily) {
+    if (entry.day !== today) store.daily.delete(subject);
+  }
+}
+
+function usedToday(subject: string, now: number): number {
+  const entry = store.daily.get(subject);
+  return entry && entry.day === utcDay(now) ? entry.count : 0;
+}
+
+type Charge = {
+  subject: string;
+  limits: ApiLimits;
+  // Added to refusals so the caller knows which limit they hit
+  scope: string;
+};
+
+// A key is charged to its own bucket and, when the IP is known, to that IP's
+function chargesFor(client: ApiClient): Charge[] {
+  const charges: Charge[] = [{ subject: client.subject, limits: client.limits, scope: '' }];
+  if (client.apiKeyId && client.ip && client.ipLimits) {
+    charges.push({ subject: `ip:${client.ip}`, limits: client.ipLimits, scope: ' from this IP' });
+  }
+  return charges;
+}
+
+function headersFor(limits: ApiLimits, bucket: Bucket, quotaUsed: number, now: number): Record<string, string> {
+  const perMs = limits.ratePerMinute / 60000;
+  const untilFull = perMs > 0 ? Math.ceil((limits.burst - bucket.tokens) / perMs / 1000) : 0;
+  return {
+    'X-RateLimit-Limit': String(limits.burst),
+    'X-RateLimit-Remaining': String(Math.max(0, Math.floor(bucket.tokens))),
+    'X-RateLimit-Reset': String(Math.max(0, untilFull)),
+    'X-Quota-Limit': String(limits.dailyQuota),
+    'X-Quota-Remaining': String(Math.max(0, limits.dailyQuota - quotaUsed)),
+    'X-Quota-Reset': String(secondsUntilNextUtcDay(now)),
+  };
+}
+
+function unauthorized(status: 401 | 500, error: string): Identity {
+  return { ok: false, status, error, headers: status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {} };
+}
+
+// Work out who is calling without charging anything; reads use it to scope what they return
+export async function authenticateRequest(request: Request): Promise<Identity> {
+  const ip = clientIp(request);
+  const key = apiKeyFromRequest(request);
+  try {
+    if (key) {
+      const found = await findApiKey(key);
+      if (!found || found.disabled) return unauthorized(401, 'Invalid or revoked API key');
+      return { ok: true, client: { subject: `key:${found.id}`, apiKeyId: found.id, ip, limits: found.limits, ipLimits: found.perIp } };
+    }
+    if (apiKeyRequired()) {
+      return unauthorized(401, 'An API key is required (Authorization: Bearer <key> or X-API-Key)');
+    }
+    const { anonymous } = await loadApiKeyConfig();
+    return { ok: true, client: { subject: `ip:${ip ?? 'unknown'}`, apiKeyId: null, ip, limits: anonymous, ipLimits: null } };
+  } catch (err) {
+    return unauthorized(500, `Could not read API keys: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Audits, batch jobs and monitors belong to the key that created them; requests without
+// a key share the ones created without one
+export function ownsResource(client: ApiClient, ownerKeyId: string | null | undefined): boolean {
+  return (ownerKeyId ?? null) === client.apiKeyId;
+}
+
+// Authenticate the request and take `audits` from its daily quota, a token from its rate
+// limit and `slots` concurrency slots, for the key and the IP it's used from. Call release()
+// when the work is over; a refused request consumes nothing.
+export async function admitAuditRequest(request: Request, options: AdmissionOptions = {}): Promise<Admission> {
+  const { audits = 1, slots = 1 } = options;
+  const identity = await authenticateRequest(request);
+  if (!identity.ok) return identity;
+  const { client } = identity;
+
+  const now = Date.now();
+  if (store.buckets.size > MAX_TRACKED_SUBJECTS) prune(now);
+  const charges = chargesFor(client).map(charge => {
+    const bucket = refill(charge.subject, charge.limits, now);
+    return { ...charge, bucket, used: usedToday(charge.subject, now), running: store.running.get(charge.subject) ?? 0 };
+  });
+
+  for (const { limits, bucket, used, running, scope } of charges) {
+    const headers = headersFor(limits, bucket, used, now);
+    const refuse = (error: string, retryAfter: number): Admission => ({
+      ok: false,
+      status: 429,
+      error,
+      headers: { ...headers, 'Retry-After': String(Math.max(1, Math.ceil(retryAfter))) },
+    });
+
+    if (used + audits > limits.dailyQuota) {
+      return refuse(`Daily quota of ${limits.dailyQuota} audits${scope} used up`, secondsUntilNextUtcDay(now));
+    }
+    // one token per request; a batch is paid for by the quota
+    if (bucket.tokens < 1) {
+      const perMs = limits.ratePerMinute / 60000;
+      return refuse(`Rate limit of ${limits.ratePerMinute} requests per minute${scope} exceeded`, perMs > 0 ? (1 - bucket.tokens) / perMs / 1000 : 60);
+    }
+    if (slots > 0 && running + slots > limits.maxConcurrent) {
+      return refuse(`At most ${limits.maxConcurrent} audits can run at once${scope}`, CONCURRENCY_RETRY_AFTER_S);
+    }
+  }
+
+  for (const charge of charges) {
+    charge.bucket.tokens -= 1;
+    store.daily.set(charge.subject, { day: utcDay(now), count: charge.used + audits });
+    if (slots > 0) store.running.set(charge.subject, charge.running + slots);
+  }
+
+  const [primary] = charges;
+  let released = slots <= 0;
+  return {
+    ok: true,
+    client,
+    headers: headersFor(primary.limits, primary.bucket, primary.used + audits, now),
+    release: () => {
+      if (released) return;
+      released = true;
+      for (const { subject } of charges) {
+        const count = (store.running.get(subject) ?? slots) - slots;
+        if (count > 0) store.running.set(subject, count);
+        else store.running.delete(subject);
+      }
+    },
+  };
+}
+
+// Scheduled monitor runs have no request to admit; they only count against the daily quota
+// of the subject that owns the monitor: its key, or the IP it was created from. Returns why
+// the run may not go ahead, or null.
+export async function takeScheduledQuota(subject: string, audits = 1): Promise<string | null> {
+  let limits: ApiLimits;
+  if (subject.startsWith('key:')) {
+    const apiKeyId = subject.slice('key:'.length);
+    const key = await findApiKeyById(apiKeyId);
+    if (!key || key.disabled) return `API key "${apiKeyId}" is no longer valid`;
+    limits = key.limits;
+  } else {
+    if (apiKeyRequired()) return 'An API key is now required';
+    limits = (await loadApiKeyConfig()).anonymous;
+  }
+
+  const now = Date.now();
+  const used = usedToday(subject, now);
+  if (used + audits > limits.dailyQuota) return `Daily quota of ${limits.dailyQuota} audits used up`;
+  store.daily.set(subject, { day: utcDay(now), count: used + audits });
+  return null;
+}
@@ -0,0 +1,468 @@
+import type { AuditResult } from './audit';
+import { A11Y_RULES, type A11yRule } from './checks/accessibility';
+import type { CheckCategory, CheckSeverity, CodeSnippet, FixEffort } from './checks/types';
+import type { ScoreCategory } from './scoring';
+
+export type Remediation = {
+  title: string;
+  effort: FixEffort;
+  remediation: string;
+  snippets?: CodeSnippet[];
+  // For problems only the scoring rules report; findings carry their own severity
+  severity?: CheckSeverity;
+};
+
+export type TopFix = {
+  // The score deduction id, or the finding id for findings that cost no points
+  id: string;
+  title: string;
+  category: ScoreCategory | CheckCategory;
+  severity: CheckSeverity;
+  // Overall score points expected back once fixed
+  impact: number;
+  effort: FixEffort;
+  remediation: string;
+  snippets?: CodeSnippet[];
+  // Ids of the findings this fix resolves
+  findings: string[];
+  details: string[];
+};
+
+export const TOP_FIXES_LIMIT = 5;
+
+const http = (code: string, label?: string): CodeSnippet => ({ language: 'http', code, label });
+const html = (code: string, label?: string): CodeSnippet => ({ language: 'html', code, label });
+
+// Keyed by score deduction id (lib/scoring.ts) or finding id; `prefix:*` entries cover a family
+export const REMEDIATIONS: Record<string, Remediation> = {
+  // Security
+  'no-https': {
+    title: 'Serve the site over HTTPS',
+    effort: 'medium',
+    severity: 'critical',
+    remediation: 'Install a TLS certificate (e.g. from Let\'s Encrypt) and permanently redirect every HTTP URL to its HTTPS equivalent.',
+    snippets: [{ language: 'nginx', label: 'nginx', code: 'server {\n  listen 80;\n  server_name example.com;\n  return 301 https://$host$request_uri;\n}' }],
+  },
+  'no-hsts': {
+    title: 'Enable HSTS',
+    effort: 'low',
+    severity: 'medium',
+    remediation: 'Send Strict-Transport-Security so browsers never request the site over plain HTTP again.',
+    snippets: [http('Strict-Transport-Security: max-age=31536000; includeSubDomains; preload')],
+  },
+  'header:strict-transport-security': {
+    title: 'Enable HSTS',
+    effort: 'low',
+    remediation: 'Send Strict-Transport-Security with a max-age of at least one year and includeSubDomains once every subdomain serves HTTPS.',
+    snippets: [http('Strict-Transport-Security: max-age=31536000; includeSubDomains; preload')],
+  },
+  'header:content-security-policy': {
+    title: 'Add a Content-Security-Policy',
+    effort: 'high',
+    remediation: 'Start with a report-only policy listing the origins your scripts and styles come from, fix the reported violations, then enforce it. Avoid \'unsafe-inline\' and \'unsafe-eval\' in script-src.',
+    snippets: [
+      http("Content-Security-Policy: default-src 'self'; script-src 'self'; object-src 'none'; base-uri 'self'; frame-ancestors 'self'", 'Enforced policy'),
+      http("Content-Security-Policy-Report-Only: default-src 'self'; report-uri /csp-reports", 'Trial run'),
+    ],
+  },
+  'header:x-frame-options': {
+    title: 'Prevent clickjacking',
+    effort: 'low',
+    remediation: 'Forbid other sites from framing the page with CSP frame-ancestors (and X-Frame-Options for older browsers).',
+    snippets: [http("Content-Security-Policy: frame-ancestors 'self'\nX-Frame-Options: SAMEORIGIN")],
+  },
+  'header:x-content-type-options': {
+    title: 'Disable MIME sniffing',
+    effort: 'low',
+    remediation: 'Send X-Content-Type-Options: nosniff on every response so browsers trust the declared Content-Type.',
+    snippets: [http('X-Content-Type-Options: nosniff')],
+  },
+  'header:referrer-policy': {
+    title: 'Set a Referrer-Policy',
+    effort: 'low',
+    remediation: 'Limit how much of the URL is sent to other origins.',
+    snippets: [http('Referrer-Policy: strict-origin-when-cross-origin')],
+  },
+  'header:permissions-policy': {
+    title: 'Restrict browser features',
+    effort: 'low',
+    remediation: 'Turn off powerful features the site does not use, for the page and anything it embeds.',
+    snippets: [http('Permissions-Policy: camera=(), microphone=(), geolocation=(), payment=()')],
+  },
+  'header:cross-origin-opener-policy': {
+    title: 'Isolate the browsing context',
+    effort: 'low',
+    remediation: 'Stop pages in other windows from keeping a reference to this one.',
+    snippets: [http('Cross-Origin-Opener-Policy: same-origin')],
+  },
+  'header:cross-origin-embedder-policy': {
+    title: 'Require CORP for embedded resources',
+    effort: 'medium',
+    remediation: 'Only needed for cross-origin isolation (SharedArrayBuffer, precise timers); every embedded resource must then opt in with CORP or CORS.',
+    snippets: [http('Cross-Origin-Embedder-Policy: require-corp')],
+  },
+  'header:cross-origin-resource-policy': {
+    title: 'Control who can embed your resources',
+    effort: 'low',
+    remediation: 'Declare which origins may load this resource.',
+    snippets: [http('Cross-Origin-Resource-Policy: same-site')],
+  },
+  'mixed-content': {
+    title: 'Remove mixed content',
+    effort: 'medium',
+    remediation: 'Change every http:// resource URL to https:// (or a relative URL). As a stopgap, ask browsers to upgrade the requests.',
+    snippets: [http('Content-Security-Policy: upgrade-insecure-requests')],
+  },
+
+  // Performance
+  'slow-response': {
+    title: 'Speed up the server response',
+    effort: 'high',
+    severity: 'medium',
+    remediation: 'Cache rendered pages or API responses, put a CDN in front of the origin, and profile slow database queries.',
+  },
+  'slow-ttfb': {
+    title: 'Reduce time to first byte',
+    effort: 'high',
+    severity: 'medium',
+    remediation: 'Serve HTML from a CDN or cache, avoid redirects before the document, and keep server-side work off the critical path.',
+  },
+  'slow-fcp': {
+    title: 'Render sooner',
+    effort: 'medium',
+    severity: 'medium',
+    remediation: 'Inline critical CSS, defer non-critical scripts and preload the fonts used above the fold.',
+    snippets: [html('<link rel="preload" href="/fonts/main.woff2" as="font" type="font/woff2" crossorigin>\n<script src="/app.js" defer></script>')],
+  },
+  'slow-lcp': {
+    title: 'Load the largest content element faster',
+    effort: 'medium',
+    severity: 'high',
+    remediation: 'Preload the hero image, give it fetchpriority="high", never lazy-load it, and serve it at the displayed size in a modern format.',
+    snippets: [html('<link rel="preload" as="image" href="/hero.avif" fetchpriority="high">\n<img src="/hero.avif" width="1200" height="600" fetchpriority="high" alt="…">')],
+  },
+  'layout-shift': {
+    title: 'Stop layout shifts',
+    effort: 'medium',
+    severity: 'medium',
+    remediation: 'Reserve space for images, embeds and ads with width/height or aspect-ratio, and avoid inserting content above what is already shown.',
+    snippets: [html('<img src="/photo.jpg" width="800" height="450" alt="…">')],
+  },
+  'blocking-time': {
+    title: 'Reduce main-thread blocking',
+    effort: 'high',
+    severity: 'medium',
+    remediation: 'Split large JavaScript bundles, defer third-party scripts and move heavy work off the main thread.',
+    snippets: [html('<script src="/analytics.js" async></script>')],
+  },
+  'image-savings': {
+    title: 'Optimize images',
+    effort: 'medium',
+    remediation: 'Resize images to the size they are displayed at and re-encode them as WebP or AVIF, keeping a fallback in <picture> if needed.',
+    snippets: [html('<picture>\n  <source srcset="/photo.avif" type="image/avif">\n  <source srcset="/photo.webp" type="image/webp">\n  <img src="/photo.jpg" width="800" height="450" alt="…">\n</picture>')],
+  },
+  'image:missing-dimensions': {
+    title: 'Give images width and height',
+    effort: 'low',
+    remediation: 'Add width and height attributes matching the image\'s aspect ratio so the browser reserves space before it loads.',
+    snippets: [html('<img src="/photo.jpg" width="800" height="450" alt="…">')],
+  },
+  'image:not-lazy': {
+    title: 'Lazy-load images below the fold',
+    effort: 'low',
+    remediation: 'Add loading="lazy" to images that are not visible on first paint.',
+    snippets: [html('<img src="/photo.jpg" loading="lazy" width="800" height="450" alt="…">')],
+  },
+  'image:sizes-missing': {
+    title: 'Add sizes to responsive images',
+    effort: 'low',
+    remediation: 'Tell the browser how wide the image is displayed so it picks the right srcset candidate.',
+    snippets: [html('<img srcset="/p-400.jpg 400w, /p-800.jpg 800w" sizes="(max-width: 600px) 100vw, 400px" src="/p-800.jpg" alt="…">')],
+  },
+  'image:aspect-ratio': {
+    title: 'Fix distorted images',
+    effort: 'low',
+    remediation: 'Make the width/height attributes match the file\'s aspect ratio, or crop the file.',
+  },
+  'image:fetch-failed': {
+    title: 'Fix images that fail to load',
+    effort: 'low',
+    remediation: 'Check that every image URL returns 200 and is reachable without authentication.',
+  },
+
+  // SEO
+  'missing-title': {
+    title: 'Add a page title',
+    effort: 'low',
+    severity: 'high',
+    remediation: 'Give the page a unique, descriptive <title> of 30–60 characters.',
+    snippets: [html('<title>Product name – what it does | Brand</title>')],
+  },
+  'missing-meta-description': {
+    title: 'Add a meta description',
+    effort: 'low',
+    severity: 'medium',
+    remediation: 'Summarize the page in 70–160 characters; search engines often show it as the snippet.',
+    snippets: [html('<meta name="description" content="A short summary of what this page offers and why it matters.">')],
+  },
+  'missing-h1': {
+    title: 'Add an H1 heading',
+    effort: 'low',
+    severity: 'medium',
+    remediation: 'Give the page one <h1> that states its main topic.',
+    snippets: [html('<h1>Main topic of the page</h1>')],
+  },
+  'multiple-h1': {
+    title: 'Use a single H1',
+    effort: 'low',
+    severity: 'low',
+    remediation: 'Keep one <h1> for the page topic and demote the others to <h2>.',
+  },
+  noindex: {
+    title: 'Let search engines index the page',
+    effort: 'low',
+    remediation: 'Remove noindex from the meta robots tag or X-Robots-Tag header if this page should appear in search results.',
+    snippets: [html('<meta name="robots" content="index, follow">')],
+  },
+  'seo-issues': {
+    title: 'Fix on-page SEO issues',
+    effort: 'low',
+    remediation: 'Give each page a unique title and meta description of recommended length, a canonical link, and complete social tags.',
+  },
+  'title-length': {
+    title: 'Adjust the title length',
+    effort: 'low',
+    remediation: 'Keep titles between 30 and 60 characters so they are descriptive without being cut off.',
+  },
+  'description-length': {
+    title: 'Adjust the meta description length',
+    effort: 'low',
+    remediation: 'Keep meta descriptions between 70 and 160 characters.',
+  },
+  'canonical-missing': {
+    title: 'Add a canonical link',
+    effort: 'low',
+    remediation: 'Point search engines at the preferred URL of this page with an absolute canonical link.',
+    snippets: [html('<link rel="canonical" href="https://example.com/page">')],
+  },
+  'open-graph-incomplete': {
+    title: 'Complete the Open Graph tags',
+    effort: 'low',
+    remediation: 'Add the Open Graph tags social networks use for link previews.',
+    snippets: [html('<meta property="og:title" content="Page title">\n<meta property="og:type" content="website">\n<meta property="og:image" content="https://example.com/preview.png">\n<meta property="og:url" content="https://example.com/page">')],
+  },
+  'twitter-card-incomplete': {
+    title: 'Complete the Twitter Card tags',
+    effort: 'low',
+    remediation: 'Add the tags X/Twitter uses for link previews.',
+    snippets: [html('<meta name="twitter:card" content="summary_large_image">\n<meta name="twitter:title" content="Page title">\n<meta name="twitter:description" content="Short summary">\n<meta name="twitter:image" content="https://example.com/preview.png">')],
+  },
+  'structured-data-invalid': {
+    title: 'Fix invalid JSON-LD',
+    effort: 'low',
+    remediation: 'Make every <script type="application/ld+json"> block valid JSON with an @context and @type.',
+    snippets: [html('<script type="application/ld+json">\n{ "@context": "https://schema.org", "@type": "Organization", "name": "Brand", "url": "https://example.com" }\n</script>')],
+  },
+  'broken-links': {
+    title: 'Fix broken links',
+    effort: 'medium',
+    remediation: 'Update or remove links that return errors, and redirect moved pages to their new URL.',
+  },
+  'no-robots': {
+    title: 'Publish a robots.txt',
+    effort: 'low',
+    remediation: 'Serve /robots.txt that allows crawling and points to the sitemap.',
+    snippets: [{ language: 'text', label: '/robots.txt', code: 'User-agent: *\nAllow: /\n\nSitemap: https://example.com/sitemap.xml' }],
+  },
+  'blocked-by-robots': {
+    title: 'Unblock the page in robots.txt',
+    effort: 'low',
+    remediation: 'Remove or narrow the Disallow rule that matches this page for Googlebot.',
+  },
+  'no-sitemap': {
+    title: 'Publish an XML sitemap',
+    effort: 'low',
+    remediation: 'List every canonical URL in /sitemap.xml and reference it from robots.txt.',
+    snippets: [{ language: 'xml', label: '/sitemap.xml', code: '<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n  <url><loc>https://example.com/</loc><lastmod>2024-01-01</lastmod></url>\n</urlset>' }],
+  },
+  'sitemap-issues': {
+    title: 'Fix sitemap problems',
+    effort: 'low',
+    remediation: 'Make sure every sitemap file parses, lists only same-host URLs that return 200, and uses W3C datetimes for <lastmod>.',
+  },
+  'redirect-issues': {
+    title: 'Consolidate redirects',
+    effort: 'medium',
+    remediation: 'Redirect every variant (http, www, trailing slash) straight to the canonical HTTPS URL with a single 301.',
+    snippets: [{ language: 'nginx', label: 'nginx', code: 'server {\n  listen 80;\n  listen 443 ssl;\n  server_name www.example.com;\n  return 301 https://example.com$request_uri;\n}' }],
+  },
+
+  // Accessibility
+  'no-viewport': {
+    title: 'Add a viewport meta tag',
+    effort: 'low',
+    remediation: 'Tell mobile browsers to use the device width instead of a zoomed-out desktop layout.',
+    snippets: [html('<meta name="viewport" content="width=device-width, initial-scale=1">')],
+  },
+  'missing-alt': {
+    title: 'Add alt text to images',
+    effort: 'low',
+    remediation: 'Describe each meaningful image in its alt attribute; use alt="" for purely decorative ones.',
+    snippets: [html('<img src="/team.jpg" alt="Our team at the 2024 offsite">\n<img src="/divider.svg" alt="">')],
+  },
+  'a11y:label': {
+    title: 'Label form controls',
+    effort: 'low',
+    remediation: 'Associate a visible <label> with each input, or give it an aria-label.',
+    snippets: [html('<label for="email">Email</label>\n<input id="email" type="email" name="email">')],
+  },
+  'a11y:button-name': {
+    title: 'Name icon buttons',
+    effort: 'low',
+    remediation: 'Give buttons visible text or an aria-label describing the action.',
+    snippets: [html('<button aria-label="Close dialog"><svg aria-hidden="true">…</svg></button>')],
+  },
+  'a11y:link-name': {
+    title: 'Name links',
+    effort: 'low',
+    remediation: 'Give every link text (or an aria-label) that says where it goes.',
+    snippets: [html('<a href="/twitter" aria-label="Follow us on X"><svg aria-hidden="true">…</svg></a>')],
+  },
+  'a11y:html-lang': {
+    title: 'Declare the page language',
+    effort: 'low',
+    remediation: 'Set the lang attribute on <html> so screen readers pronounce the content correctly.',
+    snippets: [html('<html lang="en">')],
+  },
+  'a11y:frame-title': {
+    title: 'Title iframes',
+    effort: 'low',
+    remediation: 'Give each <iframe> a title describing its content.',
+    snippets: [html('<iframe src="https://www.youtube.com/embed/…" title="Product demo video"></iframe>')],
+  },
+  'a11y:*': {
+    title: 'Fix accessibility violations',
+    effort: 'low',
+    remediation: 'Fix each listed element so assistive technology can name and navigate it; see the WCAG criterion on the finding.',
+  },
+
+  // Best practices
+  'too-many-scripts': {
+    title: 'Reduce the number of scripts',
+    effort: 'high',
+    severity: 'low',
+    remediation: 'Bundle first-party scripts, drop unused third-party tags and load the rest with defer or async.',
+  },
+  'inline-styles': {
+    title: 'Move inline styles to stylesheets',
+    effort: 'medium',
+    severity: 'low',
+    remediation: 'Replace style attributes with classes in a stylesheet so they can be cached and kept consistent.',
+  },
+};
+
+const FALLBACK: Remediation = {
+  title: 'Review this finding',
+  effort: 'medium',
+  remediation: 'Review the details of this finding and fix each affected item.',
+};
+
+function lookup(id: string): Remediation | undefined {
+  const exact = REMEDIATIONS[id];
+  if (exact) return exact;
+
+  const family = REMEDIATIONS[`${id.split(':')[0]}:*`];
+  if (family && id.startsWith('a11y:')) {
+    // word the generic accessibility advice after the rule
+    const rule = A11Y_RULES[id.slice('a11y:'.length) as A11yRule];
+    return rule ? { ...family, title: `${rule.summary} (WCAG ${rule.wcag})` } : family;
+  }
+  return family;
+}
+
+// The advice for the first id the catalog knows, most specific first
+export function remediationFor(...ids: Array<string | undefined>): Remediation {
+  for (const id of ids) {
+    const known = id ? lookup(id) : undefined;
+    if (known) return known;
+  }
+  return FALLBACK;
+}
+
+const SEVERITY_RANK: Record<CheckSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Rough cost of each effort level, to rank quick wins above equally valuable large projects
+const EFFORT_COST: Record<FixEffort, number> = { low: 1, medium: 2, high: 4 };
+
+// Deductions only the scoring rules report get a severity from how many points they cost
+function severityFromPoints(points: number): CheckSeverity {
+  if (points >= 20) return 'high';
+  if (points >= 8) return 'medium';
+  return 'low';
+}
+
+function worstSeverity(severities: CheckSeverity[]): CheckSeverity {
+  return severities.reduce((worst, s) => (SEVERITY_RANK[s] < SEVERITY_RANK[worst] ? s : worst), 'low' as CheckSeverity);
+}
+
+// Spread each deduction's score impact over the findings behind it, then group everything into
+// fixes ranked by score gained per unit of effort
+export function prioritizeFixes(result: AuditResult, limit = TOP_FIXES_LIMIT): TopFix[] {
+  const findings = result.findings ?? [];
+  const deductions = result.scoreBreakdown ?? [];
+  const fixes: TopFix[] = [];
+
+  const byDeduction = new Map<string, typeof deductions>();
+  for (const d of deductions) {
+    if (!byDeduction.has(d.id)) byDeduction.set(d.id, []);
+    byDeduction.get(d.id)!.push(d);
+  }
+
+  for (const [id, group] of byDeduction) {
+    const related = findings.filter(f => f.deductionId === id);
+    const impact = Math.round(group.reduce((sum, d) => sum + d.impact, 0) * 10) / 10;
+    for (const f of related) f.impact = Math.round((impact / related.length) * 10) / 10;
+
+    const known = remediationFor(id);
+    const points = group.reduce((sum, d) => sum + d.points, 0);
+    // Findings with their own advice keep it when they are the whole fix
+    const shared = related.length && related.every(f => f.remediation === related[0].remediation) ? related[0] : undefined;
+    fixes.push({
+      id,
+      title: known === FALLBACK ? group[0].reason : known.title,
+      category: group[0].category,
+      severity: related.length ? worstSeverity(related.map(f => f.severity)) : known.severity ?? severityFromPoints(points),
+      impact,
+      effort: shared?.effort ?? known.effort,
+      remediation: shared?.remediation ?? known.remediation,
+      snippets: shared ? shared.snippets : known.snippets,
+      findings: related.map(f => f.id),
+      details: related.length ? related.map(f => f.message) : group.map(d => d.reason),
+    });
+  }
+
+  // Findings that cost no points are still worth fixing, after everything that does
+  for (const f of findings) {
+    if (byDeduction.has(f.deductionId)) continue;
+    const known = remediationFor(f.deductionId);
+    fixes.push({
+      id: f.id,
+      title: known === FALLBACK ? f.message : known.title,
+      category: f.category,
+      severity: f.severity,
+      impact: 0,
+      effort: f.effort,
+      remediation: f.remediation,
+      snippets: f.snippets,
+      findings: [f.id],
+      details: [f.message],
+    });
+  }
+
+  return fixes
+    .sort((a, b) =>
+      b.impact / EFFORT_COST[b.effort] - a.impact / EFFORT_COST[a.effort] ||
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      EFFORT_COST[a.effort] - EFFORT_COST[b.effort])
+    .slice(0, limit);
+}
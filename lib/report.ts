@@ -0,0 +1,368 @@
+import type { AuditResult } from './audit';
+import type { CheckFinding, CheckSeverity, CodeSnippet } from './checks';
+import type { SiteAuditResult } from './crawler';
+import { createHttpClient } from './http';
+import type { TopFix } from './remediation';
+import { SCORE_CATEGORIES } from './scoring';
+
+export type ReportBranding = {
+  // Shown in the header and the document title
+  companyName?: string;
+  // A data:image URL; an http(s) URL only from REPORT_LOGO_URL
+  logoUrl?: string;
+  primaryColor?: string;
+  accentColor?: string;
+  footerText?: string;
+};
+
+export type ReportInput = {
+  result: AuditResult | SiteAuditResult;
+  id?: string;
+  createdAt?: string;
+};
+
+export const DEFAULT_REPORT_BRANDING: Required<Omit<ReportBranding, 'logoUrl'>> & { logoUrl?: string } = {
+  companyName: 'Website Audit',
+  primaryColor: '#1f2937',
+  accentColor: '#3b82f6',
+  footerText: 'Generated by Website Audit',
+};
+
+const SEVERITY_ORDER: CheckSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+const SEVERITY_COLORS: Record<CheckSeverity, string> = {
+  critical: '#991b1b',
+  high: '#dc2626',
+  medium: '#d97706',
+  low: '#2563eb',
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  performance: 'Performance',
+  security: 'Security',
+  seo: 'SEO',
+  accessibility: 'Accessibility',
+  'best-practices': 'Best Practices',
+};
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Branding lands in CSS and attributes, so only plain colors and image URLs get through
+function safeColor(value: string | undefined, fallback: string): string {
+  return value && /^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(value) ? value : fallback;
+}
+
+const DATA_LOGO = /^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,[a-z0-9+/=]+$/i;
+
+// Logos larger than this aren't inlined into PDFs
+const MAX_LOGO_BYTES = 1024 * 1024;
+
+// Only the operator's REPORT_LOGO_URL may point at a server; a caller's logo is inlined, so
+// rendering the report never fetches a URL the caller picked
+function safeLogo(value: string | undefined, remote: boolean): string | undefined {
+  if (!value) return undefined;
+  if (DATA_LOGO.test(value)) return value;
+  if (!remote) return undefined;
+  try {
+    const u = new URL(value);
+    return u.protocol === 'http:' || u.protocol === 'https:' ? u.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Environment defaults (REPORT_COMPANY_NAME, REPORT_LOGO_URL, REPORT_PRIMARY_COLOR, REPORT_ACCENT_COLOR,
+// REPORT_FOOTER_TEXT) with per-request overrides on top
+export function resolveBranding(overrides: ReportBranding = {}): Required<Omit<ReportBranding, 'logoUrl'>> & { logoUrl?: string } {
+  const env = process.env;
+  return {
+    companyName: overrides.companyName || env.REPORT_COMPANY_NAME || DEFAULT_REPORT_BRANDING.companyName,
+    logoUrl: safeLogo(overrides.logoUrl, false) ?? safeLogo(env.REPORT_LOGO_URL, true),
+    primaryColor: safeColor(overrides.primaryColor || env.REPORT_PRIMARY_COLOR, DEFAULT_REPORT_BRANDING.primaryColor),
+    accentColor: safeColor(overrides.accentColor || env.REPORT_ACCENT_COLOR, DEFAULT_REPORT_BRANDING.accentColor),
+    footerText: overrides.footerText || env.REPORT_FOOTER_TEXT || DEFAULT_REPORT_BRANDING.footerText,
+  };
+}
+
+function scoreColor(score: number): string {
+  if (score >= 80) return '#10b981';
+  if (score >= 60) return '#f59e0b';
+  if (score >= 40) return '#f97316';
+  return '#ef4444';
+}
+
+// The same radial gauge as the /audit page, as static SVG
+function scoreRing(score: number, radius = 54, strokeWidth = 6): string {
+  const r = radius - strokeWidth / 2;
+  const circumference = r * 2 * Math.PI;
+  const offset = circumference - (score / 100) * circumference;
+  return `<svg width="${radius * 2}" height="${radius * 2}" viewBox="0 0 ${radius * 2} ${radius * 2}">
+  <circle cx="${radius}" cy="${radius}" r="${r}" fill="none" stroke="#e5e7eb" stroke-width="${strokeWidth}"/>
+  <circle cx="${radius}" cy="${radius}" r="${r}" fill="none" stroke="${scoreColor(score)}" stroke-width="${strokeWidth}"
+    stroke-dasharray="${circumference.toFixed(2)}" stroke-dashoffset="${offset.toFixed(2)}" stroke-linecap="round"
+    transform="rotate(-90 ${radius} ${radius})"/>
+  <text x="${radius}" y="${radius}" text-anchor="middle" dy=".35em" font-size="${Math.round(radius / 2.4)}" font-weight="bold" fill="#111827">${score}</text>
+</svg>`;
+}
+
+function pill(label: string, value: string, type: 'pass' | 'fail' | 'warning' | 'neutral'): string {
+  return `<span class="pill pill-${type}">${escapeHtml(label)}: <strong>${escapeHtml(value)}</strong></span>`;
+}
+
+function kb(bytes: number | undefined): string {
+  return bytes === undefined ? '–' : `${Math.round(bytes / 1024)} KB`;
+}
+
+function statusOverview(r: AuditResult): string {
+  return `<div class="pills">
+  ${pill('HTTP Status', String(r.status ?? 'N/A'), r.status === 200 ? 'pass' : 'fail')}
+  ${pill('HTTPS', r.isHttps ? '✓' : '✗', r.isHttps ? 'pass' : 'fail')}
+  ${pill('HSTS', r.hasHsts ? '✓' : '✗', r.hasHsts ? 'pass' : 'warning')}
+  ${pill('Mobile Viewport', r.hasViewport ? '✓' : '✗', r.hasViewport ? 'pass' : 'fail')}
+  ${pill('Robots.txt', r.robots?.found ? '✓' : '✗', r.robots?.found ? 'pass' : 'neutral')}
+  ${pill('Sitemap', r.sitemap?.found ? '✓' : '✗', r.sitemap?.found ? 'pass' : 'neutral')}
+  ${pill('Mixed Content', r.hasMixedContent ? 'Found' : 'None', r.hasMixedContent ? 'fail' : 'pass')}
+</div>`;
+}
+
+function metricsTable(r: AuditResult): string {
+  const rows: Array<[string, string, string | undefined]> = [
+    ['TTFB (Time to First Byte)', `${r.ttfbMs ?? 0} ms`, r.metricSources?.ttfbMs],
+    ['FCP (First Contentful Paint)', `${r.fcpMs ?? 0} ms`, r.metricSources?.fcpMs],
+    ['LCP (Largest Contentful Paint)', `${r.lcpMs ?? 0} ms`, r.metricSources?.lcpMs],
+    ['CLS (Cumulative Layout Shift)', String(r.cls ?? 0), r.metricSources?.cls],
+    ['TBT (Total Blocking Time)', `${r.tbtMs ?? 0} ms`, r.metricSources?.tbtMs],
+    ['Transfer Size', kb(r.transferBytes), r.metricSources?.transferBytes],
+    ['Response Time', `${r.responseTimeMs ?? 0} ms`, undefined],
+  ];
+  return `<table>
+  <thead><tr><th>Metric</th><th>Value</th><th>Source</th></tr></thead>
+  <tbody>${rows.map(([label, value, source]) => `<tr><td>${label}</td><td>${escapeHtml(value)}</td><td>${escapeHtml(source ?? '')}</td></tr>`).join('')}</tbody>
+</table>`;
+}
+
+function categoryScores(r: AuditResult): string {
+  if (!r.categoryScores) return '';
+  return `<div class="categories">${SCORE_CATEGORIES.map(c => `<div class="category">${scoreRing(r.categoryScores![c], 36, 4)}<div>${CATEGORY_LABELS[c]}</div></div>`).join('')}</div>`;
+}
+
+function budgetSection(r: AuditResult): string {
+  if (!r.budget) return '';
+  const rows = r.budget.assertions.map(a => {
+    const value = (v: number | null) => (v === null ? '–' : a.unit === 'bytes' ? kb(v) : `${v}${a.unit}`);
+    return `<tr class="budget-${a.status}"><td>${escapeHtml(a.label)}</td><td>${value(a.actual)}</td><td>${a.comparison === 'max' ? '≤' : '≥'} ${value(a.limit)}</td><td>${a.status}${a.note ? ` (${escapeHtml(a.note)})` : ''}</td></tr>`;
+  });
+  return `<h2>Budget ${r.budget.passed ? '— all passed' : `— ${r.budget.violations} violation(s)`}</h2>
+<table><thead><tr><th>Budget</th><th>Actual</th><th>Limit</th><th>Status</th></tr></thead><tbody>${rows.join('')}</tbody></table>`;
+}
+
+function snippetBlocks(snippets: CodeSnippet[] | undefined): string {
+  return (snippets ?? [])
+    .map(sn => `${sn.label ? `<div class="snippet-label">${escapeHtml(sn.label)}</div>` : ''}<pre class="snippet">${escapeHtml(sn.code)}</pre>`)
+    .join('');
+}
+
+function topFixesSection(fixes: TopFix[] | undefined): string {
+  if (!fixes?.length) return '';
+  return `<h2>Top Fixes</h2>
+<ol class="fixes">${fixes.map(fix => `<li class="card" style="border-left-color:${SEVERITY_COLORS[fix.severity]}">
+  <div class="card-title"><span class="severity" style="background:${SEVERITY_COLORS[fix.severity]}">${fix.severity}</span> ${escapeHtml(fix.title)}
+    <span class="muted">${fix.impact > 0 ? `+${fix.impact} points` : 'no score impact'} · ${fix.effort} effort</span></div>
+  <ul>${fix.details.slice(0, 5).map(d => `<li>${escapeHtml(d)}</li>`).join('')}</ul>
+  <p class="remediation"><strong>How to fix:</strong> ${escapeHtml(fix.remediation)}</p>
+  ${snippetBlocks(fix.snippets)}
+</li>`).join('\n')}</ol>`;
+}
+
+// One card per finding, worst severity and biggest score impact first, with what to do about it
+function issueCards(findings: CheckFinding[]): string {
+  if (findings.length === 0) return '<p class="muted">No issues found.</p>';
+
+  return [...findings]
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.impact - a.impact)
+    .map(f => `<div class="card" style="border-left-color:${SEVERITY_COLORS[f.severity]}">
+  <div class="card-title"><span class="severity" style="background:${SEVERITY_COLORS[f.severity]}">${f.severity}</span> ${escapeHtml(f.message)}
+    <span class="muted">${escapeHtml(f.checkId)}${f.impact > 0 ? ` · −${f.impact} points` : ''} · ${f.effort} effort</span></div>
+  ${f.details?.length ? `<ul>${f.details.slice(0, 10).map(d => `<li>${escapeHtml(d)}</li>`).join('')}</ul>` : ''}
+  <p class="remediation"><strong>How to fix:</strong> ${escapeHtml(f.remediation)}</p>
+  ${snippetBlocks(f.snippets)}
+</div>`)
+    .join('\n');
+}
+
+function brokenLinksAppendix(r: AuditResult): string {
+  const links = r.brokenLinks ?? [];
+  if (links.length === 0) return '<p class="muted">No broken links.</p>';
+  return `<table>
+  <thead><tr><th>URL</th><th>Type</th><th>Internal</th><th>Status</th></tr></thead>
+  <tbody>${links.map(l => `<tr><td class="url">${escapeHtml(l.url)}</td><td>${escapeHtml(l.type ?? 'link')}</td><td>${l.internal ? 'yes' : 'no'}</td><td>${escapeHtml(l.statusCode ?? l.error ?? '')}</td></tr>`).join('')}</tbody>
+</table>`;
+}
+
+function imageAppendix(r: AuditResult): string {
+  const images = r.imageIssues ?? [];
+  if (images.length === 0) return '<p class="muted">No image issues.</p>';
+  return `<table>
+  <thead><tr><th>Image</th><th>Size</th><th>Savings</th><th>Problems</th></tr></thead>
+  <tbody>${images.map(img => `<tr><td class="url">${escapeHtml(img.src)}</td><td>${kb(img.bytes)}</td><td>${kb(img.estimatedSavingsBytes)}</td><td>${img.problems.map(p => escapeHtml(p.message)).join('<br>')}</td></tr>`).join('')}</tbody>
+</table>`;
+}
+
+function pageSections(r: AuditResult): string {
+  if (r.error) return `<div class="error"><strong>Audit error:</strong> ${escapeHtml(r.error)}</div>`;
+  return `${topFixesSection(r.topFixes)}
+<h2>Status Overview</h2>
+${statusOverview(r)}
+${categoryScores(r)}
+<h2>Performance Metrics</h2>
+${metricsTable(r)}
+${budgetSection(r)}
+<h2>Issues</h2>
+${issueCards(r.findings ?? [])}`;
+}
+
+function siteSummary(site: SiteAuditResult): string {
+  return `<h2>Site Summary</h2>
+<p>${site.pagesCrawled} pages crawled${site.disallowed.length ? `, ${site.disallowed.length} disallowed by robots.txt` : ''}.</p>
+<table>
+  <thead><tr><th>Page</th><th>Status</th><th>Score</th></tr></thead>
+  <tbody>${site.pages.map(p => `<tr><td class="url">${escapeHtml(p.url)}</td><td>${escapeHtml(p.error ? 'error' : p.status ?? '')}</td><td>${p.error ? '–' : p.score ?? '–'}</td></tr>`).join('')}</tbody>
+</table>
+${site.issues.length ? `<h2>Site-wide Issues</h2>${site.issues.map(i => `<div class="card" style="border-left-color:${SEVERITY_COLORS[i.severity]}">
+  <div class="card-title"><span class="severity" style="background:${SEVERITY_COLORS[i.severity]}">${i.severity}</span> ${escapeHtml(i.title)} (${i.count})</div>
+  <ul>${i.pages.slice(0, 10).map(p => `<li>${escapeHtml(p)}</li>`).join('')}</ul>
+</div>`).join('\n')}` : ''}`;
+}
+
+function styles(primary: string, accent: string): string {
+  return `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; margin: 0; font-size: 13px; line-height: 1.5; }
+  main { max-width: 960px; margin: 0 auto; padding: 32px; }
+  header { background: ${primary}; color: #fff; padding: 24px 32px; display: flex; align-items: center; gap: 16px; }
+  header img { max-height: 48px; max-width: 180px; }
+  header .company { font-size: 20px; font-weight: bold; }
+  header .meta { margin-left: auto; text-align: right; font-size: 12px; opacity: 0.85; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; color: ${primary}; border-bottom: 2px solid ${accent}; padding-bottom: 4px; margin: 32px 0 12px; page-break-after: avoid; }
+  .summary { display: flex; align-items: center; gap: 32px; }
+  .muted { color: #6b7280; }
+  .pills { display: flex; flex-wrap: wrap; gap: 8px; }
+  .pill { padding: 4px 12px; border-radius: 16px; border: 1px solid #d1d5db; background: #f3f4f6; color: #374151; }
+  .pill-pass { background: #dcfce7; color: #166534; border-color: #86efac; }
+  .pill-fail { background: #fee2e2; color: #991b1b; border-color: #fca5a5; }
+  .pill-warning { background: #fef3c7; color: #92400e; border-color: #fde68a; }
+  .categories { display: flex; flex-wrap: wrap; gap: 24px; margin-top: 16px; text-align: center; font-size: 12px; color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f9fafb; font-size: 12px; color: #374151; }
+  td.url { word-break: break-all; }
+  tr.budget-fail td { color: #991b1b; font-weight: 600; }
+  .card { border: 1px solid #e5e7eb; border-left: 4px solid ${accent}; border-radius: 6px; padding: 12px 16px; margin-bottom: 12px; page-break-inside: avoid; }
+  .card-title { font-weight: bold; margin-bottom: 6px; }
+  .card ul { margin: 0; padding-left: 20px; }
+  .severity { color: #fff; border-radius: 4px; padding: 1px 6px; font-size: 11px; text-transform: uppercase; margin-right: 6px; }
+  .remediation { background: #f9fafb; border-radius: 4px; padding: 8px; margin: 8px 0 0; }
+  .snippet-label { font-size: 11px; color: #6b7280; margin-top: 8px; }
+  .snippet { background: #111827; color: #f9fafb; border-radius: 4px; padding: 8px; margin: 4px 0 0; font-size: 11px; white-space: pre-wrap; word-break: break-all; }
+  .fixes { list-style: none; padding: 0; margin: 0; }
+  .error { background: #fee2e2; color: #991b1b; padding: 16px; border-radius: 8px; }
+  .appendix { page-break-before: always; }
+  footer { color: #6b7280; font-size: 11px; text-align: center; padding: 24px; border-top: 1px solid #e5e7eb; margin-top: 32px; }
+`;
+}
+
+// A standalone HTML document: inline styles and SVG only, so it can be emailed or printed as is
+export function renderReportHtml(input: ReportInput, brandingOverrides: ReportBranding = {}): string {
+  const branding = resolveBranding(brandingOverrides);
+  const site = 'pagesCrawled' in input.result ? input.result : null;
+  const page: AuditResult | undefined = site ? site.pages[0] : (input.result as AuditResult);
+  const url = site ? site.startUrl : page?.url ?? '';
+  const date = new Date(input.createdAt ?? Date.now());
+  const title = `${branding.companyName} — Audit of ${url}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${styles(branding.primaryColor, branding.accentColor)}</style>
+</head>
+<body>
+<header>
+  ${branding.logoUrl ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.companyName)}">` : ''}
+  <span class="company">${escapeHtml(branding.companyName)}</span>
+  <span class="meta">Website audit report<br>${escapeHtml(date.toUTCString())}</span>
+</header>
+<main>
+  <div class="summary">
+    <div>
+      <h1>${escapeHtml(page?.title || url)}</h1>
+      <div class="muted">${escapeHtml(url)}</div>
+      ${page?.metaDescription ? `<p>${escapeHtml(page.metaDescription)}</p>` : ''}
+    </div>
+    <div style="margin-left:auto;text-align:center">${scoreRing(input.result.score ?? 0)}<div class="muted">${site ? 'Site score' : 'Overall score'}</div></div>
+  </div>
+  ${site ? siteSummary(site) : ''}
+  ${page ? `${site ? `<h2>Start Page: ${escapeHtml(page.url)}</h2>` : ''}${pageSections(page)}` : ''}
+  ${page && !page.error ? `<section class="appendix">
+    <h2>Appendix A — Broken Links</h2>
+    ${brokenLinksAppendix(page)}
+    <h2>Appendix B — Image Issues</h2>
+    ${imageAppendix(page)}
+  </section>` : ''}
+</main>
+<footer>${escapeHtml(branding.footerText)}${input.id ? ` · Audit ${escapeHtml(input.id)}` : ''}</footer>
+</body>
+</html>
+`;
+}
+
+// An http(s) logo fetched (SSRF-checked) and turned into a data URL, since the PDF renderer
+// loads nothing from the network; undefined when it can't be fetched or isn't an image
+export async function inlineLogo(logoUrl: string | undefined): Promise<string | undefined> {
+  if (!logoUrl || logoUrl.startsWith('data:')) return logoUrl;
+  const http = createHttpClient({ retries: 0, maxBodyBytes: MAX_LOGO_BYTES, cache: false });
+  try {
+    const res = await http.fetch(logoUrl);
+    const type = res.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '';
+    if (!res.ok || !/^image\/(png|jpeg|gif|webp|svg\+xml)$/.test(type)) {
+      await res.body?.cancel().catch(() => {});
+      return undefined;
+    }
+    return `data:${type};base64,${Buffer.from(await res.arrayBuffer()).toString('base64')}`;
+  } catch {
+    return undefined;
+  }
+}
+
+// Print the HTML report in headless Chromium; throws when no browser is available. The page
+// may only load data: URLs, so nothing in the report can make the server fetch anything.
+export async function renderReportPdf(html: string, options: { executablePath?: string; timeoutMs?: number } = {}): Promise<Uint8Array> {
+  const { chromium } = await import('playwright-core');
+  const browser = await chromium.launch({
+    headless: true,
+    executablePath: options.executablePath ?? process.env.CHROMIUM_PATH ?? undefined,
+  });
+
+  try {
+    const page = await browser.newPage();
+    await page.route('**/*', route => (route.request().url().startsWith('data:') ? route.continue() : route.abort('blockedbyclient')));
+    await page.setContent(html, { waitUntil: 'load', timeout: options.timeoutMs ?? 30000 });
+    return await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '12mm', bottom: '12mm', left: '10mm', right: '10mm' },
+    });
+  } finally {
+    await browser.close().catch(() => {});
+  }
+}
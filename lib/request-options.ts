@@ -0,0 +1,97 @@
+import type { AuditOptions } from './audit';
+import { parseBudgets } from './budgets';
+import type { CheckSelection } from './checks';
+import type { CrawlOptions } from './crawler';
+import { fixturePath, type FixtureOptions } from './fixtures';
+import type { HttpOptions } from './http';
+import type { PerformanceOptions } from './performance';
+import { parseScoringConfigInput } from './scoring';
+
+// Parsers for the audit options API routes accept in a request body. Unknown or
+// malformed values are dropped so the defaults apply.
+
+// A whole number from `min` up, cut down to `max`; undefined for anything else
+function capped(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min ? Math.min(Math.floor(value), max) : undefined;
+}
+
+// Pull the numeric crawl limits out of the request body, ignoring anything else. Every page
+// is an audit, so the limits are capped.
+export function parseCrawlOptions(input: unknown): CrawlOptions | null {
+  if (!input) return null;
+  if (input === true) return {};
+  if (typeof input !== 'object') return null;
+
+  const { maxPages, maxDepth, concurrency } = input as Record<string, unknown>;
+  const limits = {
+    maxPages: capped(maxPages, 1, 100),
+    maxDepth: capped(maxDepth, 0, 10),
+    concurrency: capped(concurrency, 1, 5),
+  };
+  // a key left undefined would hide the default
+  return Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined));
+}
+
+// `checks: { enable?: string[], disable?: string[] }` picks registered checks by id
+export function parseCheckSelection(input: unknown): CheckSelection | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const ids = (value: unknown) =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+  const { enable, disable } = input as Record<string, unknown>;
+  return { enable: ids(enable), disable: ids(disable) };
+}
+
+// `performance: { mode: 'browser' }` measures Web Vitals in headless Chromium; the binary is server config
+export function parsePerformanceOptions(input: unknown): PerformanceOptions | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const { mode, timeoutMs } = input as Record<string, unknown>;
+  return {
+    mode: mode === 'browser' || mode === 'estimate' ? mode : undefined,
+    timeoutMs: typeof timeoutMs === 'number' && timeoutMs > 0 ? Math.min(timeoutMs, 120000) : undefined,
+  };
+}
+
+// `http: { userAgent?, timeoutMs?, deadlineMs?, retries?, maxBodyBytes?, cache? }`; `userAgent` is a
+// preset name (googlebot, googlebot-mobile, mobile, desktop) or a full string. Limits are capped.
+export function parseHttpOptions(input: unknown): HttpOptions | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const { userAgent, timeoutMs, deadlineMs, retries, maxBodyBytes, cache } = input as Record<string, unknown>;
+  return {
+    // a header value can't span lines
+    userAgent: typeof userAgent === 'string' && userAgent.trim() && !/[\r\n]/.test(userAgent) ? userAgent.trim().slice(0, 512) : undefined,
+    timeoutMs: capped(timeoutMs, 1, 60000),
+    deadlineMs: capped(deadlineMs, 1, 600000),
+    retries: capped(retries, 0, 5),
+    maxBodyBytes: capped(maxBodyBytes, 1, 50 * 1024 * 1024),
+    cache: typeof cache === 'boolean' ? cache : undefined,
+  };
+}
+
+// `fixture: { mode: 'record' | 'replay', name }` records to or replays from <AUDIT_FIXTURES_DIR>/<name>.har
+export function parseFixtureOptions(input: unknown): FixtureOptions | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const { mode, name } = input as Record<string, unknown>;
+  if (mode !== 'record' && mode !== 'replay') return undefined;
+  const file = typeof name === 'string' ? fixturePath(name) : null;
+  return file ? { mode, file } : undefined;
+}
+
+// The per-page options shared by single and batch audits
+export function parseAuditOptions(body: Record<string, unknown> | null | undefined): AuditOptions {
+  return {
+    checks: parseCheckSelection(body?.checks),
+    // `scoring: { weights?, thresholds?, penalties? }` overrides the default scoring model
+    scoring: parseScoringConfigInput(body?.scoring),
+    performance: parsePerformanceOptions(body?.performance),
+    http: parseHttpOptions(body?.http),
+    // `budgets: { lcpMs: 2500, scriptsCount: 15, ... }` adds to the budgets file entry for the origin
+    budgets: parseBudgets(body?.budgets),
+    checkTimeoutMs: typeof body?.checkTimeoutMs === 'number' && body.checkTimeoutMs > 0
+      ? Math.min(body.checkTimeoutMs, 300000)
+      : undefined,
+  };
+}
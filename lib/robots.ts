@@ -0,0 +1,143 @@
+import { createHttpClient, describeFetchError, type HttpClient } from './http';
+
+export type RobotsRule = {
+  type: 'allow' | 'disallow';
+  path: string;
+};
+
+export type RobotsGroup = {
+  userAgents: string[];
+  rules: RobotsRule[];
+};
+
+export type RobotsTxt = {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+};
+
+// Parse robots.txt into user-agent groups (consecutive User-agent lines share one group)
+export function parseRobots(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const idx = line.indexOf(':');
+    if (idx === -1) continue;
+
+    const field = line.slice(0, idx).trim().toLowerCase();
+    const value = line.slice(idx + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if ((field === 'allow' || field === 'disallow') && current) {
+      // an empty Disallow means "allow everything" and carries no rule
+      if (value) current.rules.push({ type: field, path: value });
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+// The token our own User-Agent identifies itself with
+const OWN_PRODUCT_TOKEN = 'WebsiteAuditTool';
+
+// The product token robots.txt groups are matched against (RFC 9309): the crawler a
+// "(compatible; Name/x.y)" User-Agent names, else the first product of one that isn't a
+// browser's. A browser's User-Agent gets our own token.
+export function robotsProductToken(userAgent: string): string {
+  const compatible = /\(compatible;\s*([\w-]+)/i.exec(userAgent);
+  if (compatible) return compatible[1];
+  const product = /^([\w-]+)/.exec(userAgent.trim())?.[1];
+  return product && product.toLowerCase() !== 'mozilla' ? product : OWN_PRODUCT_TOKEN;
+}
+
+// The group naming the product token, compared case-insensitively, falling back to '*'
+function findGroup(robots: RobotsTxt, productToken: string): RobotsGroup | null {
+  const token = productToken.toLowerCase();
+  return (
+    robots.groups.find(g => g.userAgents.includes(token)) ??
+    robots.groups.find(g => g.userAgents.includes('*')) ??
+    null
+  );
+}
+
+// Convert a robots path pattern (supports '*' and a trailing '$') to a RegExp
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Check whether a URL may be fetched by the crawler with `productToken` (see robotsProductToken);
+// the longest matching rule wins, Allow wins ties
+export function isAllowedByRobots(robots: RobotsTxt, url: string, productToken = '*'): boolean {
+  const group = findGroup(robots, productToken);
+  if (!group) return true;
+
+  let path: string;
+  try {
+    const u = new URL(url);
+    path = `${u.pathname}${u.search}`;
+  } catch {
+    return true;
+  }
+
+  let match: RobotsRule | null = null;
+  for (const rule of group.rules) {
+    if (!patternToRegExp(rule.path).test(path)) continue;
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.type === 'allow')
+    ) {
+      match = rule;
+    }
+  }
+
+  return !match || match.type === 'allow';
+}
+
+export type RobotsFetch = {
+  url: string;
+  status?: number;
+  // null when the file is missing, unreadable or the request failed
+  robots: RobotsTxt | null;
+  error?: string;
+};
+
+export async function fetchRobots(origin: string, timeoutMs?: number, http: HttpClient = createHttpClient()): Promise<RobotsFetch> {
+  const url = `${origin}/robots.txt`;
+  try {
+    const res = await http.fetch(url, { redirect: 'follow', timeoutMs });
+    if (!res.ok) {
+      await res.body?.cancel().catch(() => {});
+      return { url, status: res.status, robots: null };
+    }
+    return { url, status: res.status, robots: parseRobots(await res.text()) };
+  } catch (err) {
+    return { url, robots: null, error: describeFetchError(err) };
+  }
+}
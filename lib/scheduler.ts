@@ -0,0 +1,139 @@
+import { randomUUID } from 'node:crypto';
+import { detectRegressions, deliverAlert, isDown } from './alerts';
+import { runAudit, type AuditResult } from './audit';
+import { getAudit, saveAudit } from './history';
+import {
+  listMonitors,
+  monitorSubject,
+  saveAlert,
+  scheduleNextRun,
+  updateMonitor,
+  type Alert,
+  type Monitor,
+} from './monitors';
+import { takeScheduledQuota } from './rate-limit';
+
+export type MonitorRun = {
+  monitorId: string;
+  auditId?: string;
+  score: number | null;
+  down: boolean;
+  alerts: Alert[];
+  error?: string;
+};
+
+export type SchedulerOptions = {
+  // How often due monitors are looked for
+  tickMs?: number;
+  // Monitors audited at once
+  concurrency?: number;
+};
+
+export const DEFAULT_SCHEDULER_OPTIONS: Required<SchedulerOptions> = {
+  tickMs: Number(process.env.MONITOR_TICK_MS) || 30000,
+  concurrency: Number(process.env.MONITOR_CONCURRENCY) || 2,
+};
+
+type SchedulerState = {
+  timer: ReturnType<typeof setInterval> | null;
+  // Monitors with a run in flight, scheduled or manual
+  running: Set<string>;
+  options: Required<SchedulerOptions>;
+};
+
+// instrumentation and route handlers are bundled separately, so the state lives on globalThis
+const state: SchedulerState = ((globalThis as { __auditScheduler?: SchedulerState }).__auditScheduler ??= {
+  timer: null,
+  running: new Set(),
+  options: DEFAULT_SCHEDULER_OPTIONS,
+});
+
+export function isMonitorRunning(id: string): boolean {
+  return state.running.has(id);
+}
+
+// The previous run's page result, if it is still in the history
+async function previousResult(monitor: Monitor): Promise<AuditResult | null> {
+  if (!monitor.lastAuditId) return null;
+  const stored = await getAudit(monitor.lastAuditId).catch(() => null);
+  return stored && stored.kind === 'page' ? (stored.result as AuditResult) : null;
+}
+
+// Audit the monitor's URL, alert on regressions since the last run and record the outcome.
+// Manual runs are admitted by the route; scheduled ones are charged to the owner's quota here.
+export async function runMonitor(monitor: Monitor, trigger: 'schedule' | 'manual' = 'manual'): Promise<MonitorRun> {
+  state.running.add(monitor.id);
+  try {
+    // schedule the next run up front so a slow audit isn't started twice
+    await updateMonitor(monitor.id, () => ({ nextRunAt: scheduleNextRun(monitor) }));
+
+    const apiKeyId = monitor.apiKeyId ?? null;
+    // a refused run is skipped until the next one comes round
+    const refusal = trigger === 'schedule' ? await takeScheduledQuota(monitorSubject(monitor)) : null;
+    if (refusal) throw new Error(`Run skipped: ${refusal}`);
+
+    const previous = await previousResult(monitor);
+    const result = await runAudit(monitor.url, monitor.audit);
+    const stored = await saveAudit(monitor.url, result, { apiKeyId }).catch(() => null);
+
+    const alerts: Alert[] = [];
+    for (const draft of detectRegressions(monitor, previous, result)) {
+      const alert: Alert = {
+        id: randomUUID(),
+        monitorId: monitor.id,
+        url: monitor.url,
+        createdAt: new Date().toISOString(),
+        auditId: stored?.id,
+        previousAuditId: monitor.lastAuditId,
+        ...draft,
+        deliveries: [],
+      };
+      alert.deliveries = await deliverAlert(alert, monitor.webhooks);
+      alerts.push(await saveAlert(alert));
+    }
+
+    const run: MonitorRun = { monitorId: monitor.id, auditId: stored?.id, score: result.score ?? null, down: isDown(result), alerts };
+    await updateMonitor(monitor.id, current => ({
+      lastRunAt: new Date().toISOString(),
+      lastAuditId: stored?.id ?? current.lastAuditId,
+      lastScore: run.score,
+      lastError: result.error ?? null,
+      down: run.down,
+    }));
+    return run;
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    await updateMonitor(monitor.id, () => ({ lastRunAt: new Date().toISOString(), lastError: error })).catch(() => null);
+    return { monitorId: monitor.id, score: null, down: true, alerts: [], error };
+  } finally {
+    state.running.delete(monitor.id);
+  }
+}
+
+// Start every enabled monitor whose next run is due, up to the concurrency limit
+export async function runDueMonitors(now = new Date()): Promise<void> {
+  const due = (await listMonitors()).filter(
+    m => m.enabled && m.nextRunAt !== null && Date.parse(m.nextRunAt) <= now.getTime() && !state.running.has(m.id),
+  );
+  const slots = Math.max(0, state.options.concurrency - state.running.size);
+  for (const monitor of due.slice(0, slots)) {
+    runMonitor(monitor, 'schedule').catch(err => console.error(`Monitor ${monitor.id} failed:`, err));
+  }
+}
+
+// Called once per server process from instrumentation.ts; later calls are no-ops
+export function startScheduler(options: SchedulerOptions = {}): void {
+  if (state.timer) return;
+  state.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+
+  const tick = () => runDueMonitors().catch(err => console.error('Monitor scheduler tick failed:', err));
+  state.timer = setInterval(tick, state.options.tickMs);
+  // the scheduler alone shouldn't keep a CLI or test process alive
+  state.timer.unref?.();
+  tick();
+}
+
+export function stopScheduler(): void {
+  if (state.timer) clearInterval(state.timer);
+  state.timer = null;
+}
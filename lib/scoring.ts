@@ -0,0 +1,385 @@
+import type { AuditResult } from './audit';
+import { A11Y_RULES, isBuiltinCheck, type A11yRule, type CheckSeverity } from './checks';
+
+export type ScoreCategory = 'performance' | 'security' | 'seo' | 'accessibility' | 'best-practices';
+
+export const SCORE_CATEGORIES: ScoreCategory[] = ['performance', 'security', 'seo', 'accessibility', 'best-practices'];
+
+// A metric is "good" up to the first limit and "poor" beyond the second
+export type MetricThreshold = {
+  good: number;
+  poor: number;
+};
+
+export type ScoringConfig = {
+  // Relative weight of each category in the overall score
+  weights: Record<ScoreCategory, number>;
+  thresholds: {
+    responseTimeMs: number;
+    ttfbMs: MetricThreshold;
+    fcpMs: MetricThreshold;
+    lcpMs: MetricThreshold;
+    cls: MetricThreshold;
+    tbtMs: MetricThreshold;
+    maxScripts: number;
+    maxInlineStyles: number;
+  };
+  // Points lost per problem, taken from the problem's category score
+  penalties: {
+    noHttps: number;
+    noHsts: number;
+    securityHeaderFail: number;
+    securityHeaderWarn: number;
+    mixedContent: number;
+    passiveMixedContent: number;
+    noViewport: number;
+    missingAltPerImage: number;
+    missingAltMax: number;
+    // Per WCAG rule with at least one violation
+    accessibilityRuleEach: number;
+    accessibilityRuleMax: number;
+    brokenLinkEach: number;
+    brokenLinkMax: number;
+    // Per 100 KB of estimated image savings
+    imageSavingsPer100KB: number;
+    imageSavingsMax: number;
+    slowResponse: number;
+    slowTtfb: number;
+    slowFcp: number;
+    slowLcp: number;
+    layoutShift: number;
+    blockingTime: number;
+    // Applied instead of the slow* penalty when the metric is past its "poor" limit
+    poorMetricMultiplier: number;
+    missingTitle: number;
+    missingMetaDescription: number;
+    missingH1: number;
+    multipleH1: number;
+    noindex: number;
+    // Other on-page SEO issues (lengths, canonical, hreflang, social tags, structured data)
+    seoIssueEach: number;
+    seoIssueMax: number;
+    noRobots: number;
+    noSitemap: number;
+    blockedByRobots: number;
+    sitemapIssueEach: number;
+    sitemapIssueMax: number;
+    redirectIssueEach: number;
+    redirectIssueMax: number;
+    tooManyScripts: number;
+    tooManyInlineStyles: number;
+    // Findings from non-built-in checks, by severity
+    findingSeverity: Record<CheckSeverity, number>;
+  };
+};
+
+export type ScoringConfigInput = {
+  weights?: Partial<ScoringConfig['weights']>;
+  thresholds?: Partial<ScoringConfig['thresholds']>;
+  penalties?: Partial<Omit<ScoringConfig['penalties'], 'findingSeverity'>> & {
+    findingSeverity?: Partial<Record<CheckSeverity, number>>;
+  };
+};
+
+export type ScoreDeduction = {
+  id: string;
+  category: ScoreCategory;
+  reason: string;
+  // Points lost from the category score
+  points: number;
+  // Approximate points lost from the overall score, given the category weights
+  impact: number;
+};
+
+export type ScoreReport = {
+  score: number;
+  categories: Record<ScoreCategory, number>;
+  breakdown: ScoreDeduction[];
+};
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    performance: 25,
+    security: 25,
+    seo: 20,
+    accessibility: 20,
+    'best-practices': 10,
+  },
+  thresholds: {
+    responseTimeMs: 3000,
+    ttfbMs: { good: 800, poor: 1800 },
+    fcpMs: { good: 1800, poor: 3000 },
+    lcpMs: { good: 2500, poor: 4000 },
+    cls: { good: 0.1, poor: 0.25 },
+    tbtMs: { good: 200, poor: 600 },
+    maxScripts: 15,
+    maxInlineStyles: 10,
+  },
+  penalties: {
+    noHttps: 40,
+    noHsts: 10,
+    securityHeaderFail: 6,
+    securityHeaderWarn: 2,
+    mixedContent: 25,
+    passiveMixedContent: 10,
+    noViewport: 30,
+    missingAltPerImage: 5,
+    missingAltMax: 25,
+    accessibilityRuleEach: 5,
+    accessibilityRuleMax: 40,
+    brokenLinkEach: 5,
+    brokenLinkMax: 25,
+    imageSavingsPer100KB: 2,
+    imageSavingsMax: 15,
+    slowResponse: 15,
+    slowTtfb: 10,
+    slowFcp: 10,
+    slowLcp: 15,
+    layoutShift: 10,
+    blockingTime: 10,
+    poorMetricMultiplier: 2,
+    missingTitle: 25,
+    missingMetaDescription: 15,
+    missingH1: 10,
+    multipleH1: 5,
+    noindex: 20,
+    seoIssueEach: 3,
+    seoIssueMax: 20,
+    noRobots: 5,
+    noSitemap: 10,
+    blockedByRobots: 30,
+    sitemapIssueEach: 3,
+    sitemapIssueMax: 15,
+    redirectIssueEach: 5,
+    redirectIssueMax: 15,
+    tooManyScripts: 15,
+    tooManyInlineStyles: 10,
+    findingSeverity: { critical: 20, high: 10, medium: 5, low: 2 },
+  },
+};
+
+export function resolveScoringConfig(input: ScoringConfigInput = {}): ScoringConfig {
+  return {
+    weights: { ...DEFAULT_SCORING_CONFIG.weights, ...input.weights },
+    thresholds: { ...DEFAULT_SCORING_CONFIG.thresholds, ...input.thresholds },
+    penalties: {
+      ...DEFAULT_SCORING_CONFIG.penalties,
+      ...input.penalties,
+      findingSeverity: {
+        ...DEFAULT_SCORING_CONFIG.penalties.findingSeverity,
+        ...input.penalties?.findingSeverity,
+      },
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Copy the known keys of `shape` from untrusted input, keeping numbers (and nested numeric objects)
+function pickNumbers(input: unknown, shape: object): Record<string, unknown> | undefined {
+  if (!isRecord(input)) return undefined;
+
+  const picked: Record<string, unknown> = {};
+  for (const [key, fallback] of Object.entries(shape)) {
+    const value = input[key];
+    if (typeof fallback === 'number') {
+      if (typeof value === 'number' && Number.isFinite(value)) picked[key] = value;
+    } else if (isRecord(fallback)) {
+      const nested = pickNumbers(value, fallback);
+      if (nested) picked[key] = { ...fallback, ...nested };
+    }
+  }
+  return picked;
+}
+
+// Validate a scoring config coming from a request body or config file
+export function parseScoringConfigInput(input: unknown): ScoringConfigInput | undefined {
+  if (!isRecord(input)) return undefined;
+
+  return {
+    weights: pickNumbers(input.weights, DEFAULT_SCORING_CONFIG.weights),
+    thresholds: pickNumbers(input.thresholds, DEFAULT_SCORING_CONFIG.thresholds),
+    penalties: pickNumbers(input.penalties, DEFAULT_SCORING_CONFIG.penalties),
+  } as ScoringConfigInput;
+}
+
+type Deduct = (id: string, category: ScoreCategory, reason: string, points: number) => void;
+
+// Each rule inspects the result and calls deduct() for every problem it finds
+export type ScoringRule = (result: AuditResult, config: ScoringConfig, deduct: Deduct) => void;
+
+function metricRule(
+  id: string,
+  label: string,
+  field: 'ttfbMs' | 'fcpMs' | 'lcpMs' | 'cls' | 'tbtMs',
+  penalty: 'slowTtfb' | 'slowFcp' | 'slowLcp' | 'layoutShift' | 'blockingTime',
+  unit = 'ms',
+): ScoringRule {
+  return (result, { thresholds, penalties }, deduct) => {
+    const value = result[field];
+    const { good, poor } = thresholds[field];
+    if (typeof value !== 'number' || value <= good) return;
+
+    const source = result.metricSources?.[field] === 'measured' ? 'measured' : 'estimated';
+    if (value > poor) {
+      deduct(id, 'performance', `${label} of ${value}${unit} (${source}) is poor (over ${poor}${unit})`, penalties[penalty] * penalties.poorMetricMultiplier);
+    } else {
+      deduct(id, 'performance', `${label} of ${value}${unit} (${source}) needs improvement (over ${good}${unit})`, penalties[penalty]);
+    }
+  };
+}
+
+export const SCORING_RULES: ScoringRule[] = [
+  // Security
+  (result, { penalties }, deduct) => {
+    if (!result.isHttps) deduct('no-https', 'security', 'Page is not served over HTTPS', penalties.noHttps);
+    // HSTS is graded with the other headers when the security-headers check ran
+    else if (!result.hasHsts && !result.securityHeaders) deduct('no-hsts', 'security', 'No Strict-Transport-Security header', penalties.noHsts);
+  },
+  (result, { penalties }, deduct) => {
+    for (const h of result.securityHeaders ?? []) {
+      // without HTTPS the missing HSTS is already covered by no-https
+      if (h.header === 'strict-transport-security' && !result.isHttps) continue;
+      if (h.status === 'fail') deduct(`header:${h.header}`, 'security', `${h.header}: ${h.message}`, penalties.securityHeaderFail);
+      if (h.status === 'warn') deduct(`header:${h.header}`, 'security', `${h.header}: ${h.message}`, penalties.securityHeaderWarn);
+    }
+  },
+  (result, { penalties }, deduct) => {
+    if (!result.hasMixedContent) return;
+    // passive mixed content (images, media) is less severe than blocked scripts and styles
+    const items = result.mixedContent ?? [];
+    if (items.length > 0 && items.every(m => m.type === 'passive')) {
+      deduct('mixed-content', 'security', `${items.length} images or media loaded over plain HTTP`, penalties.passiveMixedContent);
+    } else {
+      deduct('mixed-content', 'security', 'Page loads scripts, styles or frames over plain HTTP', penalties.mixedContent);
+    }
+  },
+
+  // Performance
+  (result, { thresholds, penalties }, deduct) => {
+    if ((result.responseTimeMs ?? 0) > thresholds.responseTimeMs) {
+      deduct('slow-response', 'performance', `Response took ${result.responseTimeMs}ms (over ${thresholds.responseTimeMs}ms)`, penalties.slowResponse);
+    }
+  },
+  metricRule('slow-ttfb', 'TTFB', 'ttfbMs', 'slowTtfb'),
+  metricRule('slow-fcp', 'FCP', 'fcpMs', 'slowFcp'),
+  metricRule('slow-lcp', 'LCP', 'lcpMs', 'slowLcp'),
+  metricRule('layout-shift', 'CLS', 'cls', 'layoutShift', ''),
+  metricRule('blocking-time', 'TBT', 'tbtMs', 'blockingTime'),
+  (result, { penalties }, deduct) => {
+    const savings = (result.imageIssues ?? []).reduce((sum, img) => sum + img.estimatedSavingsBytes, 0);
+    const points = Math.min(penalties.imageSavingsMax, Math.floor(savings / 102400) * penalties.imageSavingsPer100KB);
+    if (points > 0) deduct('image-savings', 'performance', `Images could be about ${Math.round(savings / 1024)} KB smaller`, points);
+  },
+
+  // SEO
+  (result, { penalties }, deduct) => {
+    if (!result.title) deduct('missing-title', 'seo', 'Page has no <title>', penalties.missingTitle);
+    if (!result.metaDescription) deduct('missing-meta-description', 'seo', 'Page has no meta description', penalties.missingMetaDescription);
+    if (result.h1Count === 0) deduct('missing-h1', 'seo', 'Page has no H1 heading', penalties.missingH1);
+    else if ((result.h1Count ?? 0) > 1) deduct('multiple-h1', 'seo', `Page has ${result.h1Count} H1 headings`, penalties.multipleH1);
+  },
+  (result, { penalties }, deduct) => {
+    if (!result.seo) return;
+    if (result.seo.robots.noindex) deduct('noindex', 'seo', 'Page is excluded from search results by noindex', penalties.noindex);
+    const issues = result.seo.issues.filter(i => i.id !== 'noindex');
+    if (issues.length > 0) {
+      deduct('seo-issues', 'seo', `${issues.length} on-page SEO issues`, Math.min(penalties.seoIssueMax, issues.length * penalties.seoIssueEach));
+    }
+  },
+  (result, { penalties }, deduct) => {
+    const broken = result.brokenLinks?.length ?? 0;
+    if (broken > 0) {
+      deduct('broken-links', 'seo', `${broken} broken links`, Math.min(penalties.brokenLinkMax, broken * penalties.brokenLinkEach));
+    }
+  },
+  (result, { penalties }, deduct) => {
+    if (result.robots && !result.robots.found) deduct('no-robots', 'seo', 'No robots.txt found', penalties.noRobots);
+    if (result.robots && !result.robots.googlebotAllowed) {
+      deduct('blocked-by-robots', 'seo', 'robots.txt blocks Googlebot from this page', penalties.blockedByRobots);
+    }
+    if (result.sitemap && !result.sitemap.found) deduct('no-sitemap', 'seo', 'No sitemap.xml found', penalties.noSitemap);
+    const sitemapIssues = result.sitemap?.issues.length ?? 0;
+    if (sitemapIssues > 0) {
+      deduct('sitemap-issues', 'seo', `${sitemapIssues} sitemap problems`, Math.min(penalties.sitemapIssueMax, sitemapIssues * penalties.sitemapIssueEach));
+    }
+  },
+  (result, { penalties }, deduct) => {
+    const issues = result.redirects?.length ?? 0;
+    if (issues > 0) {
+      deduct('redirect-issues', 'seo', `${issues} redirect issues`, Math.min(penalties.redirectIssueMax, issues * penalties.redirectIssueEach));
+    }
+  },
+
+  // Accessibility
+  (result, { penalties }, deduct) => {
+    if (result.hasViewport === false) deduct('no-viewport', 'accessibility', 'No mobile viewport meta tag', penalties.noViewport);
+  },
+  (result, { penalties }, deduct) => {
+    const missing = result.imgWithoutAlt ?? 0;
+    if (missing > 0) {
+      deduct('missing-alt', 'accessibility', `${missing} images without alt text`, Math.min(penalties.missingAltMax, missing * penalties.missingAltPerImage));
+    }
+  },
+  (result, { penalties }, deduct) => {
+    const byRule = new Map<A11yRule, number>();
+    for (const f of result.accessibility ?? []) byRule.set(f.rule, (byRule.get(f.rule) ?? 0) + 1);
+    let remaining = penalties.accessibilityRuleMax;
+    for (const [rule, count] of byRule) {
+      const points = Math.min(remaining, penalties.accessibilityRuleEach);
+      if (points <= 0) break;
+      const { summary, wcag } = A11Y_RULES[rule];
+      deduct(`a11y:${rule}`, 'accessibility', `${summary} (${count}, WCAG ${wcag})`, points);
+      remaining -= points;
+    }
+  },
+
+  // Best practices
+  (result, { thresholds, penalties }, deduct) => {
+    if ((result.scriptsCount ?? 0) > thresholds.maxScripts) {
+      deduct('too-many-scripts', 'best-practices', `${result.scriptsCount} script tags (over ${thresholds.maxScripts})`, penalties.tooManyScripts);
+    }
+    if ((result.inlineStylesCount ?? 0) > thresholds.maxInlineStyles) {
+      deduct('inline-styles', 'best-practices', `${result.inlineStylesCount} inline style attributes (over ${thresholds.maxInlineStyles})`, penalties.tooManyInlineStyles);
+    }
+  },
+
+  // Findings from custom checks; built-in checks are scored by the rules above
+  (result, { penalties }, deduct) => {
+    for (const finding of result.findings ?? []) {
+      if (isBuiltinCheck(finding.checkId)) continue;
+      deduct(`check:${finding.checkId}`, finding.category, finding.message, penalties.findingSeverity[finding.severity]);
+    }
+  },
+];
+
+// Score a result per category, then combine the categories by weight
+export function computeScore(result: AuditResult, config: ScoringConfig = DEFAULT_SCORING_CONFIG): ScoreReport {
+  const breakdown: ScoreDeduction[] = [];
+  const deduct: Deduct = (id, category, reason, points) => {
+    if (points > 0) breakdown.push({ id, category, reason, points, impact: 0 });
+  };
+
+  for (const rule of SCORING_RULES) {
+    rule(result, config, deduct);
+  }
+
+  const categories = {} as Record<ScoreCategory, number>;
+  for (const category of SCORE_CATEGORIES) {
+    const lost = breakdown.filter(d => d.category === category).reduce((sum, d) => sum + d.points, 0);
+    categories[category] = Math.max(0, 100 - lost);
+  }
+
+  const totalWeight = SCORE_CATEGORIES.reduce((sum, c) => sum + Math.max(0, config.weights[c]), 0);
+  const weighted = SCORE_CATEGORIES.reduce((sum, c) => sum + categories[c] * Math.max(0, config.weights[c]), 0);
+  const score = totalWeight > 0 ? Math.round(weighted / totalWeight) : 0;
+
+  for (const deduction of breakdown) {
+    const share = totalWeight > 0 ? Math.max(0, config.weights[deduction.category]) / totalWeight : 0;
+    deduction.impact = Math.round(deduction.points * share * 10) / 10;
+  }
+
+  return { score, categories, breakdown };
+}
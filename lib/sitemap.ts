@@ -0,0 +1,223 @@
+import { createGunzip } from 'node:zlib';
+import * as cheerio from 'cheerio';
+import { createHttpClient, describeFetchError, type HttpClient } from './http';
+
+export type SitemapEntry = {
+  loc: string;
+  lastmod?: string;
+  // The sitemap file that listed this URL
+  sitemap: string;
+};
+
+export type SitemapFile = {
+  url: string;
+  kind: 'urlset' | 'index' | 'unknown';
+  status?: number;
+  gzipped: boolean;
+  // <url> entries for a urlset, child sitemaps for an index
+  entries: number;
+  error?: string;
+};
+
+export type SitemapLoadOptions = {
+  timeoutMs?: number;
+  // Sitemap files fetched in total, following indexes
+  maxFiles?: number;
+  // URL entries kept across all files
+  maxUrls?: number;
+  // Largest (uncompressed) file read; the protocol allows 50MB, but sites rarely come close
+  maxBytes?: number;
+};
+
+export type SitemapLoad = {
+  files: SitemapFile[];
+  urls: SitemapEntry[];
+  // True when maxFiles or maxUrls cut the load short
+  truncated: boolean;
+};
+
+export const DEFAULT_SITEMAP_LOAD_OPTIONS: Required<SitemapLoadOptions> = {
+  timeoutMs: 10000,
+  maxFiles: 50,
+  maxUrls: 50000,
+  maxBytes: 10 * 1024 * 1024,
+};
+
+// Loads shared between audits, by the locations they started from (a crawl shares one, so
+// its own seeding reuses what the start page's sitemap check read)
+export type SitemapCache = Map<string, Promise<SitemapLoad>>;
+
+export function createSitemapCache(): SitemapCache {
+  return new Map();
+}
+
+const DEFAULT_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml'];
+
+// The robots.txt Sitemap: directives, or the conventional locations without any
+export function sitemapLocations(origin: string, directives: string[]): string[] {
+  return directives.length > 0 ? directives : DEFAULT_SITEMAP_PATHS.map(p => `${origin}${p}`);
+}
+
+// W3C Datetime, the only format the sitemap protocol accepts for <lastmod>
+const W3C_DATETIME = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d))?)?)?$/;
+
+export function isValidLastmod(value: string): boolean {
+  return W3C_DATETIME.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+// cheerio's XML mode accepts anything, so check the document is well-formed first:
+// every tag closed in order, one root element, and no bare '&'
+export function xmlWellFormedError(xml: string): string | null {
+  const body = xml
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[^>]*>/i, '');
+
+  const stack: string[] = [];
+  let roots = 0;
+  for (const match of body.matchAll(/<(\/?)([^\s/>]+)[^>]*?(\/?)>/g)) {
+    const [, closing, name, selfClosing] = match;
+    if (closing) {
+      const open = stack.pop();
+      if (open !== name) return `Unexpected </${name}>${open ? `, expected </${open}>` : ''}`;
+    } else if (!selfClosing) {
+      if (stack.length === 0) roots++;
+      stack.push(name);
+    } else if (stack.length === 0) {
+      roots++;
+    }
+  }
+
+  if (stack.length > 0) return `<${stack[stack.length - 1]}> is never closed`;
+  if (roots !== 1) return roots === 0 ? 'No root element' : 'More than one root element';
+  if (/&(?!(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);)/i.test(body)) return "Unescaped '&'";
+  return null;
+}
+
+// Decompressed off the event loop a chunk at a time, giving up past maxBytes
+async function gunzip(bytes: Uint8Array, maxBytes: number): Promise<Uint8Array> {
+  const stream = createGunzip();
+  stream.end(bytes);
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    length += chunk.length;
+    if (length > maxBytes) {
+      stream.destroy();
+      throw new Error(`Sitemap is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks, length);
+}
+
+async function readBody(res: Response, maxBytes: number): Promise<{ text: string; gzipped: boolean }> {
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > maxBytes) throw new Error(`Sitemap is larger than ${maxBytes} bytes`);
+
+  let bytes: Uint8Array = new Uint8Array(await res.arrayBuffer());
+  // .xml.gz files are served as application/gzip rather than with Content-Encoding,
+  // so fetch leaves them compressed
+  const gzipped = isGzip(bytes);
+  if (gzipped) bytes = await gunzip(bytes, maxBytes);
+  if (bytes.length > maxBytes) throw new Error(`Sitemap is larger than ${maxBytes} bytes`);
+
+  return { text: new TextDecoder().decode(bytes), gzipped };
+}
+
+// Fetch sitemaps breadth-first, following sitemap indexes, and collect their URLs; with a
+// cache, locations already loaded aren't fetched again
+export function loadSitemaps(
+  locations: string[],
+  options: SitemapLoadOptions = {},
+  http: HttpClient = createHttpClient(),
+  cache?: SitemapCache,
+): Promise<SitemapLoad> {
+  if (!cache) return fetchSitemaps(locations, options, http);
+  const key = locations.join(' ');
+  let load = cache.get(key);
+  if (!load) {
+    load = fetchSitemaps(locations, options, http);
+    cache.set(key, load);
+  }
+  return load;
+}
+
+async function fetchSitemaps(locations: string[], options: SitemapLoadOptions, http: HttpClient): Promise<SitemapLoad> {
+  const resolved = { ...DEFAULT_SITEMAP_LOAD_OPTIONS, ...options };
+  const queue = [...new Set(locations)];
+  const visited = new Set<string>();
+  const load: SitemapLoad = { files: [], urls: [], truncated: false };
+
+  while (queue.length > 0) {
+    const url = queue.shift()!;
+    if (visited.has(url)) continue;
+    if (visited.size >= resolved.maxFiles) {
+      load.truncated = true;
+      break;
+    }
+    visited.add(url);
+
+    const file: SitemapFile = { url, kind: 'unknown', gzipped: false, entries: 0 };
+    load.files.push(file);
+
+    try {
+      const res = await http.fetch(url, { redirect: 'follow', timeoutMs: resolved.timeoutMs, maxBodyBytes: resolved.maxBytes });
+      file.status = res.status;
+      if (!res.ok) {
+        await res.body?.cancel().catch(() => {});
+        file.error = `HTTP ${res.status}`;
+        continue;
+      }
+
+      const { text, gzipped } = await readBody(res, resolved.maxBytes);
+      file.gzipped = gzipped;
+
+      const xmlError = xmlWellFormedError(text);
+      if (xmlError) {
+        file.error = `Invalid XML: ${xmlError}`;
+        continue;
+      }
+
+      const $ = cheerio.load(text, { xml: true });
+      const root = $.root().children().first();
+      const rootName = String(root.prop('tagName') || '').replace(/^.*:/, '').toLowerCase();
+
+      if (rootName === 'sitemapindex') {
+        file.kind = 'index';
+        root.children('sitemap').children('loc').each((i, el) => {
+          const loc = $(el).text().trim();
+          if (!loc) return;
+          file.entries++;
+          try {
+            queue.push(new URL(loc, url).toString());
+          } catch {}
+        });
+      } else if (rootName === 'urlset') {
+        file.kind = 'urlset';
+        root.children('url').each((i, el) => {
+          const loc = $(el).children('loc').first().text().trim();
+          if (!loc) return;
+          file.entries++;
+          if (load.urls.length >= resolved.maxUrls) {
+            load.truncated = true;
+            return;
+          }
+          const lastmod = $(el).children('lastmod').first().text().trim() || undefined;
+          load.urls.push({ loc, lastmod, sitemap: url });
+        });
+      } else {
+        file.error = `Root element is <${rootName || 'none'}>, expected <urlset> or <sitemapindex>`;
+      }
+    } catch (err) {
+      file.error = describeFetchError(err);
+    }
+  }
+
+  return load;
+}
@@ -0,0 +1,202 @@
+import { lookup as lookupCallback, type LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { Agent } from 'undici';
+
+// Every outbound request goes through assertSafeUrl so a submitted URL can't make the
+// server reach cloud metadata endpoints or hosts on its own network. Addresses are
+// checked when the URL is requested, and again when fetch resolves the name to connect
+// (see SAFE_DISPATCHER), so a DNS server that answers differently the second time gains
+// nothing.
+
+export type UrlSafetyPolicy = {
+  // Only these hosts may be requested when the list isn't empty
+  allowHosts: string[];
+  // Never requested; checked before the allow list
+  denyHosts: string[];
+  // Permit loopback, private, link-local and other non-public addresses (local development)
+  allowPrivateNetworks: boolean;
+};
+
+export type UnsafeUrlReason = 'invalid-url' | 'scheme' | 'denied-host' | 'host-not-allowed' | 'private-address';
+
+export class UnsafeUrlError extends Error {
+  constructor(
+    message: string,
+    readonly reason: UnsafeUrlReason,
+    readonly url: string,
+  ) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+
+  // Malformed input is the caller's mistake (400); a well-formed URL we refuse is 403
+  get status(): 400 | 403 {
+    return this.reason === 'invalid-url' || this.reason === 'scheme' ? 400 : 403;
+  }
+}
+
+// Comma-separated hostnames; `*.example.com` matches subdomains only
+function hostList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+}
+
+// Read from the environment on every call so tests and the CLI can change it at runtime
+export function resolveUrlSafetyPolicy(): UrlSafetyPolicy {
+  return {
+    allowHosts: hostList(process.env.AUDIT_ALLOW_HOSTS),
+    denyHosts: hostList(process.env.AUDIT_DENY_HOSTS),
+    allowPrivateNetworks: /^(1|true|yes)$/i.test(process.env.AUDIT_ALLOW_PRIVATE_NETWORKS ?? ''),
+  };
+}
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+// Special-purpose ranges from the IANA IPv4 and IPv6 registries that aren't globally reachable
+const BLOCKED = new BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv6');
+}
+
+// IPv4 addresses embedded in IPv6 (mapped ::ffff:a.b.c.d, compatible ::a.b.c.d, SIIT
+// ::ffff:0:a.b.c.d, NAT64 64:ff9b::a.b.c.d) are judged as IPv4
+const EMBEDDING_PREFIX = '(?:::ffff:0:|::ffff:|64:ff9b::|::)';
+
+function embeddedIpv4(address: string): string | null {
+  const lower = address.toLowerCase();
+  const dotted = new RegExp(`^${EMBEDDING_PREFIX}(\\d+\\.\\d+\\.\\d+\\.\\d+)$`).exec(lower);
+  if (dotted) return dotted[1];
+  const hex = new RegExp(`^${EMBEDDING_PREFIX}([0-9a-f]{1,4}):([0-9a-f]{1,4})$`).exec(lower);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const v4 = isIP(address) === 4 ? address : embeddedIpv4(address);
+  if (v4) return BLOCKED.check(v4, 'ipv4');
+  return isIP(address) === 6 ? BLOCKED.check(address, 'ipv6') : false;
+}
+
+function matchesHost(hostname: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) return hostname.endsWith(pattern.slice(1));
+  return hostname === pattern;
+}
+
+// Resolved addresses are reused briefly; a link check asks about the same hosts many times.
+// The connection itself is checked with a fresh lookup, so the cache only saves round trips.
+const DNS_CACHE_TTL_MS = 30000;
+const dnsCache = new Map<string, { addresses: string[]; expires: number }>();
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const cached = dnsCache.get(hostname);
+  if (cached && cached.expires > Date.now()) return cached.addresses;
+
+  const addresses = (await lookup(hostname, { all: true, verbatim: true })).map(a => a.address);
+  dnsCache.set(hostname, { addresses, expires: Date.now() + DNS_CACHE_TTL_MS });
+  return addresses;
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+// dns.lookup for connections: the addresses a socket is about to connect to are checked
+// against the policy, and a private one fails the connection with UnsafeUrlError
+function checkedLookup(hostname: string, options: { all?: boolean }, callback: LookupCallback): void {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    const blocked = resolveUrlSafetyPolicy().allowPrivateNetworks ? undefined : addresses.find(a => isPrivateAddress(a.address));
+    if (blocked) {
+      const message = `${hostname} resolves to ${blocked.address}, which is a private or reserved address and cannot be requested`;
+      return callback(new UnsafeUrlError(message, 'private-address', hostname), []);
+    }
+    if (options.all) return callback(null, addresses);
+    const [first] = addresses;
+    callback(null, first.address, first.family);
+  });
+}
+
+// fetch() connects through this so it uses only addresses checked as it connects, not ones
+// an earlier lookup returned
+export const SAFE_DISPATCHER = new Agent({ connect: { lookup: checkedLookup } });
+
+// Throws UnsafeUrlError when the URL may not be requested. A name that doesn't resolve
+// fails the way fetch would (TypeError with the DNS error as cause).
+export async function assertSafeUrl(input: string | URL, policy: UrlSafetyPolicy = resolveUrlSafetyPolicy()): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new UnsafeUrlError(`Invalid URL "${String(input)}"`, 'invalid-url', String(input));
+  }
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    throw new UnsafeUrlError(`Only http and https URLs can be requested, not ${url.protocol}`, 'scheme', url.href);
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase().replace(/\.$/, '');
+  if (policy.denyHosts.some(p => matchesHost(hostname, p))) {
+    throw new UnsafeUrlError(`Requests to ${hostname} are not allowed`, 'denied-host', url.href);
+  }
+  if (policy.allowHosts.length > 0 && !policy.allowHosts.some(p => matchesHost(hostname, p))) {
+    throw new UnsafeUrlError(`${hostname} is not on the list of hosts that can be requested`, 'host-not-allowed', url.href);
+  }
+  if (policy.allowPrivateNetworks) return url;
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolveHost(hostname);
+    } catch (err) {
+      throw new TypeError('fetch failed', { cause: err });
+    }
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new UnsafeUrlError(
+      `${blocked === hostname ? hostname : `${hostname} resolves to ${blocked}, which`} is a private or reserved address and cannot be requested`,
+      'private-address',
+      url.href,
+    );
+  }
+  return url;
+}
+
+// For API routes: the reason a submitted URL is refused, or null. A name that doesn't
+// resolve isn't refused here; the audit reports it like any unreachable site.
+export async function checkTargetUrl(input: string): Promise<UnsafeUrlError | null> {
+  try {
+    await assertSafeUrl(input);
+    return null;
+  } catch (err) {
+    if (err instanceof UnsafeUrlError) return err;
+    return null;
+  }
+}
@@ -0,0 +1,196 @@
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { runAudit } from '../lib/audit';
+import { listChecks, selectChecks, type CheckSeverity } from '../lib/checks';
+import { crawlSite } from '../lib/crawler';
+import { FixtureError } from '../lib/fixtures';
+import { evaluateGate, formatReport, OUTPUT_FORMATS, SEVERITIES, type OutputFormat } from '../lib/formats';
+import { USER_AGENT_PRESETS } from '../lib/http';
+
+// Exit codes: 0 passed, 1 failed a gate (--min-score / --fail-on / a budget), 2 bad usage or the audit could not run
+const USAGE = `Usage: audit-cli <url> [options]
+
+Options:
+  --crawl                  Crawl the site instead of auditing one page
+  --depth <n>              Link depth to crawl (implies --crawl)
+  --max-pages <n>          Pages to crawl (implies --crawl)
+  --checks <ids>           Only run these checks (comma-separated)
+  --skip-checks <ids>      Don't run these checks (comma-separated)
+  --list-checks            Print the available check ids and exit
+  --performance <mode>     estimate (default) or browser
+  --user-agent <ua>        User-Agent to send: ${Object.keys(USER_AGENT_PRESETS).join(', ')} or a full string
+  --record <file>          Save every HTTP exchange of the audit to a HAR file
+  --replay <file>          Audit from a recorded HAR file instead of the network
+  --budgets <file>         Budgets file keyed by origin (default: AUDIT_BUDGETS_FILE or budgets.json)
+  --format <format>        ${OUTPUT_FORMATS.join(', ')} (default: table)
+  -o, --output <file>      Write the report to a file instead of stdout
+  --min-score <n>          Exit 1 when the score is below n (budget violations always exit 1)
+  --fail-on <severity>     Exit 1 on findings at or above ${SEVERITIES.join(', ')}
+  --allow-private-networks Audit private and loopback addresses too (a preview build on
+                           localhost, a staging host on the VPN)
+  -h, --help               Show this help
+`;
+
+class UsageError extends Error {}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(s => s.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new UsageError(`--${name} must be a non-negative number`);
+  return n;
+}
+
+function parseCli(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      crawl: { type: 'boolean' },
+      depth: { type: 'string' },
+      'max-pages': { type: 'string' },
+      checks: { type: 'string' },
+      'skip-checks': { type: 'string' },
+      'list-checks': { type: 'boolean' },
+      performance: { type: 'string' },
+      'user-agent': { type: 'string' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      budgets: { type: 'string' },
+      format: { type: 'string', default: 'table' },
+      output: { type: 'string', short: 'o' },
+      'min-score': { type: 'string' },
+      'fail-on': { type: 'string' },
+      'allow-private-networks': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) throw new UsageError(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+
+  const failOn = values['fail-on'] as CheckSeverity | undefined;
+  if (failOn && !SEVERITIES.includes(failOn)) throw new UsageError(`--fail-on must be one of ${SEVERITIES.join(', ')}`);
+
+  const performance = values.performance;
+  if (performance && performance !== 'estimate' && performance !== 'browser') {
+    throw new UsageError('--performance must be estimate or browser');
+  }
+
+  const checks = { enable: parseList(values.checks), disable: parseList(values['skip-checks']) };
+  const known = new Set(listChecks().map(c => c.id));
+  const unknown = [...(checks.enable ?? []), ...(checks.disable ?? [])].filter(id => !known.has(id));
+  if (unknown.length > 0) throw new UsageError(`Unknown checks: ${unknown.join(', ')} (see --list-checks)`);
+
+  if (values.record && values.replay) throw new UsageError('--record and --replay cannot be used together');
+  const fixture = values.record ? { mode: 'record' as const, file: path.resolve(values.record) }
+    : values.replay ? { mode: 'replay' as const, file: path.resolve(values.replay) }
+    : undefined;
+
+  const maxDepth = parseNumber('depth', values.depth);
+  const maxPages = parseNumber('max-pages', values['max-pages']);
+
+  return {
+    help: values.help ?? false,
+    listChecks: values['list-checks'] ?? false,
+    url: positionals[0],
+    crawl: Boolean(values.crawl || maxDepth !== undefined || maxPages !== undefined),
+    maxDepth,
+    maxPages,
+    checks,
+    performance: performance as 'estimate' | 'browser' | undefined,
+    userAgent: values['user-agent'],
+    fixture,
+    budgetsFile: values.budgets,
+    format,
+    output: values.output,
+    minScore: parseNumber('min-score', values['min-score']),
+    failOn,
+    allowPrivateNetworks: values['allow-private-networks'] ?? false,
+  };
+}
+
+async function main(): Promise<number> {
+  let args: ReturnType<typeof parseCli>;
+  try {
+    args = parseCli(process.argv.slice(2));
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (args.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (args.listChecks) {
+    for (const check of listChecks()) {
+      process.stdout.write(`${check.id.padEnd(22)}${check.category.padEnd(15)}${check.title}\n`);
+    }
+    return 0;
+  }
+  if (!args.url) {
+    process.stderr.write(`A URL is required\n\n${USAGE}`);
+    return 2;
+  }
+
+  // read by the URL-safety policy on every request
+  if (args.allowPrivateNetworks) process.env.AUDIT_ALLOW_PRIVATE_NETWORKS = 'true';
+
+  const performance = args.performance ? { mode: args.performance } : undefined;
+  const http = args.userAgent ? { userAgent: args.userAgent } : undefined;
+  const report = args.crawl
+    ? await crawlSite(args.url, {
+        checks: args.checks,
+        performance,
+        http,
+        fixture: args.fixture,
+        budgetsFile: args.budgetsFile,
+        ...(args.maxDepth !== undefined && { maxDepth: args.maxDepth }),
+        ...(args.maxPages !== undefined && { maxPages: Math.max(1, Math.floor(args.maxPages)) }),
+      })
+    : await runAudit(args.url, { checks: args.checks, performance, http, fixture: args.fixture, budgetsFile: args.budgetsFile });
+
+  const selected = selectChecks(args.checks);
+  const output = formatReport(report, args.format, {
+    minScore: args.minScore,
+    failOn: args.failOn,
+    checkIds: selected.map(c => c.id),
+    checkTitles: Object.fromEntries(listChecks().map(c => [c.id, c.title])),
+  });
+
+  if (args.output) {
+    await writeFile(args.output, output.endsWith('\n') ? output : `${output}\n`);
+  } else {
+    process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+  }
+
+  // no page that could be fetched is an audit error, not a gate failure
+  const pages = 'pagesCrawled' in report ? report.pages : [report];
+  if (!pages.some(page => !page.error)) {
+    process.stderr.write(`Audit failed: ${report.error ?? 'no page could be audited'}\n`);
+    return 2;
+  }
+
+  const gate = evaluateGate(report, { minScore: args.minScore, failOn: args.failOn });
+  for (const reason of gate.reasons) process.stderr.write(`✗ ${reason}\n`);
+  if (gate.passed && (args.minScore !== undefined || args.failOn || args.budgetsFile)) {
+    process.stderr.write(`✓ Score ${report.score ?? 0} passed\n`);
+  }
+  return gate.passed ? 0 : 1;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    // a missing or unreadable fixture is a usage problem, not a crash
+    if (err instanceof FixtureError) process.stderr.write(`${err.message}\n`);
+    else process.stderr.write(`${err instanceof Error ? err.stack ?? err.message : String(err)}\n`);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CronError, nextCronRun, parseCron, shortestCronInterval } from '../lib/cron';
+
+// Schedules run in local time, so the dates here are built in local time too
+const local = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const s = parseCron('0,30 9-17/4 1 */6 1-5');
+    assert.deepEqual([...s.minutes], [0, 30]);
+    assert.deepEqual([...s.hours], [9, 13, 17]);
+    assert.deepEqual([...s.daysOfMonth], [1]);
+    assert.deepEqual([...s.months], [1, 7]);
+    assert.deepEqual([...s.daysOfWeek], [1, 2, 3, 4, 5]);
+  });
+
+  it('reads a start with a step as running to the end of the range', () => {
+    assert.deepEqual([...parseCron('5/20 * * * *').minutes], [5, 25, 45]);
+  });
+
+  it('accepts the shorthands and 7 for Sunday', () => {
+    assert.deepEqual([...parseCron('@daily').hours], [0]);
+    assert.deepEqual([...parseCron('@weekly').daysOfWeek], [0]);
+    assert.deepEqual([...parseCron('0 0 * * 7').daysOfWeek], [0]);
+  });
+
+  it('rejects malformed and out-of-range fields', () => {
+    for (const expression of ['* * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '5-1 * * * *', '*/0 * * * *', 'a * * * *']) {
+      assert.throws(() => parseCron(expression), CronError, expression);
+    }
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    assert.deepEqual(nextCronRun('30 * * * *', local(2026, 3, 10, 8, 30)), local(2026, 3, 10, 9, 30));
+    assert.deepEqual(nextCronRun('30 * * * *', local(2026, 3, 10, 8, 29)), local(2026, 3, 10, 8, 30));
+  });
+
+  it('rolls over days, months and years', () => {
+    assert.deepEqual(nextCronRun('@monthly', local(2026, 12, 15, 12)), local(2027, 1, 1));
+    assert.deepEqual(nextCronRun('0 9 * * *', local(2026, 1, 31, 10)), local(2026, 2, 1, 9));
+  });
+
+  it('matches either day field when both are restricted, as cron does', () => {
+    // the 13th, or any Friday; 2026-03-06 is a Friday
+    assert.deepEqual(nextCronRun('0 0 13 * 5', local(2026, 3, 1)), local(2026, 3, 6));
+    // only Fridays when the day of month is `*`
+    assert.deepEqual(nextCronRun('0 0 * * 5', local(2026, 3, 7)), local(2026, 3, 13));
+  });
+
+  it('finds a February 29th schedule years ahead', () => {
+    assert.deepEqual(nextCronRun('0 0 29 2 *', local(2026, 3, 1)), local(2028, 2, 29));
+  });
+
+  it('gives up on a schedule that never matches', () => {
+    assert.throws(() => nextCronRun('0 0 31 2 *', local(2026, 1, 1)), CronError);
+  });
+});
+
+describe('shortestCronInterval', () => {
+  it('measures the closest minutes within and across hours', () => {
+    assert.equal(shortestCronInterval('* * * * *'), 1);
+    assert.equal(shortestCronInterval('*/15 * * * *'), 15);
+    assert.equal(shortestCronInterval('0,50 * * * *'), 10);
+    assert.equal(shortestCronInterval('@daily'), 60);
+  });
+});
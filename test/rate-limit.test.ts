@@ -0,0 +1,183 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { admitAuditRequest, authenticateRequest, ownsResource, takeScheduledQuota, type Admission } from '../lib/rate-limit';
+
+// A low refill rate so nothing comes back while a test runs
+const KEYS = {
+  '*': { ratePerMinute: 1, burst: 3, dailyQuota: 50, maxConcurrent: 1 },
+  burst: { key: 'burst-key', ratePerMinute: 1, burst: 2 },
+  quota: { key: 'quota-key', dailyQuota: 3 },
+  slots: { key: 'slots-key', maxConcurrent: 2 },
+  shared: { key: 'shared-key', burst: 10, perIp: { ratePerMinute: 1, burst: 2 } },
+  scheduled: { key: 'scheduled-key', dailyQuota: 2 },
+  revoked: { key: 'revoked-key', disabled: true },
+};
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'rate-limit-test-'));
+  process.env.AUDIT_API_KEYS_FILE = path.join(dir, 'api-keys.json');
+  await writeFile(process.env.AUDIT_API_KEYS_FILE, JSON.stringify(KEYS));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  delete process.env.AUDIT_TRUSTED_PROXY_HOPS;
+  delete process.env.AUDIT_REQUIRE_API_KEY;
+});
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/audit', { method: 'POST', headers });
+}
+
+function refused(admission: Admission): Extract<Admission, { ok: false }> {
+  assert.equal(admission.ok, false, 'request should be refused');
+  return admission as Extract<Admission, { ok: false }>;
+}
+
+describe('client identity', () => {
+  it('ignores X-Forwarded-For unless a trusted proxy is configured', async () => {
+    const identity = await authenticateRequest(request({ 'x-forwarded-for': '203.0.113.7' }));
+    assert.ok(identity.ok);
+    assert.equal(identity.client.ip, null);
+    assert.equal(identity.client.subject, 'ip:unknown');
+  });
+
+  it('takes the address the trusted proxy appended, not ones the client sent', async () => {
+    process.env.AUDIT_TRUSTED_PROXY_HOPS = '1';
+    const identity = await authenticateRequest(request({ 'x-forwarded-for': '10.0.0.1, 198.51.100.4' }));
+    assert.ok(identity.ok);
+    assert.equal(identity.client.subject, 'ip:198.51.100.4');
+
+    process.env.AUDIT_TRUSTED_PROXY_HOPS = '2';
+    const twoHops = await authenticateRequest(request({ 'x-forwarded-for': '10.0.0.1, 198.51.100.4, 192.0.2.9' }));
+    assert.ok(twoHops.ok);
+    assert.equal(twoHops.client.ip, '198.51.100.4');
+  });
+
+  it('never takes the address from X-Real-IP when the chain is shorter than the hops', async () => {
+    process.env.AUDIT_TRUSTED_PROXY_HOPS = '2';
+    const short = await authenticateRequest(request({ 'x-forwarded-for': '198.51.100.5', 'x-real-ip': '192.0.2.1' }));
+    assert.ok(short.ok);
+    assert.equal(short.client.ip, '198.51.100.5');
+
+    const none = await authenticateRequest(request({ 'x-real-ip': '192.0.2.1' }));
+    assert.ok(none.ok);
+    assert.equal(none.client.subject, 'ip:unknown');
+  });
+
+  it('refuses unknown and revoked keys, and missing ones when a key is required', async () => {
+    for (const key of ['nope', 'revoked-key']) {
+      const admission = refused(await admitAuditRequest(request({ 'x-api-key': key })));
+      assert.equal(admission.status, 401);
+      assert.equal(admission.headers['WWW-Authenticate'], 'Bearer');
+    }
+    process.env.AUDIT_REQUIRE_API_KEY = 'true';
+    assert.equal(refused(await admitAuditRequest(request())).status, 401);
+  });
+
+  it('gives each key its own resources and shares the anonymous ones', async () => {
+    const keyed = await authenticateRequest(request({ authorization: 'Bearer burst-key' }));
+    const anonymous = await authenticateRequest(request());
+    assert.ok(keyed.ok && anonymous.ok);
+    assert.equal(ownsResource(keyed.client, 'burst'), true);
+    assert.equal(ownsResource(keyed.client, null), false);
+    assert.equal(ownsResource(anonymous.client, undefined), true);
+    assert.equal(ownsResource(anonymous.client, 'burst'), false);
+  });
+});
+
+describe('admitAuditRequest', () => {
+  it('allows a burst, then refuses with Retry-After without charging the refusal', async () => {
+    const headers = { 'x-api-key': 'burst-key' };
+    const first = await admitAuditRequest(request(headers), { slots: 0 });
+    assert.ok(first.ok);
+    assert.equal(first.headers['X-RateLimit-Remaining'], '1');
+    assert.ok((await admitAuditRequest(request(headers), { slots: 0 })).ok);
+
+    const third = refused(await admitAuditRequest(request(headers), { slots: 0 }));
+    assert.equal(third.status, 429);
+    assert.match(third.error, /Rate limit of 1 requests per minute/);
+    assert.ok(Number(third.headers['Retry-After']) > 0);
+  });
+
+  it('takes audits from the daily quota and refuses a request that would overrun it', async () => {
+    const headers = { 'x-api-key': 'quota-key' };
+    const batch = refused(await admitAuditRequest(request(headers), { audits: 4, slots: 0 }));
+    assert.match(batch.error, /Daily quota of 3 audits/);
+
+    const two = await admitAuditRequest(request(headers), { audits: 2, slots: 0 });
+    assert.ok(two.ok);
+    assert.equal(two.headers['X-Quota-Remaining'], '1');
+    assert.ok((await admitAuditRequest(request(headers), { audits: 0, slots: 0 })).ok);
+    assert.ok((await admitAuditRequest(request(headers), { slots: 0 })).ok);
+    refused(await admitAuditRequest(request(headers), { slots: 0 }));
+  });
+
+  it('holds concurrency slots until they are released, once', async () => {
+    const headers = { 'x-api-key': 'slots-key' };
+    const pair = await admitAuditRequest(request(headers), { audits: 2, slots: 2 });
+    assert.ok(pair.ok);
+    const blocked = refused(await admitAuditRequest(request(headers)));
+    assert.match(blocked.error, /At most 2 audits can run at once/);
+    // work that runs in the background holds no slot
+    assert.ok((await admitAuditRequest(request(headers), { slots: 0 })).ok);
+
+    pair.release();
+    pair.release();
+    const one = await admitAuditRequest(request(headers));
+    const two = await admitAuditRequest(request(headers));
+    assert.ok(one.ok && two.ok);
+    refused(await admitAuditRequest(request(headers)));
+    one.release();
+    two.release();
+  });
+
+  it('charges a keyed request to the IP it comes from as well', async () => {
+    process.env.AUDIT_TRUSTED_PROXY_HOPS = '1';
+    const from = (ip: string) => request({ 'x-api-key': 'shared-key', 'x-forwarded-for': ip });
+
+    assert.ok((await admitAuditRequest(from('198.51.100.20'), { slots: 0 })).ok);
+    assert.ok((await admitAuditRequest(from('198.51.100.20'), { slots: 0 })).ok);
+    const third = refused(await admitAuditRequest(from('198.51.100.20'), { slots: 0 }));
+    assert.match(third.error, /from this IP/);
+    // the key itself still has room elsewhere
+    assert.ok((await admitAuditRequest(from('198.51.100.21'), { slots: 0 })).ok);
+  });
+
+  it('counts anonymous requests per IP behind a trusted proxy', async () => {
+    process.env.AUDIT_TRUSTED_PROXY_HOPS = '1';
+    const from = (ip: string) => request({ 'x-forwarded-for': ip });
+    for (let i = 0; i < 3; i++) assert.ok((await admitAuditRequest(from('198.51.100.30'), { slots: 0 })).ok);
+    refused(await admitAuditRequest(from('198.51.100.30'), { slots: 0 }));
+    assert.ok((await admitAuditRequest(from('198.51.100.31'), { slots: 0 })).ok);
+  });
+});
+
+describe('takeScheduledQuota', () => {
+  it('charges scheduled runs to the key until its quota is used up', async () => {
+    assert.equal(await takeScheduledQuota('key:scheduled'), null);
+    assert.equal(await takeScheduledQuota('key:scheduled'), null);
+    assert.match((await takeScheduledQuota('key:scheduled')) ?? '', /Daily quota of 2 audits/);
+  });
+
+  it('charges monitors created without a key to the anonymous quota of their IP', async () => {
+    assert.equal(await takeScheduledQuota('ip:192.0.2.50', 50), null);
+    assert.match((await takeScheduledQuota('ip:192.0.2.50')) ?? '', /Daily quota of 50 audits/);
+    assert.equal(await takeScheduledQuota('ip:192.0.2.51'), null);
+  });
+
+  it('refuses runs for keys that are gone or revoked, and keyless ones once a key is required', async () => {
+    assert.match((await takeScheduledQuota('key:missing')) ?? '', /no longer valid/);
+    assert.match((await takeScheduledQuota('key:revoked')) ?? '', /no longer valid/);
+    process.env.AUDIT_REQUIRE_API_KEY = 'true';
+    assert.match((await takeScheduledQuota('ip:192.0.2.52')) ?? '', /API key is now required/);
+  });
+});
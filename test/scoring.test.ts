@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AuditResult } from '../lib/audit';
+import { computeScore, DEFAULT_SCORING_CONFIG, resolveScoringConfig } from '../lib/scoring';
+
+// A page that passes every built-in rule
+function cleanPage(overrides: Partial<AuditResult> = {}): AuditResult {
+  return {
+    url: 'https://example.com/',
+    status: 200,
+    responseTimeMs: 200,
+    isHttps: true,
+    hasHsts: true,
+    hasViewport: true,
+    title: 'Example',
+    metaDescription: 'An example page',
+    h1Count: 1,
+    ...overrides,
+  } as AuditResult;
+}
+
+describe('computeScore', () => {
+  it('gives a page without problems full marks', () => {
+    const report = computeScore(cleanPage());
+    assert.equal(report.score, 100);
+    assert.deepEqual(report.breakdown, []);
+    assert.ok(Object.values(report.categories).every(score => score === 100));
+  });
+
+  it('deducts from the category a rule belongs to and weighs the categories', () => {
+    const report = computeScore(cleanPage({ title: undefined }));
+    const { missingTitle } = DEFAULT_SCORING_CONFIG.penalties;
+
+    assert.equal(report.categories.seo, 100 - missingTitle);
+    assert.equal(report.categories.security, 100);
+    const { weights } = DEFAULT_SCORING_CONFIG;
+    const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+    assert.equal(report.score, Math.round(100 - (missingTitle * weights.seo) / total));
+    assert.deepEqual(report.breakdown.map(d => d.id), ['missing-title']);
+    assert.equal(report.breakdown[0].impact, Math.round(((missingTitle * weights.seo) / total) * 10) / 10);
+  });
+
+  it('caps repeated deductions and never takes a category below zero', () => {
+    const brokenLinks = Array.from({ length: 40 }, (_, i) => ({ url: `https://example.com/${i}`, statusCode: 404 })) as AuditResult['brokenLinks'];
+    const report = computeScore(cleanPage({
+      brokenLinks,
+      title: undefined,
+      metaDescription: undefined,
+      h1Count: 0,
+      seo: { robots: { noindex: true }, issues: [] } as unknown as AuditResult['seo'],
+      redirects: Array.from({ length: 10 }, () => ({})) as AuditResult['redirects'],
+    }));
+
+    const broken = report.breakdown.find(d => d.id === 'broken-links');
+    assert.equal(broken?.points, DEFAULT_SCORING_CONFIG.penalties.brokenLinkMax);
+    assert.equal(report.categories.seo, 0);
+  });
+
+  it('doubles the penalty for a poor metric and says whether it was measured', () => {
+    const { penalties, thresholds } = DEFAULT_SCORING_CONFIG;
+    const slow = computeScore(cleanPage({ lcpMs: thresholds.lcpMs.good + 1 }));
+    const poor = computeScore(cleanPage({ lcpMs: thresholds.lcpMs.poor + 1, metricSources: { lcpMs: 'measured' } }));
+
+    assert.equal(slow.breakdown[0].points, penalties.slowLcp);
+    assert.match(slow.breakdown[0].reason, /\(estimated\)/);
+    assert.equal(poor.breakdown[0].points, penalties.slowLcp * penalties.poorMetricMultiplier);
+    assert.match(poor.breakdown[0].reason, /\(measured\)/);
+  });
+
+  it('ignores categories weighted zero', () => {
+    const config = resolveScoringConfig({ weights: { seo: 0 } });
+    assert.equal(computeScore(cleanPage({ title: undefined }), config).score, 100);
+  });
+});
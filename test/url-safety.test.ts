@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { safeFetch, type Transport } from '../lib/http';
+import { assertSafeUrl, isPrivateAddress, UnsafeUrlError, type UrlSafetyPolicy } from '../lib/url-safety';
+
+const POLICY: UrlSafetyPolicy = { allowHosts: [], denyHosts: [], allowPrivateNetworks: false };
+
+// IP literals only, so nothing here needs DNS
+async function refusal(url: string, policy = POLICY): Promise<UnsafeUrlError> {
+  const err = await assertSafeUrl(url, policy).then(() => null, (e: unknown) => e);
+  assert.ok(err instanceof UnsafeUrlError, `${url} should be refused`);
+  return err;
+}
+
+describe('isPrivateAddress', () => {
+  it('blocks loopback, private, link-local and reserved IPv4', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    assert.equal(isPrivateAddress('93.184.216.34'), false);
+  });
+
+  it('blocks loopback, unique-local and link-local IPv6', () => {
+    for (const address of ['::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    assert.equal(isPrivateAddress('2606:4700:4700::1111'), false);
+  });
+
+  it('judges IPv4-mapped addresses as the IPv4 address they carry', () => {
+    assert.equal(isPrivateAddress('::ffff:127.0.0.1'), true);
+    assert.equal(isPrivateAddress('::ffff:7f00:1'), true);
+    assert.equal(isPrivateAddress('::ffff:a9fe:a9fe'), true);
+    assert.equal(isPrivateAddress('::ffff:93.184.216.34'), false);
+  });
+
+  it('judges IPv4-compatible and SIIT addresses as the IPv4 address they carry', () => {
+    assert.equal(isPrivateAddress('::127.0.0.1'), true);
+    assert.equal(isPrivateAddress('::a9fe:a9fe'), true);
+    assert.equal(isPrivateAddress('::ffff:0:10.0.0.1'), true);
+    assert.equal(isPrivateAddress('::ffff:0:a9fe:a9fe'), true);
+    assert.equal(isPrivateAddress('::93.184.216.34'), false);
+    assert.equal(isPrivateAddress('::ffff:0:5db8:d822'), false);
+  });
+
+  it('judges NAT64 addresses as the IPv4 address they carry', () => {
+    assert.equal(isPrivateAddress('64:ff9b::10.0.0.1'), true);
+    assert.equal(isPrivateAddress('64:ff9b::a00:1'), true);
+    assert.equal(isPrivateAddress('64:ff9b::5db8:d822'), false);
+  });
+});
+
+describe('assertSafeUrl', () => {
+  it('refuses other schemes and malformed URLs as bad input', async () => {
+    const scheme = await refusal('file:///etc/passwd');
+    assert.equal(scheme.reason, 'scheme');
+    assert.equal(scheme.status, 400);
+    assert.equal((await refusal('not a url')).reason, 'invalid-url');
+  });
+
+  it('refuses private addresses, including IPv6 literals that embed one', async () => {
+    for (const url of ['http://127.0.0.1/', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]/', 'http://[::ffff:127.0.0.1]/', 'http://[64:ff9b::a9fe:a9fe]/', 'http://[::127.0.0.1]/', 'http://[::ffff:0:169.254.169.254]/']) {
+      const err = await refusal(url);
+      assert.equal(err.reason, 'private-address', url);
+      assert.equal(err.status, 403);
+    }
+  });
+
+  it('allows public addresses, and private ones when the policy permits them', async () => {
+    assert.equal((await assertSafeUrl('https://93.184.216.34/a', POLICY)).pathname, '/a');
+    await assertSafeUrl('http://[2606:4700:4700::1111]/', POLICY);
+    await assertSafeUrl('http://127.0.0.1:3000/', { ...POLICY, allowPrivateNetworks: true });
+  });
+
+  it('applies the deny list before the allow list', async () => {
+    const policy = { ...POLICY, allowHosts: ['*.example.com', '93.184.216.34'], denyHosts: ['admin.example.com'] };
+    assert.equal((await refusal('https://admin.example.com/', policy)).reason, 'denied-host');
+    assert.equal((await refusal('https://example.org/', policy)).reason, 'host-not-allowed');
+    // `*.` matches subdomains only
+    assert.equal((await refusal('https://example.com/', policy)).reason, 'host-not-allowed');
+    await assertSafeUrl('https://93.184.216.34/', policy);
+  });
+});
+
+describe('safeFetch', () => {
+  // Answers each URL from the map and checks every hop against POLICY
+  function transport(responses: Record<string, Response>, requested: string[]): Transport {
+    return {
+      fetch: async url => {
+        requested.push(url);
+        return responses[url] ?? new Response('not found', { status: 404 });
+      },
+      check: async url => {
+        await assertSafeUrl(url, POLICY);
+      },
+    };
+  }
+
+  const redirect = (location: string, status = 302) => new Response(null, { status, headers: { location } });
+
+  it('checks every redirect hop before following it', async () => {
+    const requested: string[] = [];
+    const responses = {
+      'http://93.184.216.34/': redirect('/next'),
+      'http://93.184.216.34/next': redirect('http://169.254.169.254/latest/meta-data/'),
+    };
+
+    await assert.rejects(safeFetch('http://93.184.216.34/', {}, transport(responses, requested)), UnsafeUrlError);
+    assert.deepEqual(requested, ['http://93.184.216.34/', 'http://93.184.216.34/next']);
+  });
+
+  it('refuses a redirect to an IPv4-mapped private address', async () => {
+    const requested: string[] = [];
+    const responses = { 'http://93.184.216.34/': redirect('http://[::ffff:7f00:1]/', 301) };
+    await assert.rejects(safeFetch('http://93.184.216.34/', {}, transport(responses, requested)), UnsafeUrlError);
+    assert.equal(requested.length, 1);
+  });
+
+  it('reports where a followed redirect ended up', async () => {
+    const responses = {
+      'http://93.184.216.34/': redirect('https://93.184.216.34/home'),
+      'https://93.184.216.34/home': new Response('ok'),
+    };
+    const res = await safeFetch('http://93.184.216.34/', {}, transport(responses, []));
+    assert.equal(res.status, 200);
+    assert.equal(res.url, 'https://93.184.216.34/home');
+  });
+
+  it('leaves manual redirects to the caller', async () => {
+    const requested: string[] = [];
+    const responses = { 'http://93.184.216.34/': redirect('http://127.0.0.1/') };
+    const res = await safeFetch('http://93.184.216.34/', { redirect: 'manual' }, transport(responses, requested));
+    assert.equal(res.status, 302);
+    assert.deepEqual(requested, ['http://93.184.216.34/']);
+  });
+});